@@ -33,7 +33,10 @@ import { AppLayout } from "@/components/layout/AppLayout";
 import Dashboard from "@/pages/Dashboard";
 import StudyPlanner from "@/pages/StudyPlanner";
 import QuizGenerator from "@/pages/QuizGenerator";
+import QuizLibrary from "@/pages/QuizLibrary";
+import QuestionBank from "@/pages/QuestionBank";
 import Flashcards from "@/pages/Flashcards";
+import Shared from "@/pages/Shared";
 import DoubtSolver from "@/pages/DoubtSolver";
 import Leaderboard from "@/pages/Leaderboard";
 import Profile from "@/pages/Profile";
@@ -135,9 +138,24 @@ const App = () => {
                 {/* Quiz Generator - create and take quizzes */}
                 <Route path="/quiz" element={<QuizGenerator />} />
 
+                {/* Retake a saved quiz */}
+                <Route path="/quiz/:quizId" element={<QuizGenerator />} />
+
+                {/* Quiz Library - saved quizzes and attempt history */}
+                <Route path="/quizzes" element={<QuizLibrary />} />
+
+                {/* Question Bank - tagged questions for custom quizzes */}
+                <Route path="/questions" element={<QuestionBank />} />
+
                 {/* Flashcards - study using flashcard system */}
                 <Route path="/flashcards" element={<Flashcards />} />
 
+                {/* Shared - open, preview and clone shared quizzes and decks */}
+                <Route path="/shared" element={<Shared />} />
+
+                {/* Preview of one shared quiz or deck by its code */}
+                <Route path="/shared/:code" element={<Shared />} />
+
                 {/* Doubt Solver - AI-powered Q&A system */}
                 <Route path="/doubt-solver" element={<DoubtSolver />} />
 
@@ -0,0 +1,52 @@
+/**
+ * AIStatusNotice Component
+ *
+ * Explains why AI features are unavailable and links to the settings
+ * where they can be turned on. Renders nothing when AI is ready.
+ */
+
+// Routing
+import { Link } from "react-router-dom";
+
+// UI components from shadcn
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+// AI readiness
+import { useAIStatus } from "@/hooks/use-ai-status";
+
+// Icons from lucide-react
+import { Settings, Sparkles } from "lucide-react";
+
+/**
+ * Props for AIStatusNotice component
+ */
+interface AIStatusNoticeProps {
+  className?: string;
+}
+
+/**
+ * AIStatusNotice Component
+ *
+ * @param className - Extra classes, e.g. spacing from the page header
+ */
+export function AIStatusNotice({ className }: AIStatusNoticeProps) {
+  const aiStatus = useAIStatus();
+  if (aiStatus.ready) return null;
+
+  return (
+    <Alert className={className}>
+      <Sparkles className="h-4 w-4" />
+      <AlertTitle>AI is not set up</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+        <span>{aiStatus.reason}</span>
+        <Button asChild variant="outline" size="sm">
+          <Link to="/profile">
+            <Settings className="w-4 h-4 mr-2" />
+            AI Settings
+          </Link>
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
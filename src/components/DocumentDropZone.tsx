@@ -0,0 +1,142 @@
+/**
+ * DocumentDropZone Component
+ *
+ * Dashed "Upload PDF or Image" box shared by the generator pages.
+ * Accepts a dropped or browsed file, extracts its text (see
+ * documentIngestion.ts) and hands the result to the page.
+ * Images read with OCR count toward the imagesUploaded stat.
+ */
+
+// React hooks
+import { useRef, useState } from "react";
+
+// UI components from shadcn
+import { Progress } from "@/components/ui/progress";
+
+// Hooks and state
+import { useToast } from "@/hooks/use-toast";
+import { useGameStore } from "@/lib/gameStore";
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  ExtractedDocument,
+  IngestionProgress,
+  extractDocumentText,
+} from "@/lib/documentIngestion";
+
+// Utility for combining classnames
+import { cn } from "@/lib/utils";
+
+// Icons from lucide-react
+import { FileText, Upload } from "lucide-react";
+
+/**
+ * Props for DocumentDropZone component
+ */
+interface DocumentDropZoneProps {
+  onExtracted: (document: ExtractedDocument) => void;
+  disabled?: boolean;
+}
+
+/**
+ * DocumentDropZone Component
+ */
+export function DocumentDropZone({ onExtracted, disabled = false }: DocumentDropZoneProps) {
+  const { toast } = useToast();
+  const { incrementStat } = useGameStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<IngestionProgress | null>(null);
+  const [lastFile, setLastFile] = useState<string | null>(null);
+
+  const isBusy = progress !== null;
+
+  /**
+   * Extract text from the file and report it to the page
+   */
+  const handleFile = async (file: File | undefined) => {
+    if (!file || isBusy || disabled) return;
+
+    setProgress({ stage: `Opening ${file.name}`, progress: 0 });
+
+    try {
+      const extracted = await extractDocumentText(file, setProgress);
+      if (extracted.kind === "image") incrementStat("imagesUploaded");
+
+      setLastFile(extracted.fileName);
+      onExtracted(extracted);
+      toast({
+        title: "Document Loaded 📄",
+        description: extracted.truncated
+          ? `Extracted text from ${extracted.fileName}. It was long, so only the first part was kept.`
+          : `Extracted ${extracted.text.length.toLocaleString()} characters from ${extracted.fileName}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Could not read this file.",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => !isBusy && inputRef.current?.click()}
+        onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && !isBusy && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFile(e.dataTransfer.files[0]);
+        }}
+        className={cn(
+          "border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors cursor-pointer",
+          isDragging && "border-primary bg-primary/5",
+          (isBusy || disabled) && "cursor-default opacity-80"
+        )}
+      >
+        {progress ? (
+          <div className="space-y-3">
+            <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin mx-auto" />
+            <p className="font-medium">{progress.stage}</p>
+            <Progress value={progress.progress * 100} className="h-2 max-w-xs mx-auto" />
+          </div>
+        ) : (
+          <>
+            {lastFile ? (
+              <FileText className="w-10 h-10 text-primary mx-auto mb-3" />
+            ) : (
+              <Upload className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            )}
+            <p className="font-medium mb-1">{lastFile ? lastFile : "Upload PDF or Image"}</p>
+            <p className="text-sm text-muted-foreground">
+              {lastFile
+                ? "Drop another file to replace the text"
+                : "PDF, Word (.docx), text or image. Drag and drop or click to browse"}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Kept outside the box so its click does not bubble back into it */}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_DOCUMENT_TYPES}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </>
+  );
+}
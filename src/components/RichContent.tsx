@@ -0,0 +1,72 @@
+/**
+ * RichContent Component
+ *
+ * Renders user or AI written text as Markdown with:
+ * - GitHub-flavoured Markdown (tables, lists, strikethrough)
+ * - LaTeX math via KaTeX ($inline$ and $$block$$)
+ * - Syntax-highlighted fenced code blocks
+ * - Embedded images, including data URLs from image attachments
+ *
+ * Raw HTML in the text is not rendered, so AI output cannot inject markup.
+ */
+
+// Markdown rendering
+import Markdown, { Components, defaultUrlTransform } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+// Utility for combining classnames
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for RichContent component
+ */
+interface RichContentProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * urlTransform - Allow embedded data-URL images on top of the default
+ * safe protocols (react-markdown strips data: URLs otherwise)
+ */
+const urlTransform = (url: string): string =>
+  url.startsWith("data:image/") ? url : defaultUrlTransform(url);
+
+/**
+ * Wide tables scroll inside the container instead of stretching it
+ */
+const components: Components = {
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+/**
+ * RichContent Component
+ */
+export function RichContent({ content, className }: RichContentProps) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm dark:prose-invert max-w-none break-words prose-img:mx-auto prose-img:max-h-48 prose-img:rounded-md prose-p:my-1 prose-pre:p-0 [&_pre_code]:block [&_pre_code]:overflow-x-auto [&_pre_code]:p-4",
+        className
+      )}
+    >
+      <Markdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+}
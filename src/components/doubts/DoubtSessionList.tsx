@@ -0,0 +1,244 @@
+/**
+ * DoubtSessionList Component
+ *
+ * Sidebar of saved Doubt Solver sessions with:
+ * - Search across titles and every message
+ * - New session button
+ * - Rename, pin and delete actions per session
+ */
+
+// React hooks
+import { useMemo, useState } from "react";
+
+// UI components from shadcn
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Session search
+import { searchSessions } from "@/lib/doubtStore";
+
+// Type definitions
+import { DoubtSession } from "@/types";
+import { cn } from "@/lib/utils";
+
+// Icons from lucide-react
+import {
+  MessageSquarePlus,
+  MoreVertical,
+  Pencil,
+  Pin,
+  PinOff,
+  Search,
+  Trash2,
+} from "lucide-react";
+
+/**
+ * Props for DoubtSessionList component
+ */
+interface DoubtSessionListProps {
+  sessions: DoubtSession[];
+  activeSessionId: string | null;
+  disabled?: boolean;            // Block switching while the tutor is answering
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onTogglePin: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+/**
+ * DoubtSessionList Component
+ *
+ * @param sessions - Saved sessions (sorted here, pinned first)
+ * @param activeSessionId - Session open in the chat
+ * @param onSelect - Open a session
+ * @param onNew - Start a new, unsaved chat
+ * @param onRename - Rename a session
+ * @param onTogglePin - Pin or unpin a session
+ * @param onDelete - Delete a session
+ */
+export function DoubtSessionList({
+  sessions,
+  activeSessionId,
+  disabled = false,
+  onSelect,
+  onNew,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: DoubtSessionListProps) {
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<DoubtSession | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [deleting, setDeleting] = useState<DoubtSession | null>(null);
+
+  const matches = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+
+  const startRename = (session: DoubtSession) => {
+    setRenaming(session);
+    setRenameTitle(session.title);
+  };
+
+  const submitRename = () => {
+    if (!renaming || !renameTitle.trim()) return;
+    onRename(renaming.id, renameTitle);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <Button onClick={onNew} disabled={disabled} className="w-full">
+        <MessageSquarePlus className="w-4 h-4 mr-2" />
+        New Session
+      </Button>
+
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search sessions..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 -mr-2 pr-2">
+        {matches.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {sessions.length === 0 ? "Your saved sessions will appear here." : "No sessions match your search."}
+          </p>
+        )}
+
+        {matches.map(({ session, snippet }) => (
+          <div
+            key={session.id}
+            className={cn(
+              "group flex items-start gap-1 rounded-lg px-3 py-2 transition-colors",
+              session.id === activeSessionId ? "bg-primary/10" : "hover:bg-muted",
+              disabled && "opacity-60"
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(session.id)}
+              disabled={disabled}
+              className="flex-1 min-w-0 text-left"
+            >
+              <div className="flex items-center gap-1.5">
+                {session.pinned && <Pin className="w-3 h-3 text-primary flex-shrink-0" />}
+                <span className="text-sm font-medium truncate">{session.title}</span>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {snippet ?? new Date(session.updatedAt ?? session.createdAt).toLocaleDateString()}
+              </p>
+            </button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0">
+                  <MoreVertical className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => startRename(session)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onTogglePin(session.id)}>
+                  {session.pinned ? (
+                    <>
+                      <PinOff className="w-4 h-4 mr-2" />
+                      Unpin
+                    </>
+                  ) : (
+                    <>
+                      <Pin className="w-4 h-4 mr-2" />
+                      Pin
+                    </>
+                  )}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setDeleting(session)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename Session</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRename} disabled={!renameTitle.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The conversation and its explanations are removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) onDelete(deleting.id);
+                setDeleting(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
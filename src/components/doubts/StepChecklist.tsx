@@ -0,0 +1,97 @@
+/**
+ * StepChecklist Component
+ *
+ * Renders the tutor's verdict on each step of a student's solution:
+ * - Green/red marker per step with the explanation
+ * - Hint hidden until the student asks for it
+ * - Suggested next step and the tutor's confidence
+ */
+
+// UI components from shadcn
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+// Markdown/math rendering
+import { RichContent } from "@/components/RichContent";
+
+// Type definitions
+import { StepCheck } from "@/types";
+import { cn } from "@/lib/utils";
+
+// Icons from lucide-react
+import { ArrowRight, CheckCircle2, ChevronDown, Lightbulb, XCircle } from "lucide-react";
+
+/**
+ * Props for StepChecklist component
+ */
+interface StepChecklistProps {
+  steps: StepCheck[];
+}
+
+/**
+ * StepChecklist Component
+ *
+ * @param steps - Verdicts in the order of the student's steps
+ */
+export function StepChecklist({ steps }: StepChecklistProps) {
+  const correctCount = steps.filter((s) => s.correct).length;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">
+        {correctCount} of {steps.length} steps correct
+      </p>
+
+      <ol className="space-y-2">
+        {steps.map((step, index) => (
+          <li
+            key={index}
+            className={cn(
+              "rounded-lg border bg-background/60 p-3 text-sm",
+              step.correct ? "border-success/40" : "border-destructive/40"
+            )}
+          >
+            <div className="flex items-start gap-2">
+              {step.correct ? (
+                <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+              ) : (
+                <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium whitespace-pre-wrap">
+                    Step {index + 1}: {step.userStep}
+                  </p>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {Math.round(step.confidence * 100)}% sure
+                  </span>
+                </div>
+                <RichContent content={step.explanation} className="text-muted-foreground" />
+
+                {step.hint && (
+                  <Collapsible>
+                    <CollapsibleTrigger className="group flex items-center gap-1 text-xs font-medium text-primary">
+                      <Lightbulb className="w-3 h-3" />
+                      Show hint
+                      <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="mt-1">
+                      <RichContent content={step.hint} />
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                {step.suggestedNextStep && (
+                  <div className="flex items-start gap-1 text-xs">
+                    <ArrowRight className="w-3 h-3 mt-1 flex-shrink-0" />
+                    <span className="font-medium mt-0.5">Next:</span>
+                    <RichContent content={step.suggestedNextStep} className="flex-1 text-xs" />
+                  </div>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * CardEditorDialog Component
+ *
+ * Modal form used to write a new flashcard or fix an existing one.
+ * Front and back accept Markdown, LaTeX math ($...$ / $$...$$) and
+ * attached images, with a live preview of how the card will render.
+ */
+
+// React hooks
+import { useEffect, useRef, useState } from "react";
+
+// UI components from shadcn
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Shared components
+import { RichContent } from "@/components/RichContent";
+
+// Hooks and helpers
+import { useToast } from "@/hooks/use-toast";
+import { readImageAsDataUrl } from "@/lib/imageAttachments";
+import { StorageQuotaError } from "@/lib/storageQuota";
+import { NewFlashcard } from "@/lib/flashcardStore";
+
+// Type definitions
+import { Flashcard } from "@/types";
+
+// Icons from lucide-react
+import { ImagePlus } from "lucide-react";
+
+/**
+ * Props for CardEditorDialog component
+ */
+interface CardEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card?: Flashcard | null;       // Card being edited; omit to write a new one
+  onSubmit: (card: NewFlashcard) => void;
+}
+
+/**
+ * Props for the module-private RichTextField
+ */
+interface RichTextFieldProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * RichTextField - Markdown textarea with preview and image attachment
+ */
+function RichTextField({ id, label, placeholder, value, onChange }: RichTextFieldProps) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Embed the picked image at the cursor as a Markdown image
+   */
+  const handleImage = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const dataUrl = await readImageAsDataUrl(file);
+      const alt = file.name.replace(/\.[^.]+$/, "").replace(/[[\]]/g, "");
+      const markdown = `![${alt}](${dataUrl})`;
+
+      const start = textareaRef.current?.selectionStart ?? value.length;
+      const end = textareaRef.current?.selectionEnd ?? value.length;
+      const before = value.slice(0, start);
+      const after = value.slice(end);
+      const spacer = before && !before.endsWith("\n") ? "\n" : "";
+      onChange(`${before}${spacer}${markdown}\n${after}`);
+    } catch (error) {
+      toast({
+        title: "Image Not Added",
+        description: error instanceof Error ? error.message : "Could not read the image.",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Tabs defaultValue="write">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={id}>{label}</Label>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <ImagePlus className="w-4 h-4 mr-1" />
+              Image
+            </Button>
+            <TabsList className="h-8">
+              <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+              <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+            </TabsList>
+          </div>
+        </div>
+
+        <TabsContent value="write">
+          <Textarea
+            id={id}
+            ref={textareaRef}
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="min-h-[120px] font-mono text-sm"
+          />
+        </TabsContent>
+        <TabsContent value="preview">
+          <div className="min-h-[120px] max-h-64 overflow-y-auto rounded-md border border-input p-3">
+            {value.trim() ? (
+              <RichContent content={value} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => handleImage(e.target.files?.[0])}
+      />
+    </div>
+  );
+}
+
+/**
+ * CardEditorDialog Component
+ *
+ * Resets its fields from the card each time it opens.
+ */
+export function CardEditorDialog({ open, onOpenChange, card, onSubmit }: CardEditorDialogProps) {
+  const [front, setFront] = useState("");
+  const [back, setBack] = useState("");
+  const [difficulty, setDifficulty] = useState<Flashcard["difficulty"]>("medium");
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFront(card?.front ?? "");
+      setBack(card?.back ?? "");
+      setDifficulty(card?.difficulty ?? "medium");
+      setSaveError(null);
+    }
+  }, [open, card]);
+
+  const canSubmit = front.trim() !== "" && back.trim() !== "";
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    try {
+      onSubmit({ front: front.trim(), back: back.trim(), difficulty });
+    } catch (error) {
+      // Stay open so images can be removed and the card saved again
+      if (!(error instanceof StorageQuotaError)) throw error;
+      setSaveError(error.message);
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{card ? "Edit Card" : "New Card"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RichTextField
+            id="cardFront"
+            label="Front"
+            placeholder="Question or prompt, e.g. What is $\int x\,dx$?"
+            value={front}
+            onChange={setFront}
+          />
+          <RichTextField
+            id="cardBack"
+            label="Back"
+            placeholder="Answer, e.g. $\frac{x^2}{2} + C$"
+            value={back}
+            onChange={setBack}
+          />
+
+          <div className="space-y-2">
+            <Label>Difficulty</Label>
+            <Select
+              value={difficulty}
+              onValueChange={(v) => setDifficulty(v as Flashcard["difficulty"])}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Supports Markdown, inline math with $...$ and block math with $$...$$.
+          </p>
+
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {card ? "Save Card" : "Add Card"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * DeckCard Component
+ *
+ * Displays a single flashcard deck with:
+ * - Deck name and description
+ * - New / learning / due counts from SM-2 data
+ * - Study button and a menu of deck actions (including export and sharing)
+ */
+
+// UI components from shadcn
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Type definitions
+import { FlashcardDeck } from "@/types";
+
+// Deck statistics and export formats
+import { getDeckCounts } from "@/lib/flashcardStore";
+import { ExportFormat } from "@/lib/deckTransfer";
+
+// Icons from lucide-react
+import {
+  BookOpen,
+  Combine,
+  Download,
+  ListChecks,
+  MoreVertical,
+  Pencil,
+  Share2,
+  Trash2,
+} from "lucide-react";
+
+/**
+ * Props for DeckCard component
+ */
+interface DeckCardProps {
+  deck: FlashcardDeck;
+  onStudy: () => void;
+  onEdit: () => void;
+  onManage: () => void;
+  onMerge: () => void;
+  onExport: (format: ExportFormat) => void;
+  onShare: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * DeckCard Component
+ *
+ * @param deck - The deck to display
+ * @param onStudy - Start studying this deck
+ * @param onEdit - Rename or describe the deck
+ * @param onManage - Open the card list (move/split cards)
+ * @param onMerge - Merge this deck into another
+ * @param onExport - Download the deck as an Anki package or CSV/TSV
+ * @param onShare - Publish the deck under a share code
+ * @param onDelete - Delete the deck and its cards
+ */
+export function DeckCard({
+  deck,
+  onStudy,
+  onEdit,
+  onManage,
+  onMerge,
+  onExport,
+  onShare,
+  onDelete,
+}: DeckCardProps) {
+  const counts = getDeckCounts(deck.cards);
+
+  return (
+    <Card className="hover:border-primary/30 hover:shadow-lg transition-all duration-300">
+      <CardContent className="p-5 space-y-4">
+        {/* Name, description and actions */}
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="font-semibold truncate">{deck.name}</h3>
+            <p className="text-sm text-muted-foreground line-clamp-2">
+              {deck.description || `${counts.total} cards`}
+            </p>
+          </div>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="flex-shrink-0">
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={onEdit}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Rename / Describe
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onManage}>
+                <ListChecks className="w-4 h-4 mr-2" />
+                Manage Cards
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onMerge}>
+                <Combine className="w-4 h-4 mr-2" />
+                Merge Into...
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger disabled={counts.total === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem onClick={() => onExport("apkg")}>Anki package (.apkg)</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport("csv")}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport("tsv")}>TSV</DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem onClick={onShare} disabled={counts.total === 0}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onDelete} className="text-destructive focus:text-destructive">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete Deck
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {/* SM-2 counts */}
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg bg-primary/10 py-2">
+            <p className="text-lg font-bold text-primary">{counts.new}</p>
+            <p className="text-xs text-muted-foreground">New</p>
+          </div>
+          <div className="rounded-lg bg-warning/10 py-2">
+            <p className="text-lg font-bold text-warning">{counts.learning}</p>
+            <p className="text-xs text-muted-foreground">Learning</p>
+          </div>
+          <div className="rounded-lg bg-success/10 py-2">
+            <p className="text-lg font-bold text-success">{counts.due}</p>
+            <p className="text-xs text-muted-foreground">Due</p>
+          </div>
+        </div>
+
+        <Button onClick={onStudy} disabled={counts.total === 0} className="w-full" variant="outline">
+          <BookOpen className="w-4 h-4 mr-2" />
+          Study Deck
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * DeckCardList Component
+ *
+ * Lists the cards in one deck with multi-select so they can be:
+ * - Added, edited and deleted by hand (Markdown, math and images)
+ * - Moved into another existing deck
+ * - Split out into a brand-new deck
+ */
+
+// React hooks
+import { useState } from "react";
+
+// UI components from shadcn
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Shared components
+import { RichContent } from "@/components/RichContent";
+
+// Flashcard components
+import { CardEditorDialog } from "@/components/flashcards/CardEditorDialog";
+import { DeckDialog } from "@/components/flashcards/DeckDialog";
+import { DeckSelect } from "@/components/flashcards/DeckSelect";
+
+// Type definitions
+import { Flashcard, FlashcardDeck } from "@/types";
+import { DeckDetails, NewFlashcard } from "@/lib/flashcardStore";
+
+// Icons from lucide-react
+import { ArrowRightLeft, ChevronLeft, Pencil, Plus, Scissors, Trash2 } from "lucide-react";
+
+/**
+ * Props for DeckCardList component
+ */
+interface DeckCardListProps {
+  deck: FlashcardDeck;
+  decks: FlashcardDeck[];        // All decks (move targets)
+  onMove: (cardIds: string[], targetDeckId: string) => void;
+  onSplit: (cardIds: string[], name: string, details: DeckDetails) => void;
+  onAddCard: (card: NewFlashcard) => void;
+  onEditCard: (cardId: string, card: NewFlashcard) => void;
+  onDeleteCards: (cardIds: string[]) => void;
+  onBack: () => void;
+}
+
+/**
+ * DeckCardList Component
+ */
+export function DeckCardList({
+  deck,
+  decks,
+  onMove,
+  onSplit,
+  onAddCard,
+  onEditCard,
+  onDeleteCards,
+  onBack,
+}: DeckCardListProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [targetDeckId, setTargetDeckId] = useState<string>();
+  const [showSplit, setShowSplit] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingCard, setEditingCard] = useState<Flashcard | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Drop selections for cards that have left the deck
+  const selectedIds = selected.filter((id) => deck.cards.some((c) => c.id === id));
+  const allSelected = deck.cards.length > 0 && selectedIds.length === deck.cards.length;
+
+  const toggle = (cardId: string) => {
+    setSelected((prev) =>
+      prev.includes(cardId) ? prev.filter((id) => id !== cardId) : [...prev, cardId]
+    );
+  };
+
+  const handleMove = () => {
+    if (!targetDeckId || selectedIds.length === 0) return;
+    onMove(selectedIds, targetDeckId);
+    setSelected([]);
+  };
+
+  const openEditor = (card: Flashcard | null) => {
+    setEditingCard(card);
+    setShowEditor(true);
+  };
+
+  return (
+    <Card className="max-w-3xl mx-auto">
+      <CardHeader className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="truncate">{deck.name}</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onBack}>
+              <ChevronLeft className="w-4 h-4 mr-2" />
+              Back to Decks
+            </Button>
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Card
+            </Button>
+          </div>
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelected(checked ? deck.cards.map((c) => c.id) : [])}
+            />
+            {selectedIds.length} selected
+          </label>
+          <div className="flex-1 min-w-[180px]">
+            <DeckSelect
+              decks={decks}
+              value={targetDeckId}
+              onChange={setTargetDeckId}
+              placeholder="Move to deck..."
+              excludeIds={[deck.id]}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleMove}
+            disabled={!targetDeckId || selectedIds.length === 0}
+          >
+            <ArrowRightLeft className="w-4 h-4 mr-2" />
+            Move
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowSplit(true)}
+            disabled={selectedIds.length === 0}
+          >
+            <Scissors className="w-4 h-4 mr-2" />
+            Split to New Deck
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setConfirmDelete(true)}
+            disabled={selectedIds.length === 0}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {deck.cards.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">This deck has no cards yet. Add one or generate some from your notes.</p>
+        ) : (
+          deck.cards.map((card) => (
+            <div
+              key={card.id}
+              className="flex items-start gap-3 p-3 rounded-lg border border-border hover:border-primary/30"
+            >
+              <Checkbox
+                checked={selectedIds.includes(card.id)}
+                onCheckedChange={() => toggle(card.id)}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0 max-h-32 overflow-hidden space-y-1">
+                <RichContent content={card.front} className="font-medium" />
+                <RichContent content={card.back} className="text-muted-foreground" />
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openEditor(card)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <CardEditorDialog
+        open={showEditor}
+        onOpenChange={setShowEditor}
+        card={editingCard}
+        onSubmit={(card) => (editingCard ? onEditCard(editingCard.id, card) : onAddCard(card))}
+      />
+
+      {/* Delete selected cards confirmation */}
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.length} cards?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The cards and their review history are removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                onDeleteCards(selectedIds);
+                setSelected([]);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DeckDialog
+        open={showSplit}
+        onOpenChange={setShowSplit}
+        title={`Split ${selectedIds.length} cards into a new deck`}
+        submitLabel="Create Deck"
+        initialName={`${deck.name} (part 2)`}
+        onSubmit={(name, details) => {
+          onSplit(selectedIds, name, details);
+          setSelected([]);
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * DeckDialog Component
+ *
+ * Modal form used to create a deck or edit an existing deck's
+ * name, description, daily study limits and scheduling algorithm.
+ */
+
+// React hooks
+import { useEffect, useState } from "react";
+
+// UI components from shadcn
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Deck types and defaults
+import { DeckDetails } from "@/lib/flashcardStore";
+import { DEFAULT_NEW_CARDS_PER_DAY, DEFAULT_REVIEWS_PER_DAY } from "@/lib/reviewQueue";
+import { ALGORITHM_LABELS, DEFAULT_ALGORITHM } from "@/lib/scheduler";
+import { SchedulerAlgorithm } from "@/types";
+
+/**
+ * Props for DeckDialog component
+ */
+interface DeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;                 // Dialog heading (e.g. "New Deck")
+  submitLabel: string;           // Submit button text
+  initialName?: string;
+  initialDetails?: DeckDetails;
+  showSettings?: boolean;        // Show daily limits and algorithm fields
+  onSubmit: (name: string, details: DeckDetails) => void;
+}
+
+/**
+ * DeckDialog Component
+ *
+ * Resets its fields from the initial values each time it opens.
+ */
+export function DeckDialog({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  initialName = "",
+  initialDetails,
+  showSettings = false,
+  onSubmit,
+}: DeckDialogProps) {
+  const [name, setName] = useState(initialName);
+  const [description, setDescription] = useState("");
+  const [newCardsPerDay, setNewCardsPerDay] = useState("");
+  const [reviewsPerDay, setReviewsPerDay] = useState("");
+  const [algorithm, setAlgorithm] = useState<SchedulerAlgorithm>(DEFAULT_ALGORITHM);
+
+  useEffect(() => {
+    if (open) {
+      setName(initialName);
+      setDescription(initialDetails?.description ?? "");
+      setNewCardsPerDay(String(initialDetails?.newCardsPerDay ?? DEFAULT_NEW_CARDS_PER_DAY));
+      setReviewsPerDay(String(initialDetails?.reviewsPerDay ?? DEFAULT_REVIEWS_PER_DAY));
+      setAlgorithm(initialDetails?.algorithm ?? DEFAULT_ALGORITHM);
+    }
+  }, [open, initialName, initialDetails]);
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+
+    const details: DeckDetails = { description: description.trim() || undefined };
+    if (showSettings) {
+      details.newCardsPerDay = Math.max(0, parseInt(newCardsPerDay) || 0);
+      details.reviewsPerDay = Math.max(0, parseInt(reviewsPerDay) || 0);
+      details.algorithm = algorithm;
+    }
+
+    onSubmit(name.trim(), details);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="deckName">Name</Label>
+            <Input
+              id="deckName"
+              placeholder="e.g. Organic Chemistry"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deckDescription">Description</Label>
+            <Textarea
+              id="deckDescription"
+              placeholder="Optional: what this deck covers"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {showSettings && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="newCardsPerDay">New cards / day</Label>
+                <Input
+                  id="newCardsPerDay"
+                  type="number"
+                  min="0"
+                  value={newCardsPerDay}
+                  onChange={(e) => setNewCardsPerDay(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reviewsPerDay">Reviews / day</Label>
+                <Input
+                  id="reviewsPerDay"
+                  type="number"
+                  min="0"
+                  value={reviewsPerDay}
+                  onChange={(e) => setReviewsPerDay(e.target.value)}
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label>Scheduling algorithm</Label>
+                <Select value={algorithm} onValueChange={(v) => setAlgorithm(v as SchedulerAlgorithm)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ALGORITHM_LABELS) as SchedulerAlgorithm[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {ALGORITHM_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!name.trim()}>
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
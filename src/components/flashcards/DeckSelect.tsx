@@ -0,0 +1,57 @@
+/**
+ * DeckSelect Component
+ *
+ * Dropdown for choosing a flashcard deck, used when generating cards,
+ * merging decks and moving cards.
+ */
+
+// UI components from shadcn
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Type definitions
+import { FlashcardDeck } from "@/types";
+
+/**
+ * Props for DeckSelect component
+ */
+interface DeckSelectProps {
+  decks: FlashcardDeck[];
+  value: string | undefined;
+  onChange: (deckId: string) => void;
+  placeholder?: string;
+  excludeIds?: string[];         // Decks that should not be offered
+}
+
+/**
+ * DeckSelect Component
+ */
+export function DeckSelect({
+  decks,
+  value,
+  onChange,
+  placeholder = "Choose a deck",
+  excludeIds = [],
+}: DeckSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {decks
+          .filter((d) => !excludeIds.includes(d.id))
+          .map((deck) => (
+            <SelectItem key={deck.id} value={deck.id}>
+              {deck.name} ({deck.cards.length})
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
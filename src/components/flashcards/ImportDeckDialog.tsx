@@ -0,0 +1,411 @@
+/**
+ * ImportDeckDialog Component
+ *
+ * Two-step import of Anki packages (.apkg) and CSV/TSV files:
+ * 1. Pick a file
+ * 2. Map columns to card fields, choose the destination deck and check a
+ *    preview of the resulting cards before importing
+ */
+
+// React hooks
+import { useState } from "react";
+
+// UI components from shadcn
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Import helpers
+import { readAnkiPackage } from "@/lib/ankiPackage";
+import {
+  DELIMITER_LABELS,
+  Delimiter,
+  FIELD_TARGET_LABELS,
+  FieldMapping,
+  FieldTarget,
+  ImportedTable,
+  applyMapping,
+  fileBaseName,
+  guessMapping,
+  parseDelimited,
+} from "@/lib/deckTransfer";
+import { NewFlashcard } from "@/lib/flashcardStore";
+
+// Type definitions
+import { FlashcardDeck } from "@/types";
+
+// Icons from lucide-react
+import { AlertTriangle, FileUp } from "lucide-react";
+
+/**
+ * ImportGroup - Cards going into one deck
+ * `deckId` is set for existing decks; otherwise a deck named `deckName` is created
+ */
+export interface ImportGroup {
+  deckId?: string;
+  deckName: string;
+  cards: NewFlashcard[];
+}
+
+/**
+ * Props for ImportDeckDialog component
+ */
+interface ImportDeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  decks: FlashcardDeck[];        // Existing decks (import targets)
+  onImport: (groups: ImportGroup[]) => void;
+}
+
+/**
+ * Number of mapped cards shown in the preview
+ */
+const PREVIEW_ROWS = 5;
+
+/**
+ * Select value meaning "not mapped"
+ */
+const UNMAPPED = "none";
+
+/**
+ * Destination value meaning "create a new deck"
+ */
+const NEW_DECK = "new";
+
+/**
+ * ImportDeckDialog Component
+ */
+export function ImportDeckDialog({ open, onOpenChange, decks, onImport }: ImportDeckDialogProps) {
+  const [table, setTable] = useState<ImportedTable | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  // CSV/TSV options (the raw text is kept so they can be changed)
+  const [rawText, setRawText] = useState("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [hasHeader, setHasHeader] = useState(true);
+
+  // Destination
+  const [destination, setDestination] = useState<string>(NEW_DECK);
+  const [deckName, setDeckName] = useState("");
+  const [keepAnkiDecks, setKeepAnkiDecks] = useState(false);
+
+  const mapped = table ? applyMapping(table, mapping) : [];
+  const ankiDeckNames = new Set(mapped.map((m) => m.deckName).filter(Boolean));
+  const targets = (Object.keys(FIELD_TARGET_LABELS) as FieldTarget[]).filter(
+    // Anki scheduling comes from the package, not from note fields
+    (target) => table?.source === "csv" || ["front", "back", "difficulty"].includes(target)
+  );
+
+  const reset = () => {
+    setTable(null);
+    setMapping({});
+    setError(null);
+    setRawText("");
+    setDestination(NEW_DECK);
+    setKeepAnkiDecks(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  /**
+   * Load a parsed table and guess its mapping
+   */
+  const loadTable = (next: ImportedTable) => {
+    setTable(next);
+    setMapping(guessMapping(next.columns));
+  };
+
+  /**
+   * Read the picked file as an Anki package or delimited text
+   */
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    setDeckName(fileBaseName(file.name));
+
+    try {
+      if (file.name.toLowerCase().endsWith(".apkg")) {
+        loadTable(await readAnkiPackage(file));
+      } else {
+        const text = await file.text();
+        const result = parseDelimited(text, fileBaseName(file.name), {
+          delimiter: file.name.toLowerCase().endsWith(".tsv") ? "\t" : undefined,
+          hasHeader: true,
+        });
+        setRawText(text);
+        setDelimiter(result.delimiter);
+        setHasHeader(true);
+        loadTable(result.table);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read this file.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  /**
+   * Re-parse CSV/TSV text after an option changes
+   */
+  const reparse = (options: { delimiter: Delimiter; hasHeader: boolean }) => {
+    setDelimiter(options.delimiter);
+    setHasHeader(options.hasHeader);
+    loadTable(parseDelimited(rawText, deckName, options).table);
+  };
+
+  const updateMapping = (target: FieldTarget, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === UNMAPPED) delete next[target];
+      else next[target] = Number(value);
+      return next;
+    });
+  };
+
+  /**
+   * Group mapped cards by destination deck and hand them to the page
+   */
+  const handleImport = () => {
+    if (mapped.length === 0) return;
+
+    let groups: ImportGroup[];
+    if (keepAnkiDecks && ankiDeckNames.size > 1) {
+      const byDeck = new Map<string, NewFlashcard[]>();
+      mapped.forEach(({ deckName: name, card }) => {
+        const key = name ?? deckName;
+        byDeck.set(key, [...(byDeck.get(key) ?? []), card]);
+      });
+      groups = Array.from(byDeck, ([name, cards]) => ({ deckName: name, cards }));
+    } else {
+      const existing = decks.find((d) => d.id === destination);
+      groups = [
+        {
+          deckId: existing?.id,
+          deckName: existing?.name ?? (deckName.trim() || table?.name || "Imported Deck"),
+          cards: mapped.map((m) => m.card),
+        },
+      ];
+    }
+
+    onImport(groups);
+    handleOpenChange(false);
+  };
+
+  const canImport =
+    mapped.length > 0 && (destination !== NEW_DECK || keepAnkiDecks || deckName.trim() !== "");
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Cards</DialogTitle>
+          <DialogDescription>
+            Anki packages (.apkg) keep their review history. CSV/TSV columns can be mapped to any card field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!table ? (
+          <label className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors cursor-pointer block">
+            <FileUp className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="font-medium mb-1">{isReading ? "Reading file..." : "Choose a file"}</p>
+            <p className="text-sm text-muted-foreground">.apkg, .csv, .tsv or .txt</p>
+            <input
+              type="file"
+              accept=".apkg,.csv,.tsv,.txt"
+              className="hidden"
+              disabled={isReading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {error && <p className="text-sm text-destructive mt-3">{error}</p>}
+          </label>
+        ) : (
+          <div className="space-y-5">
+            {/* Delimited text options */}
+            {table.source === "csv" && (
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Separator</Label>
+                  <Select
+                    value={delimiter}
+                    onValueChange={(v) => reparse({ delimiter: v as Delimiter, hasHeader })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map((d) => (
+                        <SelectItem key={d} value={d}>
+                          {DELIMITER_LABELS[d]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm pb-2">
+                  <Checkbox
+                    checked={hasHeader}
+                    onCheckedChange={(checked) => reparse({ delimiter, hasHeader: checked === true })}
+                  />
+                  First row is a header
+                </label>
+              </div>
+            )}
+
+            {/* Field mapping */}
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {targets.map((target) => (
+                <div key={target} className="space-y-1">
+                  <Label className="text-xs">
+                    {FIELD_TARGET_LABELS[target]}
+                    {(target === "front" || target === "back") && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[target] !== undefined ? String(mapping[target]) : UNMAPPED}
+                    onValueChange={(v) => updateMapping(target, v)}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                      {table.columns.map((column, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Destination */}
+            <div className="space-y-2">
+              <Label>Import into</Label>
+              <div className="flex flex-wrap gap-3">
+                <div className="flex-1 min-w-[200px]">
+                  <Select value={destination} onValueChange={setDestination} disabled={keepAnkiDecks}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_DECK}>New deck</SelectItem>
+                      {decks.map((deck) => (
+                        <SelectItem key={deck.id} value={deck.id}>
+                          {deck.name} ({deck.cards.length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {destination === NEW_DECK && !keepAnkiDecks && (
+                  <Input
+                    className="flex-1 min-w-[200px]"
+                    placeholder="Deck name"
+                    value={deckName}
+                    onChange={(e) => setDeckName(e.target.value)}
+                  />
+                )}
+              </div>
+              {ankiDeckNames.size > 1 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={keepAnkiDecks}
+                    onCheckedChange={(checked) => setKeepAnkiDecks(checked === true)}
+                  />
+                  Keep the package's {ankiDeckNames.size} Anki decks as separate decks
+                </label>
+              )}
+            </div>
+
+            {/* Preview */}
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {mapped.length} of {table.rows.length} rows will become cards
+                {mapped.length < table.rows.length && " (rows without a front or back are skipped)"}.
+              </p>
+              <div className="rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Front</TableHead>
+                      <TableHead>Back</TableHead>
+                      <TableHead className="w-28">Schedule</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {mapped.slice(0, PREVIEW_ROWS).map(({ card }, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="max-w-[220px] truncate">{card.front}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">{card.back}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {card.lastReviewDate ? `${card.interval ?? 0}d interval` : "New"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {table.warnings.length > 0 && (
+              <div className="flex gap-2 text-sm text-warning">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <ul className="space-y-1">
+                  {table.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {table && (
+            <Button variant="ghost" onClick={reset} className="mr-auto">
+              Choose Another File
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            Import {mapped.length > 0 ? `${mapped.length} Cards` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
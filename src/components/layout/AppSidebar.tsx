@@ -16,7 +16,10 @@ import {
   LayoutDashboard, // Dashboard icon
   Calendar, // Study Planner icon
   FileQuestion, // Quiz Generator icon
+  Library, // Quiz Library icon
+  Database, // Question Bank icon
   Layers, // Flashcards icon
+  Share2, // Shared icon
   MessageCircleQuestion, // Doubt Solver icon
   Trophy, // Leaderboard icon
   User, // Profile icon
@@ -29,6 +32,10 @@ import { cn } from "@/lib/utils";
 
 // Game state management
 import { useGameStore } from "@/lib/gameStore";
+import { useFlashcardStore } from "@/lib/flashcardStore";
+import { useDoubtStore } from "@/lib/doubtStore";
+import { useQuizStore } from "@/lib/quizStore";
+import { useQuestionBankStore } from "@/lib/questionBankStore";
 import { supabase } from "@/lib/supabase";
 
 /**
@@ -39,7 +46,10 @@ const navItems = [
   { to: "/", icon: LayoutDashboard, label: "Dashboard" },
   { to: "/study-planner", icon: Calendar, label: "Study Planner" },
   { to: "/quiz", icon: FileQuestion, label: "Quiz Generator" },
+  { to: "/quizzes", icon: Library, label: "Quiz Library" },
+  { to: "/questions", icon: Database, label: "Question Bank" },
   { to: "/flashcards", icon: Layers, label: "Flashcards" },
+  { to: "/shared", icon: Share2, label: "Shared" },
   { to: "/doubt-solver", icon: MessageCircleQuestion, label: "Doubt Solver" },
   { to: "/leaderboard", icon: Trophy, label: "Leaderboard" },
   { to: "/profile", icon: User, label: "Profile" },
@@ -186,6 +196,10 @@ export function AppSidebar() {
 function LogoutButton() {
   const navigate = useNavigate();
   const logout = useGameStore((state) => state.logout);
+  const resetFlashcards = useFlashcardStore((state) => state.reset);
+  const resetDoubts = useDoubtStore((state) => state.reset);
+  const resetQuizzes = useQuizStore((state) => state.reset);
+  const resetQuestionBank = useQuestionBankStore((state) => state.reset);
 
   const handleLogout = async () => {
     try {
@@ -194,6 +208,10 @@ function LogoutButton() {
       
       // Clear session and reset game state
       logout();
+      resetFlashcards();
+      resetDoubts();
+      resetQuizzes();
+      resetQuestionBank();
 
       // Redirect to login page
       navigate("/login", { replace: true });
@@ -201,6 +219,10 @@ function LogoutButton() {
       console.error("Logout error:", error);
       // Still logout locally even if Supabase signout fails
       logout();
+      resetFlashcards();
+      resetDoubts();
+      resetQuizzes();
+      resetQuestionBank();
       navigate("/login", { replace: true });
     }
   };
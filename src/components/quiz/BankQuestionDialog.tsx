@@ -0,0 +1,366 @@
+/**
+ * BankQuestionDialog Component
+ *
+ * Modal form used to write a question for the question bank or edit one:
+ * - Fields follow the question type (options, accepted answers, key points...)
+ * - Checked with the same rules as generated questions
+ * - Warns when the question looks like one already in the bank
+ */
+
+// React hooks
+import { useEffect, useMemo, useState } from "react";
+
+// UI components from shadcn
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Validation, duplicate detection and labels
+import { validateQuestion } from "@/lib/gemini";
+import { NewBankQuestion, parseTags } from "@/lib/questionBankStore";
+import { findNearDuplicate } from "@/lib/questionDedup";
+import { QUESTION_TYPE_LABELS, TRUE_FALSE_OPTIONS } from "@/lib/quizGrading";
+
+// Type definitions
+import { BankQuestion, Difficulty, QuestionType } from "@/types";
+
+// Icons from lucide-react
+import { AlertTriangle } from "lucide-react";
+
+/**
+ * Props for BankQuestionDialog component
+ */
+interface BankQuestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  question?: BankQuestion | null;   // Question being edited; omit to write a new one
+  bank: BankQuestion[];             // Questions to check for near-duplicates
+  onSubmit: (question: NewBankQuestion) => void;
+}
+
+/**
+ * lines - Non-empty trimmed lines of a textarea
+ */
+const lines = (text: string): string[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * BankQuestionDialog Component
+ *
+ * Resets its fields from the question each time it opens.
+ */
+export function BankQuestionDialog({ open, onOpenChange, question, bank, onSubmit }: BankQuestionDialogProps) {
+  const [type, setType] = useState<QuestionType>("mcq");
+  const [text, setText] = useState("");
+  const [options, setOptions] = useState("");
+  const [correctAnswer, setCorrectAnswer] = useState("");
+  const [correctAnswers, setCorrectAnswers] = useState("");
+  const [acceptedAnswers, setAcceptedAnswers] = useState("");
+  const [keyPoints, setKeyPoints] = useState("");
+  const [tolerance, setTolerance] = useState("");
+  const [unit, setUnit] = useState("");
+  const [explanation, setExplanation] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+  const [subject, setSubject] = useState("");
+  const [topic, setTopic] = useState("");
+  const [tags, setTags] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setType(question?.type ?? "mcq");
+      setText(question?.question ?? "");
+      setOptions(question?.type === "true_false" ? "" : question?.options?.join("\n") ?? "");
+      setCorrectAnswer(question?.correctAnswer ?? "");
+      setCorrectAnswers(question?.correctAnswers?.join("\n") ?? "");
+      setAcceptedAnswers(question?.acceptedAnswers?.join("\n") ?? "");
+      setKeyPoints(question?.keyPoints?.join("\n") ?? "");
+      setTolerance(question?.tolerance !== undefined ? String(question.tolerance) : "");
+      setUnit(question?.unit ?? "");
+      setExplanation(question?.explanation ?? "");
+      setDifficulty(question?.difficulty ?? "medium");
+      setSubject(question?.subject ?? "");
+      setTopic(question?.topic ?? "");
+      setTags(question?.tags.join(", ") ?? "");
+      setError(null);
+    }
+  }, [open, question]);
+
+  // Look for a similar question already in the bank (ignoring the one being edited)
+  const duplicate = useMemo(() => {
+    if (text.trim().length < 10) return undefined;
+    return findNearDuplicate(
+      { id: question?.id ?? "", type, question: text, correctAnswer, explanation, difficulty },
+      bank
+    );
+  }, [text, type, correctAnswer, explanation, difficulty, question, bank]);
+
+  const handleSubmit = () => {
+    const choices = lines(options);
+    const correct = lines(correctAnswers);
+    const result = validateQuestion({
+      type,
+      question: text,
+      options: type === "mcq" || type === "multi_select" ? choices : undefined,
+      correctAnswer: type === "multi_select" ? correct.join(", ") : correctAnswer,
+      correctAnswers: type === "multi_select" ? correct : undefined,
+      acceptedAnswers: type === "short" || type === "fill_blank" ? lines(acceptedAnswers) : undefined,
+      keyPoints: type === "short" || type === "free_response" ? lines(keyPoints) : undefined,
+      tolerance: type === "numeric" && tolerance.trim() ? Number(tolerance) : undefined,
+      unit: type === "numeric" ? unit : undefined,
+      explanation,
+      difficulty,
+      topic,
+    });
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    onSubmit({
+      ...result.question,
+      id: question?.id,
+      subject: subject.trim() || undefined,
+      tags: parseTags(tags),
+      origin: question?.origin ?? "manual",
+      source: question?.source,
+    });
+    onOpenChange(false);
+  };
+
+  const isChoice = type === "mcq" || type === "multi_select";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question ? "Edit Question" : "New Question"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as QuestionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {QUESTION_TYPE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">Easy</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bankQuestionText">Question</Label>
+            <Textarea
+              id="bankQuestionText"
+              placeholder={type === "fill_blank" ? "The powerhouse of the cell is the ____." : "What is...?"}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="min-h-[80px]"
+            />
+            {duplicate && (
+              <p className="flex items-start gap-2 text-xs text-warning">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                <span>Looks like a question already in your bank: "{duplicate.question}"</span>
+              </p>
+            )}
+          </div>
+
+          {isChoice && (
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionOptions">Options (one per line)</Label>
+              <Textarea
+                id="bankQuestionOptions"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                className="min-h-[100px]"
+              />
+            </div>
+          )}
+
+          {type === "multi_select" ? (
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionCorrectOptions">Correct options (one per line)</Label>
+              <Textarea
+                id="bankQuestionCorrectOptions"
+                value={correctAnswers}
+                onChange={(e) => setCorrectAnswers(e.target.value)}
+              />
+            </div>
+          ) : type === "true_false" ? (
+            <div className="space-y-2">
+              <Label>Correct answer</Label>
+              <Select value={correctAnswer} onValueChange={setCorrectAnswer}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRUE_FALSE_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionAnswer">
+                {type === "mcq" ? "Correct option (as written above)" : type === "free_response" ? "Model answer" : "Correct answer"}
+              </Label>
+              {type === "free_response" ? (
+                <Textarea
+                  id="bankQuestionAnswer"
+                  value={correctAnswer}
+                  onChange={(e) => setCorrectAnswer(e.target.value)}
+                />
+              ) : (
+                <Input
+                  id="bankQuestionAnswer"
+                  value={correctAnswer}
+                  onChange={(e) => setCorrectAnswer(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          {type === "numeric" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="bankQuestionTolerance">Tolerance (optional)</Label>
+                <Input
+                  id="bankQuestionTolerance"
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="Defaults to 1%"
+                  value={tolerance}
+                  onChange={(e) => setTolerance(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bankQuestionUnit">Unit (optional)</Label>
+                <Input id="bankQuestionUnit" value={unit} onChange={(e) => setUnit(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {(type === "short" || type === "fill_blank") && (
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionAccepted">Other accepted answers (one per line)</Label>
+              <Textarea
+                id="bankQuestionAccepted"
+                value={acceptedAnswers}
+                onChange={(e) => setAcceptedAnswers(e.target.value)}
+              />
+            </div>
+          )}
+
+          {(type === "short" || type === "free_response") && (
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionKeyPoints">
+                Key points{type === "short" && " (optional)"}, one per line
+              </Label>
+              <Textarea
+                id="bankQuestionKeyPoints"
+                value={keyPoints}
+                onChange={(e) => setKeyPoints(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="bankQuestionExplanation">Explanation</Label>
+            <Textarea
+              id="bankQuestionExplanation"
+              value={explanation}
+              onChange={(e) => setExplanation(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionSubject">Subject</Label>
+              <Input
+                id="bankQuestionSubject"
+                placeholder="Biology"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionTopic">Topic</Label>
+              <Input
+                id="bankQuestionTopic"
+                placeholder="Cell structure"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankQuestionTags">Tags</Label>
+              <Input
+                id="bankQuestionTags"
+                placeholder="midterm, chapter 3"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Supports Markdown, inline math with $...$ and block math with $$...$$.
+          </p>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit}>{question ? "Save Question" : "Add Question"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
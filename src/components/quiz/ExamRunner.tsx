@@ -0,0 +1,273 @@
+/**
+ * ExamRunner Component
+ *
+ * Takes a quiz in exam mode:
+ * - Free navigation between questions, with a question map
+ * - Flag questions for review
+ * - Countdown for the whole exam or for each question
+ * - No feedback until the exam is submitted; auto-submits when time runs out
+ * Time is counted per question while it is on screen.
+ */
+
+// React hooks
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// UI components from shadcn
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Markdown/math rendering and answer renderers
+import { RichContent } from "@/components/RichContent";
+import { QuestionInput } from "@/components/quiz/QuestionInput";
+
+// Exam timing and grading helpers
+import { QuestionTimes, examTimeLeft, formatClock, questionTimeLeft } from "@/lib/quizExam";
+import { QuizResponse, isResponseComplete } from "@/lib/quizGrading";
+import { cn } from "@/lib/utils";
+
+// Type definitions
+import { ExamSettings, Quiz } from "@/types";
+
+// Icons from lucide-react
+import { ChevronLeft, ChevronRight, Clock, Flag, Send } from "lucide-react";
+
+/**
+ * How often the clock is updated (ms)
+ */
+const TICK_MS = 250;
+
+/**
+ * Time left (ms) below which the clock turns red
+ */
+const WARNING_MS = 10_000;
+
+/**
+ * ExamSubmission - Everything the exam hands back when it ends
+ */
+export interface ExamSubmission {
+  responses: Record<string, QuizResponse>; // Responses by question id (unanswered ones missing)
+  times: QuestionTimes;                    // Time spent on each question
+  timedOut: boolean;                       // Submitted automatically when time ran out
+}
+
+/**
+ * Props for ExamRunner component
+ */
+interface ExamRunnerProps {
+  quiz: Quiz;
+  settings: ExamSettings;
+  onSubmit: (submission: ExamSubmission) => void;
+}
+
+/**
+ * ExamRunner Component
+ *
+ * @param quiz - Quiz being taken
+ * @param settings - Time limit
+ * @param onSubmit - Called once, when the student submits or time runs out
+ */
+export function ExamRunner({ quiz, settings, onSubmit }: ExamRunnerProps) {
+  const [index, setIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [times, setTimes] = useState<QuestionTimes>({});
+  const [confirming, setConfirming] = useState(false);
+
+  // When time was last added to the current question
+  const lastTickRef = useRef(Date.now());
+  // Guards against submitting twice (button and timeout in the same tick)
+  const submittedRef = useRef(false);
+
+  const question = quiz.questions[index];
+  const questionId = question.id;
+
+  // Count time on the question being shown
+  useEffect(() => {
+    lastTickRef.current = Date.now();
+    const addElapsed = () => {
+      const now = Date.now();
+      const elapsed = now - lastTickRef.current;
+      lastTickRef.current = now;
+      setTimes((prev) => ({ ...prev, [questionId]: (prev[questionId] ?? 0) + elapsed }));
+    };
+    const timer = setInterval(addElapsed, TICK_MS);
+    return () => {
+      clearInterval(timer);
+      addElapsed();
+    };
+  }, [questionId]);
+
+  /**
+   * Hand the exam in
+   */
+  const finish = useCallback(
+    (timedOut: boolean) => {
+      if (submittedRef.current) return;
+      submittedRef.current = true;
+      const pending = Date.now() - lastTickRef.current;
+      onSubmit({ responses, times: { ...times, [questionId]: (times[questionId] ?? 0) + pending }, timedOut });
+    },
+    [responses, times, questionId, onSubmit]
+  );
+
+  const isExpired = useCallback((id: string) => questionTimeLeft(settings, times, id) === 0, [settings, times]);
+
+  // Auto-submit when the exam's time is up; skip past questions whose own time is up
+  useEffect(() => {
+    if (examTimeLeft(settings, times) === 0) {
+      finish(true);
+      return;
+    }
+    if (!isExpired(questionId)) return;
+
+    const count = quiz.questions.length;
+    const next = Array.from({ length: count - 1 }, (_, step) => (index + step + 1) % count).find(
+      (i) => !isExpired(quiz.questions[i].id)
+    );
+    if (next === undefined) finish(true);
+    else setIndex(next);
+  }, [settings, times, questionId, index, quiz.questions, isExpired, finish]);
+
+  const toggleFlag = () =>
+    setFlagged((prev) => (prev.includes(questionId) ? prev.filter((id) => id !== questionId) : [...prev, questionId]));
+
+  const isAnswered = (id: string) => {
+    const q = quiz.questions.find((item) => item.id === id);
+    return !!q && isResponseComplete(q, responses[id] ?? null);
+  };
+
+  const unanswered = quiz.questions.filter((q) => !isAnswered(q.id)).length;
+  const examLeft = examTimeLeft(settings, times);
+  const questionLeft = questionTimeLeft(settings, times, questionId);
+  const clock = examLeft ?? questionLeft;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          Question {index + 1} of {quiz.questions.length}
+        </span>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Exam</Badge>
+          {clock !== null && (
+            <Badge
+              variant="outline"
+              className={cn("font-mono gap-1", clock < WARNING_MS && "border-destructive text-destructive")}
+            >
+              <Clock className="w-3.5 h-3.5" />
+              {formatClock(clock)}
+              {questionLeft !== null && " this question"}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Question map */}
+      <div className="flex flex-wrap gap-2">
+        {quiz.questions.map((q, i) => (
+          <button
+            key={q.id}
+            type="button"
+            onClick={() => setIndex(i)}
+            disabled={isExpired(q.id)}
+            aria-label={`Question ${i + 1}`}
+            className={cn(
+              "relative w-9 h-9 rounded-lg border text-sm font-medium transition-colors",
+              i === index ? "border-primary ring-2 ring-primary/30" : "border-border",
+              isAnswered(q.id) ? "bg-primary/15" : "hover:bg-muted",
+              isExpired(q.id) && "opacity-50 line-through"
+            )}
+          >
+            {i + 1}
+            {flagged.includes(q.id) && (
+              <Flag className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 text-warning fill-warning" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <RichContent content={question.question} className="prose-lg font-medium" />
+            <Button
+              variant={flagged.includes(questionId) ? "secondary" : "ghost"}
+              size="sm"
+              onClick={toggleFlag}
+              className="flex-shrink-0"
+            >
+              <Flag className={cn("w-4 h-4 mr-1", flagged.includes(questionId) && "text-warning fill-warning")} />
+              {flagged.includes(questionId) ? "Flagged" : "Flag"}
+            </Button>
+          </div>
+
+          <QuestionInput
+            question={question}
+            response={responses[questionId] ?? null}
+            onChange={(response) => setResponses((prev) => ({ ...prev, [questionId]: response }))}
+            showResult={false}
+            disabled={isExpired(questionId)}
+          />
+
+          <div className="flex items-center justify-between gap-2 mt-6">
+            <Button variant="outline" onClick={() => setIndex(index - 1)} disabled={index === 0}>
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            {index < quiz.questions.length - 1 ? (
+              <Button variant="outline" onClick={() => setIndex(index + 1)}>
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            ) : (
+              <Button onClick={() => setConfirming(true)} className="gradient-primary text-primary-foreground">
+                <Send className="w-4 h-4 mr-2" />
+                Submit Exam
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {index < quiz.questions.length - 1 && (
+        <div className="flex justify-end">
+          <Button variant="ghost" onClick={() => setConfirming(true)}>
+            Submit exam now
+          </Button>
+        </div>
+      )}
+
+      {/* Submit confirmation */}
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit your exam?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unanswered > 0
+                ? `${unanswered} ${unanswered === 1 ? "question is" : "questions are"} unanswered. `
+                : "Every question is answered. "}
+              {flagged.length > 0 &&
+                `${flagged.length} ${flagged.length === 1 ? "question is" : "questions are"} flagged for review. `}
+              You can't change your answers after submitting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep working</AlertDialogCancel>
+            <AlertDialogAction onClick={() => finish(false)}>Submit</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
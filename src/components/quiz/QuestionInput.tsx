@@ -0,0 +1,263 @@
+/**
+ * QuestionInput Component
+ *
+ * Answer area for a quiz question, with a renderer per question type:
+ * - Option buttons for single-choice and true/false questions
+ * - Toggleable options for multi-select questions
+ * - Text box for short answers and fill-in-the-blank
+ * - Number box (with unit) for numeric questions
+ * - Multi-line box for free-response explanations
+ * After submission each renderer marks what was right and wrong; AI-graded
+ * answers also show their credit, rubric feedback and missed key points.
+ */
+
+// UI components from shadcn
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+// Markdown/math rendering
+import { RichContent } from "@/components/RichContent";
+
+// Grading helpers and type definitions
+import { QuizResponse, answerCredit, formatCorrectAnswer } from "@/lib/quizGrading";
+import { Question, QuizAnswer } from "@/types";
+import { cn } from "@/lib/utils";
+
+// Icons from lucide-react
+import { CheckCircle2, Square, SquareCheck, XCircle } from "lucide-react";
+
+/**
+ * Props shared by every renderer
+ */
+interface RendererProps {
+  question: Question;
+  response: QuizResponse | null;
+  onChange: (response: QuizResponse) => void;
+  showResult: boolean;           // Answer submitted: lock input and show feedback
+  result?: QuizAnswer;           // Grade of the submitted response
+  disabled?: boolean;            // Lock input without revealing the answer (grading, time up)
+  onSubmit?: () => void;         // Enter in a text box submits
+}
+
+/**
+ * Border and background for an option button
+ */
+const optionClass = (state: "correct" | "incorrect" | "selected" | "idle") =>
+  cn(
+    "w-full p-4 rounded-xl border-2 text-left transition-all",
+    state === "correct" && "border-success bg-success/10",
+    state === "incorrect" && "border-destructive bg-destructive/10",
+    state === "selected" && "border-primary bg-primary/10",
+    state === "idle" && "border-border hover:border-primary/50"
+  );
+
+/**
+ * Single choice (mcq, true_false)
+ */
+function ChoiceAnswer({ question, response, onChange, showResult, disabled }: RendererProps) {
+  return (
+    <div className="space-y-3">
+      {question.options?.map((option) => {
+        const isSelected = response === option;
+        const isCorrect = option === question.correctAnswer;
+        const showCorrect = showResult && isCorrect;
+        const showIncorrect = showResult && isSelected && !isCorrect;
+
+        return (
+          <button
+            key={option}
+            onClick={() => !showResult && onChange(option)}
+            disabled={showResult || disabled}
+            className={optionClass(
+              showCorrect ? "correct" : showIncorrect ? "incorrect" : isSelected ? "selected" : "idle"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <RichContent content={option} />
+              {showCorrect && <CheckCircle2 className="w-5 h-5 text-success flex-shrink-0" />}
+              {showIncorrect && <XCircle className="w-5 h-5 text-destructive flex-shrink-0" />}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Several correct options (multi_select)
+ */
+function MultiSelectAnswer({ question, response, onChange, showResult, disabled }: RendererProps) {
+  const selected = Array.isArray(response) ? response : [];
+  const correct = question.correctAnswers ?? [];
+
+  const toggle = (option: string) =>
+    onChange(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option]);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">Select all that apply.</p>
+      {question.options?.map((option) => {
+        const isSelected = selected.includes(option);
+        const isCorrect = correct.includes(option);
+        const Icon = isSelected ? SquareCheck : Square;
+
+        return (
+          <button
+            key={option}
+            onClick={() => !showResult && toggle(option)}
+            disabled={showResult || disabled}
+            className={optionClass(
+              showResult && isCorrect
+                ? "correct"
+                : showResult && isSelected
+                ? "incorrect"
+                : isSelected
+                ? "selected"
+                : "idle"
+            )}
+          >
+            <div className="flex items-center gap-3">
+              <Icon className="w-5 h-5 flex-shrink-0 text-muted-foreground" />
+              <RichContent content={option} className="flex-1" />
+              {showResult && isCorrect && !isSelected && (
+                <span className="text-xs text-success flex-shrink-0">Missed</span>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Written answer (short, fill_blank)
+ */
+function TextAnswer({ question, response, onChange, showResult, disabled, onSubmit }: RendererProps) {
+  return (
+    <Input
+      value={typeof response === "string" ? response : ""}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => e.key === "Enter" && onSubmit?.()}
+      disabled={showResult || disabled}
+      placeholder={question.type === "fill_blank" ? "Fill in the blank" : "Type your answer"}
+      className="h-12 text-base"
+    />
+  );
+}
+
+/**
+ * Number with an optional unit (numeric)
+ */
+function NumericAnswer({ question, response, onChange, showResult, disabled, onSubmit }: RendererProps) {
+  return (
+    <div className="flex items-center gap-3">
+      <Input
+        inputMode="decimal"
+        value={typeof response === "string" ? response : ""}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && onSubmit?.()}
+        disabled={showResult || disabled}
+        placeholder="Enter a number"
+        className="h-12 text-base max-w-xs"
+      />
+      {question.unit && <RichContent content={question.unit} className="text-muted-foreground" />}
+    </div>
+  );
+}
+
+/**
+ * A few sentences (free_response); Ctrl/Cmd+Enter submits
+ */
+function FreeResponseAnswer({ response, onChange, showResult, disabled, onSubmit }: RendererProps) {
+  return (
+    <Textarea
+      value={typeof response === "string" ? response : ""}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => e.key === "Enter" && (e.ctrlKey || e.metaKey) && onSubmit?.()}
+      disabled={showResult || disabled}
+      placeholder="Explain your answer in a few sentences"
+      className="min-h-[120px] text-base"
+    />
+  );
+}
+
+/**
+ * Renderer for each question type
+ */
+const RENDERERS: Record<Question["type"], (props: RendererProps) => JSX.Element> = {
+  mcq: ChoiceAnswer,
+  true_false: ChoiceAnswer,
+  multi_select: MultiSelectAnswer,
+  short: TextAnswer,
+  fill_blank: TextAnswer,
+  numeric: NumericAnswer,
+  free_response: FreeResponseAnswer,
+};
+
+/**
+ * QuestionInput Component
+ *
+ * @param question - Question being answered
+ * @param response - Current response (null before anything is chosen)
+ * @param onChange - Called with the new response
+ * @param showResult - Whether the response has been submitted
+ * @param result - Grade of the submitted response, used for written answers
+ * @param disabled - Lock the input without showing the result
+ */
+export function QuestionInput(props: RendererProps) {
+  const Renderer = RENDERERS[props.question.type];
+  const { question, showResult, result } = props;
+  const correct = result?.correct;
+  const partial = result?.credit !== undefined;
+  const choice = question.type === "mcq" || question.type === "true_false" || question.type === "multi_select";
+
+  return (
+    <div className="space-y-3">
+      <Renderer {...props} />
+
+      {/* Choice renderers mark the options; written answers need the expected answer spelled out */}
+      {showResult && !choice && (
+        <div
+          className={cn(
+            "flex items-start gap-2 rounded-lg p-3 text-sm",
+            correct ? "bg-success/10 text-success" : "bg-destructive/10 text-destructive"
+          )}
+        >
+          {correct ? (
+            <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="flex flex-wrap items-baseline gap-1">
+            <span className="font-medium">
+              {partial && `${Math.round(answerCredit(result) * 100)}% credit · `}
+              {correct ? "Correct!" : partial ? "Model answer:" : "Correct answer:"}
+            </span>
+            {!correct && <RichContent content={formatCorrectAnswer(question)} />}
+          </div>
+        </div>
+      )}
+
+      {/* Rubric feedback from AI grading */}
+      {showResult && result?.feedback && (
+        <div className="rounded-lg border border-border p-3 text-sm space-y-2">
+          <RichContent content={result.feedback} />
+          {result.missingPoints && result.missingPoints.length > 0 && (
+            <div>
+              <p className="font-medium">Missing key points</p>
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {result.missingPoints.map((point) => (
+                  <li key={point}>
+                    <RichContent content={point} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
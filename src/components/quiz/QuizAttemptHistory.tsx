@@ -0,0 +1,179 @@
+/**
+ * QuizAttemptHistory Component
+ *
+ * Past attempts at one quiz:
+ * - Score trend chart across attempts
+ * - Each attempt's score, date, mode and time taken
+ * - The graded answers of an attempt, with time per question
+ * - Topic mastery of adaptive attempts
+ */
+
+// Charts
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+// UI components from shadcn
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+
+// Markdown/math rendering and topic mastery
+import { RichContent } from "@/components/RichContent";
+import { TopicMasteryList } from "@/components/quiz/TopicMasteryList";
+
+// Attempt helpers and type definitions
+import { attemptDurationSeconds, attemptPercent } from "@/lib/quizStore";
+import { answerCredit, formatCorrectAnswer } from "@/lib/quizGrading";
+import { Quiz, QuizAttempt } from "@/types";
+import { cn } from "@/lib/utils";
+
+// Icons from lucide-react
+import { CheckCircle2, CircleDot, Clock, XCircle } from "lucide-react";
+
+/**
+ * Colours for the score trend chart
+ */
+const chartConfig = {
+  score: { label: "Score (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+/**
+ * formatDuration - Seconds as "4m 05s"
+ */
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${seconds}s`;
+};
+
+/**
+ * AttemptAnswers - One attempt's answers, question by question
+ *
+ * @param quiz - Quiz the attempt belongs to (for question text)
+ * @param attempt - Attempt to show
+ */
+export function AttemptAnswers({ quiz, attempt }: { quiz: Quiz; attempt: QuizAttempt }) {
+  const questionsById = new Map(quiz.questions.map((q) => [q.id, q]));
+
+  return (
+    <ol className="space-y-3">
+      {attempt.answers.map((answer, index) => {
+        const question = questionsById.get(answer.questionId);
+        const credit = answerCredit(answer);
+        const seconds = attempt.questionSeconds?.[answer.questionId];
+        const Icon = answer.correct ? CheckCircle2 : credit > 0 ? CircleDot : XCircle;
+        return (
+          <li key={answer.questionId} className="flex gap-3 rounded-lg bg-muted/50 p-3 text-sm">
+            <Icon
+              className={cn(
+                "w-4 h-4 mt-0.5 flex-shrink-0",
+                answer.correct ? "text-success" : credit > 0 ? "text-warning" : "text-destructive"
+              )}
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <RichContent content={question?.question ?? `Question ${index + 1}`} className="font-medium" />
+                {seconds !== undefined && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                    <Clock className="w-3 h-3" />
+                    {formatDuration(seconds)}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap items-baseline gap-1 text-muted-foreground">
+                <span>Your answer:</span>
+                <RichContent content={answer.answer || "—"} />
+                {answer.credit !== undefined && <span>({Math.round(credit * 100)}% credit)</span>}
+              </div>
+              {!answer.correct && question && (
+                <div className="flex flex-wrap items-baseline gap-1 text-muted-foreground">
+                  <span>Correct answer:</span>
+                  <RichContent content={formatCorrectAnswer(question)} />
+                </div>
+              )}
+              {answer.feedback && <RichContent content={answer.feedback} className="text-muted-foreground" />}
+              {question?.explanation && (
+                <RichContent content={question.explanation} className="text-xs text-muted-foreground" />
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * Props for QuizAttemptHistory component
+ */
+interface QuizAttemptHistoryProps {
+  quiz: Quiz;
+}
+
+/**
+ * QuizAttemptHistory Component
+ *
+ * @param quiz - Quiz whose attempts are shown (oldest attempt first)
+ */
+export function QuizAttemptHistory({ quiz }: QuizAttemptHistoryProps) {
+  if (quiz.attempts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No attempts yet. Take the quiz to start tracking your scores.
+      </p>
+    );
+  }
+
+  const trend = quiz.attempts.map((attempt, index) => ({
+    attempt: `#${index + 1}`,
+    score: attemptPercent(attempt),
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Score trend */}
+      {quiz.attempts.length > 1 && (
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <LineChart data={trend} margin={{ left: -20, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="attempt" tickLine={false} axisLine={false} />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {/* Attempts, newest first */}
+      <Accordion type="single" collapsible>
+        {[...quiz.attempts].reverse().map((attempt, reversedIndex) => {
+          const duration = attemptDurationSeconds(attempt);
+          return (
+            <AccordionItem key={attempt.id} value={attempt.id}>
+              <AccordionTrigger className="hover:no-underline">
+                <div className="flex flex-1 flex-wrap items-center gap-x-4 gap-y-1 text-sm text-left">
+                  <span className="font-medium">Attempt {quiz.attempts.length - reversedIndex}</span>
+                  {attempt.mode === "exam" && (
+                    <Badge variant="outline">{attempt.timedOut ? "Exam · timed out" : "Exam"}</Badge>
+                  )}
+                  {attempt.mode === "adaptive" && <Badge variant="outline">Adaptive</Badge>}
+                  <span className="text-muted-foreground">{new Date(attempt.completedAt).toLocaleString()}</span>
+                  {duration !== null && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Clock className="w-3.5 h-3.5" />
+                      {formatDuration(duration)}
+                    </span>
+                  )}
+                  <span className="ml-auto mr-2 font-semibold">{attemptPercent(attempt)}%</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-4">
+                {attempt.mastery && attempt.mastery.length > 0 && <TopicMasteryList mastery={attempt.mastery} />}
+                <AttemptAnswers quiz={quiz} attempt={attempt} />
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
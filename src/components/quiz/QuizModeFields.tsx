@@ -0,0 +1,118 @@
+/**
+ * QuizModeFields Component
+ *
+ * How a quiz is taken:
+ * - Practice (feedback after each answer), adaptive or exam
+ * - Exam time limit: none, the whole exam, or each question
+ */
+
+// UI components from shadcn
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// Exam limits
+import { OVERALL_MINUTES_RANGE, PER_QUESTION_SECONDS_RANGE } from "@/lib/quizExam";
+
+// Type definitions
+import { ExamSettings, QuizMode } from "@/types";
+
+/**
+ * Props for QuizModeFields component
+ */
+interface QuizModeFieldsProps {
+  mode: QuizMode;
+  onModeChange: (mode: QuizMode) => void;
+  exam: ExamSettings;
+  onExamChange: (exam: ExamSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * QuizModeFields Component
+ *
+ * @param mode - Practice, adaptive or exam
+ * @param exam - Exam time limit settings
+ */
+export function QuizModeFields({ mode, onModeChange, exam, onExamChange, disabled }: QuizModeFieldsProps) {
+  return (
+    <div className="space-y-4">
+      {/* Mode */}
+      <div className="space-y-2">
+        <Label>Mode</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as QuizMode)}
+          className="justify-start"
+          disabled={disabled}
+        >
+          <ToggleGroupItem value="practice">Practice</ToggleGroupItem>
+          <ToggleGroupItem value="adaptive">Adaptive</ToggleGroupItem>
+          <ToggleGroupItem value="exam">Exam</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {mode === "practice"
+            ? "See the answer and explanation after every question."
+            : mode === "adaptive"
+            ? "Questions get harder or easier based on your answers, and you'll see your mastery of each topic."
+            : "Move freely between questions and flag them for review; answers are revealed when you submit."}
+        </p>
+      </div>
+
+      {/* Exam time limit */}
+      {mode === "exam" && (
+        <div className="space-y-2">
+          <Label>Time limit</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={exam.timeLimit}
+            onValueChange={(value) =>
+              value && onExamChange({ ...exam, timeLimit: value as ExamSettings["timeLimit"] })
+            }
+            className="justify-start"
+            disabled={disabled}
+          >
+            <ToggleGroupItem value="none">None</ToggleGroupItem>
+            <ToggleGroupItem value="overall">Whole exam</ToggleGroupItem>
+            <ToggleGroupItem value="per_question">Per question</ToggleGroupItem>
+          </ToggleGroup>
+
+          {exam.timeLimit === "overall" && (
+            <div className="space-y-3 pt-1">
+              <p className="text-sm text-muted-foreground">{exam.overallMinutes} minutes in total</p>
+              <Slider
+                min={OVERALL_MINUTES_RANGE.min}
+                max={OVERALL_MINUTES_RANGE.max}
+                step={1}
+                value={[exam.overallMinutes]}
+                onValueChange={([overallMinutes]) => onExamChange({ ...exam, overallMinutes })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {exam.timeLimit === "per_question" && (
+            <div className="space-y-3 pt-1">
+              <p className="text-sm text-muted-foreground">{exam.perQuestionSeconds} seconds per question</p>
+              <Slider
+                min={PER_QUESTION_SECONDS_RANGE.min}
+                max={PER_QUESTION_SECONDS_RANGE.max}
+                step={5}
+                value={[exam.perQuestionSeconds]}
+                onValueChange={([perQuestionSeconds]) => onExamChange({ ...exam, perQuestionSeconds })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {exam.timeLimit !== "none" && (
+            <p className="text-xs text-muted-foreground">The exam is submitted automatically when time runs out.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
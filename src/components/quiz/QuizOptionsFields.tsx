@@ -0,0 +1,143 @@
+/**
+ * QuizOptionsFields Component
+ *
+ * Settings for a generated quiz:
+ * - Number of questions
+ * - Difficulty mix (preset, with the resulting counts)
+ * - Topics to focus on
+ * - Question types to include
+ */
+
+// UI components from shadcn
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// Generation options and question type labels
+import { QuizGenerationOptions, splitCount } from "@/lib/gemini";
+import { QUESTION_TYPE_LABELS } from "@/lib/quizGrading";
+
+// Type definitions
+import { Difficulty, QuestionType } from "@/types";
+
+/**
+ * Fewest and most questions per quiz
+ */
+const MIN_QUESTIONS = 3;
+const MAX_QUESTIONS = 20;
+
+/**
+ * Difficulty presets (relative weights)
+ */
+const DIFFICULTY_MIXES: { id: string; label: string; mix: Record<Difficulty, number> }[] = [
+  { id: "easy", label: "Warm-up", mix: { easy: 3, medium: 2, hard: 1 } },
+  { id: "balanced", label: "Balanced", mix: { easy: 1, medium: 1, hard: 1 } },
+  { id: "hard", label: "Challenging", mix: { easy: 1, medium: 2, hard: 3 } },
+];
+
+/**
+ * Props for QuizOptionsFields component
+ */
+interface QuizOptionsFieldsProps {
+  value: QuizGenerationOptions;
+  onChange: (value: QuizGenerationOptions) => void;
+  disabled?: boolean;
+}
+
+/**
+ * QuizOptionsFields Component
+ *
+ * @param value - Current options
+ * @param onChange - Called with updated options
+ */
+export function QuizOptionsFields({ value, onChange, disabled }: QuizOptionsFieldsProps) {
+  const mixId =
+    DIFFICULTY_MIXES.find((preset) =>
+      (Object.keys(preset.mix) as Difficulty[]).every((d) => preset.mix[d] === value.difficultyMix[d])
+    )?.id ?? "";
+  const counts = splitCount(value.count, value.difficultyMix);
+
+  /**
+   * Turn a question type on or off (at least one stays selected)
+   */
+  const toggleType = (type: QuestionType, checked: boolean) => {
+    const types = checked ? [...value.types, type] : value.types.filter((t) => t !== type);
+    if (types.length > 0) onChange({ ...value, types });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Number of questions */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Questions</Label>
+          <span className="text-sm font-medium">{value.count}</span>
+        </div>
+        <Slider
+          min={MIN_QUESTIONS}
+          max={MAX_QUESTIONS}
+          step={1}
+          value={[value.count]}
+          onValueChange={([count]) => onChange({ ...value, count })}
+          disabled={disabled}
+        />
+      </div>
+
+      {/* Difficulty mix */}
+      <div className="space-y-2">
+        <Label>Difficulty</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mixId}
+          onValueChange={(id) => {
+            const preset = DIFFICULTY_MIXES.find((p) => p.id === id);
+            if (preset) onChange({ ...value, difficultyMix: preset.mix });
+          }}
+          className="justify-start"
+          disabled={disabled}
+        >
+          {DIFFICULTY_MIXES.map((preset) => (
+            <ToggleGroupItem key={preset.id} value={preset.id}>
+              {preset.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {counts.easy} easy · {counts.medium} medium · {counts.hard} hard
+        </p>
+      </div>
+
+      {/* Topics */}
+      <div className="space-y-2">
+        <Label htmlFor="quizTopics">Focus topics (optional)</Label>
+        <Input
+          id="quizTopics"
+          placeholder="e.g. derivatives, chain rule"
+          value={value.topics?.join(",") ?? ""}
+          onChange={(e) => onChange({ ...value, topics: e.target.value.split(",") })}
+          disabled={disabled}
+        />
+      </div>
+
+      {/* Question types */}
+      <div className="space-y-2">
+        <Label>Question types</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+            <label key={type} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={value.types.includes(type)}
+                onCheckedChange={(checked) => toggleType(type, checked === true)}
+                disabled={disabled}
+              />
+              {QUESTION_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
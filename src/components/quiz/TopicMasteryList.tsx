@@ -0,0 +1,45 @@
+/**
+ * TopicMasteryList Component
+ *
+ * Estimated mastery of each topic from an adaptive attempt,
+ * weakest topic first so it's clear what to study next.
+ */
+
+// UI components from shadcn
+import { Progress } from "@/components/ui/progress";
+
+// Type definitions
+import { TopicMastery } from "@/types";
+
+/**
+ * Props for TopicMasteryList component
+ */
+interface TopicMasteryListProps {
+  mastery: TopicMastery[];
+}
+
+/**
+ * TopicMasteryList Component
+ *
+ * @param mastery - Mastery per topic, in display order
+ */
+export function TopicMasteryList({ mastery }: TopicMasteryListProps) {
+  return (
+    <ul className="space-y-3">
+      {mastery.map((entry) => {
+        const percent = Math.round(entry.mastery * 100);
+        return (
+          <li key={entry.topic} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+              <span className="font-medium">{entry.topic}</span>
+              <span className="text-muted-foreground">
+                {percent}% · {entry.answered} {entry.answered === 1 ? "question" : "questions"}
+              </span>
+            </div>
+            <Progress value={percent} className="h-2" />
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
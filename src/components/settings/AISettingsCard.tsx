@@ -0,0 +1,214 @@
+/**
+ * AISettingsCard Component
+ *
+ * Lets the student choose which AI powers the app:
+ * - Provider picker (Graspify AI, own Gemini key, OpenAI-compatible/Ollama, demo mode)
+ * - Model name with suggestions for the chosen provider
+ * - API keys and server URL where the provider needs them
+ * - Status line and a connection test
+ */
+
+// React hooks
+import { useState } from "react";
+
+// UI components from shadcn
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Hooks and state management
+import { useToast } from "@/hooks/use-toast";
+import { useAIStatus } from "@/hooks/use-ai-status";
+import {
+  OPENAI_BASE_URL_PRESETS,
+  PROVIDER_LABELS,
+  SUGGESTED_MODELS,
+  useAISettingsStore,
+} from "@/lib/aiSettingsStore";
+import { AIProviderId, getAIProvider } from "@/lib/ai";
+
+// Icons from lucide-react
+import { CheckCircle2, Cpu, Loader2, PlugZap, XCircle } from "lucide-react";
+
+/**
+ * AISettingsCard Component
+ *
+ * Changes are saved as soon as they are made.
+ */
+export function AISettingsCard() {
+  const { toast } = useToast();
+  const { provider, models, geminiApiKey, openaiBaseUrl, openaiApiKey, setProvider, setModel, updateSettings } =
+    useAISettingsStore();
+  const aiStatus = useAIStatus();
+
+  // Whether a connection test is running
+  const [isTesting, setIsTesting] = useState(false);
+
+  /**
+   * Send a tiny prompt to the configured provider
+   * Shows a toast with the reply or the error
+   */
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const reply = await getAIProvider().generate({
+        messages: [{ role: "user", parts: [{ type: "text", text: "Reply with the single word: ready" }] }],
+        temperature: 0,
+        maxOutputTokens: 16,
+      });
+      toast({
+        title: "Connection works",
+        description: `${aiStatus.providerLabel} (${aiStatus.model}) replied: ${reply.trim().slice(0, 60) || "(empty reply)"}`,
+      });
+    } catch (error) {
+      console.error("AI connection test failed:", error);
+      toast({
+        title: "Connection failed",
+        description: error instanceof Error ? error.message : "The AI provider could not be reached.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-primary" />
+          AI Settings
+        </CardTitle>
+        <CardDescription>
+          Choose the AI behind the Doubt Solver, quizzes, flashcards and study plans. Keys are
+          stored in this browser only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          {/* Provider */}
+          <div className="space-y-2">
+            <Label htmlFor="ai-provider">Provider</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as AIProviderId)}>
+              <SelectTrigger id="ai-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {PROVIDER_LABELS[id]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Model */}
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <Input
+              id="ai-model"
+              list="ai-model-suggestions"
+              value={models[provider]}
+              onChange={(e) => setModel(provider, e.target.value)}
+              disabled={provider === "mock"}
+            />
+            <datalist id="ai-model-suggestions">
+              {SUGGESTED_MODELS[provider].map((model) => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+
+        {provider === "hosted" && (
+          <p className="text-sm text-muted-foreground">
+            Runs on Graspify's server with a daily usage allowance. No API key needed.
+          </p>
+        )}
+
+        {provider === "gemini" && (
+          <div className="space-y-2">
+            <Label htmlFor="gemini-key">Gemini API key</Label>
+            <Input
+              id="gemini-key"
+              type="password"
+              autoComplete="off"
+              placeholder="AIza..."
+              value={geminiApiKey}
+              onChange={(e) => updateSettings({ geminiApiKey: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Get a free key from Google AI Studio. Requests go straight from this browser to Google.
+            </p>
+          </div>
+        )}
+
+        {provider === "openai" && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="openai-url">Server URL</Label>
+              <Input
+                id="openai-url"
+                placeholder="https://api.openai.com/v1"
+                value={openaiBaseUrl}
+                onChange={(e) => updateSettings({ openaiBaseUrl: e.target.value })}
+              />
+              <div className="flex flex-wrap gap-2">
+                {OPENAI_BASE_URL_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.baseUrl}
+                    type="button"
+                    variant={openaiBaseUrl === preset.baseUrl ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateSettings({ openaiBaseUrl: preset.baseUrl })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="openai-key">API key</Label>
+              <Input
+                id="openai-key"
+                type="password"
+                autoComplete="off"
+                placeholder="Not needed for local servers"
+                value={openaiApiKey}
+                onChange={(e) => updateSettings({ openaiApiKey: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Status and connection test */}
+        <div className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 p-3">
+          <div className="flex items-start gap-2 text-sm">
+            {aiStatus.ready ? (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+            ) : (
+              <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+            )}
+            <span>
+              {aiStatus.ready ? `Using ${aiStatus.providerLabel} · ${aiStatus.model}` : aiStatus.reason}
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleTest} disabled={!aiStatus.ready || isTesting}>
+            {isTesting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PlugZap className="w-4 h-4 mr-2" />}
+            Test connection
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
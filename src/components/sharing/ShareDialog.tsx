@@ -0,0 +1,233 @@
+/**
+ * ShareDialog Component
+ *
+ * Publishes a quiz or deck so others can open it by code or link:
+ * - Public (listed on the Shared page) or unlisted (code or link only)
+ * - Optional leaderboard for quizzes
+ * - Update the published snapshot or stop sharing
+ */
+
+// React hooks
+import { useEffect, useState } from "react";
+
+// UI components from shadcn
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// Hooks and sharing helpers
+import { useToast } from "@/hooks/use-toast";
+import { fetchOwnShare, publishShare, shareLink, unpublishShare } from "@/lib/sharing";
+
+// Type definitions
+import { SharedDeckContent, SharedItem, SharedItemSummary, SharedQuizContent, ShareVisibility } from "@/types";
+
+// Icons from lucide-react
+import { Copy, Loader2, Share2 } from "lucide-react";
+
+/**
+ * Props for ShareDialog component
+ */
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: SharedItem["kind"];
+  sourceId: string;                          // Id of the quiz or deck in the user's library
+  title: string;
+  getContent: () => SharedQuizContent | SharedDeckContent; // Snapshot to publish
+  onShareChange?: (code: string | null) => void;           // Called after publishing or unpublishing
+}
+
+/**
+ * ShareDialog Component
+ *
+ * Loads the item's current share each time it opens.
+ */
+export function ShareDialog({ open, onOpenChange, kind, sourceId, title, getContent, onShareChange }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [share, setShare] = useState<SharedItemSummary | null>(null);
+  const [visibility, setVisibility] = useState<ShareVisibility>("unlisted");
+  const [leaderboardEnabled, setLeaderboardEnabled] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    setLoadError(null);
+    fetchOwnShare(kind, sourceId)
+      .then((existing) => {
+        if (cancelled) return;
+        setShare(existing);
+        setVisibility(existing?.visibility ?? "unlisted");
+        setLeaderboardEnabled(existing?.leaderboardEnabled ?? true);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Could not load sharing settings.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, kind, sourceId]);
+
+  const handlePublish = async () => {
+    setIsSaving(true);
+    try {
+      const published = await publishShare(kind, sourceId, title, getContent(), { visibility, leaderboardEnabled });
+      setShare(published);
+      onShareChange?.(published.code);
+      toast({
+        title: share ? "Share updated" : "Shared! 🔗",
+        description: `Anyone with the code ${published.code} can open it.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not share",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!share) return;
+    setIsSaving(true);
+    try {
+      await unpublishShare(share.code);
+      setShare(null);
+      onShareChange?.(null);
+      toast({ title: "Sharing stopped", description: "The code no longer works." });
+    } catch (error) {
+      toast({
+        title: "Could not stop sharing",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: `${what} copied` });
+    } catch {
+      toast({ title: `Could not copy the ${what.toLowerCase()}`, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-primary" />
+            Share "{title}"
+          </DialogTitle>
+          <DialogDescription>
+            Others get a read-only preview and can clone the {kind} into their own library.
+            {kind === "quiz" ? " Your attempts stay private." : " Your review history stays private."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-destructive py-4">{loadError}</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={visibility}
+                onValueChange={(value) => value && setVisibility(value as ShareVisibility)}
+                className="justify-start"
+                disabled={isSaving}
+              >
+                <ToggleGroupItem value="unlisted">Unlisted</ToggleGroupItem>
+                <ToggleGroupItem value="public">Public</ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">
+                {visibility === "public"
+                  ? "Listed on the Shared page for everyone."
+                  : "Only people you give the code or link to can open it."}
+              </p>
+            </div>
+
+            {kind === "quiz" && (
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="shareLeaderboard">Leaderboard</Label>
+                  <p className="text-xs text-muted-foreground">Rank everyone's best score on this quiz.</p>
+                </div>
+                <Switch
+                  id="shareLeaderboard"
+                  checked={leaderboardEnabled}
+                  onCheckedChange={setLeaderboardEnabled}
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+
+            {share && (
+              <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Share code</span>
+                  <Button variant="ghost" size="sm" onClick={() => copy(share.code, "Code")}>
+                    <span className="font-mono font-semibold tracking-widest">{share.code}</span>
+                    <Copy className="w-3.5 h-3.5 ml-2" />
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input readOnly value={shareLink(share.code)} className="text-xs" />
+                  <Button variant="outline" size="icon" onClick={() => copy(shareLink(share.code), "Link")} aria-label="Copy link">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Published {new Date(share.updatedAt).toLocaleString()}. Later changes are shared when you update.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {share && (
+            <Button variant="outline" onClick={handleUnpublish} disabled={isSaving}>
+              Stop sharing
+            </Button>
+          )}
+          <Button onClick={handlePublish} disabled={isLoading || !!loadError || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {share ? "Update share" : "Share"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
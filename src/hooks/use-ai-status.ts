@@ -0,0 +1,23 @@
+/**
+ * useAIStatus Hook
+ *
+ * React hook reporting whether AI features can run with the current
+ * settings. Re-renders when the provider, model or keys change.
+ */
+
+import { useAISettingsStore } from "@/lib/aiSettingsStore";
+import { AIStatus, getAIStatus } from "@/lib/ai";
+
+/**
+ * useAIStatus Hook
+ *
+ * @returns {AIStatus} Readiness of the configured provider, with a reason when unavailable
+ *
+ * @example
+ * const aiStatus = useAIStatus();
+ * <Button disabled={!aiStatus.ready}>Generate</Button>
+ */
+export function useAIStatus(): AIStatus {
+  const settings = useAISettingsStore();
+  return getAIStatus(settings);
+}
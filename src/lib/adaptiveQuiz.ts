@@ -0,0 +1,137 @@
+/**
+ * Adaptive Quiz Module
+ *
+ * Serves questions the way computerized adaptive testing does, with a
+ * one-parameter (Rasch) model:
+ * - Each difficulty maps to a point on the ability scale
+ * - The student's ability estimate moves after every answer, by how much
+ *   the result differed from the expected chance of success
+ * - The next question is the unanswered one nearest the current estimate
+ * - Mastery per topic is the estimated chance of answering a medium
+ *   question on that topic correctly
+ * Estimates are replayed from the answer history, so nothing extra is stored.
+ */
+
+// Type definitions
+import { Difficulty, Question, QuizAnswer, TopicMastery } from '@/types';
+
+// Partial credit from AI grading counts as a partial success
+import { answerCredit } from '@/lib/quizGrading';
+
+/**
+ * Position of each difficulty on the ability scale
+ */
+const DIFFICULTY_LEVEL: Record<Difficulty, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+/**
+ * Largest ability change from one answer; later answers move it less
+ */
+const INITIAL_STEP = 1.2;
+
+/**
+ * Share of the question pool an adaptive quiz serves (at least MIN_ADAPTIVE_LENGTH)
+ */
+const ADAPTIVE_SHARE = 2 / 3;
+const MIN_ADAPTIVE_LENGTH = 3;
+
+/**
+ * Topic used for questions generated before topics were recorded
+ */
+export const GENERAL_TOPIC = 'General';
+
+/**
+ * successChance - Chance of answering a question of this difficulty correctly
+ *
+ * @param ability - Ability estimate (0 = comfortable with medium questions)
+ * @param difficulty - Question difficulty
+ * @returns Probability from 0 to 1
+ */
+export const successChance = (ability: number, difficulty: Difficulty): number =>
+  1 / (1 + Math.exp(-(ability - DIFFICULTY_LEVEL[difficulty])));
+
+/**
+ * AnsweredQuestion - A question paired with its graded answer
+ */
+export interface AnsweredQuestion {
+  question: Question;
+  answer: QuizAnswer;
+}
+
+/**
+ * answerHistory - Pair answers with their questions, keeping answer order
+ *
+ * @param questions - The quiz's questions
+ * @param answers - Graded answers, in the order they were given
+ */
+export const answerHistory = (questions: Question[], answers: QuizAnswer[]): AnsweredQuestion[] => {
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+  return answers
+    .map((answer) => ({ question: questionsById.get(answer.questionId), answer }))
+    .filter((entry): entry is AnsweredQuestion => !!entry.question);
+};
+
+/**
+ * estimateAbility - Ability after a sequence of answers
+ *
+ * @param history - Questions and their graded answers, in the order they were answered
+ * @returns Ability estimate (0 before any answers)
+ */
+export const estimateAbility = (history: AnsweredQuestion[]): number =>
+  history.reduce((ability, { question, answer }, index) => {
+    const surprise = answerCredit(answer) - successChance(ability, question.difficulty);
+    return ability + (INITIAL_STEP / Math.sqrt(index + 1)) * surprise;
+  }, 0);
+
+/**
+ * pickNextQuestion - Unanswered question that best matches the ability estimate
+ * Ties go to the question generated first.
+ *
+ * @param questions - The quiz's question pool
+ * @param answeredIds - Questions already served
+ * @param ability - Current ability estimate
+ * @returns The next question, or null when the pool is used up
+ */
+export const pickNextQuestion = (
+  questions: Question[],
+  answeredIds: string[],
+  ability: number
+): Question | null =>
+  questions
+    .filter((q) => !answeredIds.includes(q.id))
+    .reduce<Question | null>((best, q) => {
+      if (!best) return q;
+      const distance = Math.abs(DIFFICULTY_LEVEL[q.difficulty] - ability);
+      return distance < Math.abs(DIFFICULTY_LEVEL[best.difficulty] - ability) ? q : best;
+    }, null);
+
+/**
+ * adaptiveLength - How many questions an adaptive quiz serves from a pool
+ */
+export const adaptiveLength = (poolSize: number): number =>
+  Math.min(poolSize, Math.max(MIN_ADAPTIVE_LENGTH, Math.round(poolSize * ADAPTIVE_SHARE)));
+
+/**
+ * topicMastery - Estimated mastery of each topic covered by the answers
+ *
+ * @param questions - The quiz's questions (for topic and difficulty)
+ * @param answers - Graded answers, in the order they were given
+ * @returns One entry per topic, weakest first
+ */
+export const topicMastery = (questions: Question[], answers: QuizAnswer[]): TopicMastery[] => {
+  const byTopic = new Map<string, AnsweredQuestion[]>();
+
+  for (const entry of answerHistory(questions, answers)) {
+    const topic = entry.question.topic?.trim() || GENERAL_TOPIC;
+    byTopic.set(topic, [...(byTopic.get(topic) ?? []), entry]);
+  }
+
+  return Array.from(byTopic, ([topic, history]) => ({
+    topic,
+    mastery: successChance(estimateAbility(history), 'medium'),
+    answered: history.length,
+  })).sort((a, b) => a.mastery - b.mastery);
+};
@@ -0,0 +1,133 @@
+/**
+ * Gemini Provider
+ *
+ * Implements AIProvider with the Google Generative AI SDK. Structured
+ * replies use Gemini's JSON mode with a response schema. The request
+ * builders are shared with the hosted provider, which sends the same
+ * bodies through the ai-proxy Edge Function.
+ */
+
+import {
+  Content,
+  GenerationConfig,
+  GoogleGenerativeAI,
+  Part,
+  ResponseSchema,
+  SchemaType,
+} from '@google/generative-ai';
+
+import { AIJSONRequest, AIMessage, AIProvider, AIRequest, JSONSchema } from '@/lib/ai/types';
+import { parseJSONReply } from '@/lib/ai/json';
+
+/**
+ * toGeminiSchema - Convert our JSON schema subset to Gemini's schema type
+ */
+export const toGeminiSchema = (schema: JSONSchema): ResponseSchema => {
+  const base = { description: schema.description };
+
+  switch (schema.type) {
+    case 'object':
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties ?? {}).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+      };
+    case 'array':
+      return { ...base, type: SchemaType.ARRAY, items: toGeminiSchema(schema.items ?? { type: 'string' }) };
+    case 'string':
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+  }
+};
+
+/**
+ * toContents - Convert messages to Gemini contents
+ * Consecutive turns from the same side are merged (Gemini expects the
+ * roles to alternate).
+ */
+export const toContents = (messages: AIMessage[]): Content[] => {
+  const contents: Content[] = [];
+
+  for (const message of messages) {
+    const role = message.role === 'user' ? 'user' : 'model';
+    const parts = message.parts.map(
+      (part): Part =>
+        part.type === 'text' ? { text: part.text } : { inlineData: { mimeType: part.mimeType, data: part.data } }
+    );
+
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  }
+
+  return contents;
+};
+
+export const generationConfig = (request: AIRequest): GenerationConfig => ({
+  temperature: request.temperature ?? 0.7,
+  topP: 1,
+  topK: 1,
+  maxOutputTokens: request.maxOutputTokens ?? 2048,
+});
+
+/**
+ * createGeminiProvider - Gemini backend for the given key and model
+ *
+ * @param apiKey - Google AI Studio API key
+ * @param model - Model name, e.g. "gemini-2.5-flash"
+ */
+export const createGeminiProvider = (apiKey: string, model: string): AIProvider => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const getModel = (request: AIRequest) =>
+    genAI.getGenerativeModel({ model, systemInstruction: request.system });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model,
+
+    generate: async (request) => {
+      const result = await getModel(request).generateContent(
+        { contents: toContents(request.messages), generationConfig: generationConfig(request) },
+        { signal: request.signal }
+      );
+      return result.response.text();
+    },
+
+    stream: async function* (request) {
+      const result = await getModel(request).generateContentStream(
+        { contents: toContents(request.messages), generationConfig: generationConfig(request) },
+        { signal: request.signal }
+      );
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+
+    generateJSON: async (request: AIJSONRequest) => {
+      const result = await getModel(request).generateContent(
+        {
+          contents: toContents(request.messages),
+          generationConfig: {
+            ...generationConfig(request),
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.schema),
+          },
+        },
+        { signal: request.signal }
+      );
+      return parseJSONReply(result.response.text());
+    },
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * Hosted Provider
+ *
+ * Implements AIProvider by sending Gemini requests through the ai-proxy
+ * Supabase Edge Function (supabase/functions/ai-proxy). The Gemini key
+ * stays on the server; the signed-in user's session token identifies
+ * them for rate limits and daily quotas.
+ */
+
+import { GenerateContentRequest, GenerateContentResponse } from '@google/generative-ai';
+
+import { supabase } from '@/lib/supabase';
+import { AIJSONRequest, AIProvider, AIRequest, AIUnavailableError } from '@/lib/ai/types';
+import { generationConfig, toContents, toGeminiSchema } from '@/lib/ai/gemini';
+import { parseJSONReply } from '@/lib/ai/json';
+
+/**
+ * Edge Function endpoint
+ */
+const PROXY_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-proxy`;
+
+/**
+ * toGeminiRequest - Build the generateContent body the proxy forwards
+ */
+const toGeminiRequest = (request: AIRequest): GenerateContentRequest => ({
+  contents: toContents(request.messages),
+  // The REST API takes the system prompt as content, not a bare string
+  systemInstruction: request.system ? { role: 'system', parts: [{ text: request.system }] } : undefined,
+  generationConfig: generationConfig(request),
+});
+
+/**
+ * responseText - Join the text parts of Gemini's first candidate
+ *
+ * @throws Error if the prompt was blocked
+ */
+const responseText = (response: GenerateContentResponse): string => {
+  if (response.promptFeedback?.blockReason) {
+    throw new Error(`The request was blocked (${response.promptFeedback.blockReason}).`);
+  }
+  return (response.candidates?.[0]?.content?.parts ?? []).map((part) => part.text ?? '').join('');
+};
+
+/**
+ * createHostedProvider - Backend that calls Gemini through the ai-proxy function
+ *
+ * @param model - Gemini model allowed by the proxy, e.g. "gemini-2.5-flash"
+ */
+export const createHostedProvider = (model: string): AIProvider => {
+  const post = async (body: GenerateContentRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new AIUnavailableError('Sign in to use the hosted AI.');
+
+    const response = await fetch(PROXY_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({ model, stream, request: body }),
+      signal,
+    });
+
+    if (!response.ok) {
+      // The proxy's messages (rate limit, quota, sign-in) are written for students
+      const detail = await response.json().catch(() => null);
+      throw new Error(detail?.error ?? `AI request failed (${response.status}).`);
+    }
+    return response;
+  };
+
+  const complete = async (body: GenerateContentRequest, signal?: AbortSignal): Promise<string> =>
+    responseText(await (await post(body, false, signal)).json());
+
+  return {
+    id: 'hosted',
+    label: 'Graspify AI',
+    model,
+
+    generate: (request) => complete(toGeminiRequest(request), request.signal),
+
+    stream: async function* (request) {
+      const response = await post(toGeminiRequest(request), true, request.signal);
+      if (!response.body) throw new Error('The AI server did not return a stream.');
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Server-sent events are separated by newlines; keep any partial line
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const text = responseText(JSON.parse(line.slice(5)));
+          if (text) yield text;
+        }
+      }
+    },
+
+    generateJSON: async (request: AIJSONRequest) => {
+      const body = toGeminiRequest(request);
+      body.generationConfig = {
+        ...body.generationConfig,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+      };
+      return parseJSONReply(await complete(body, request.signal));
+    },
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * AI Provider Layer
+ *
+ * Picks the AI backend from the user's settings (see aiSettingsStore.ts):
+ * - `getAIStatus` tells the UI whether AI features can run, and why not
+ * - `getAIProvider` builds the configured provider for a request
+ * - `generateValidatedList` checks structured replies and repairs bad ones
+ *
+ * A missing key never throws at import time; features check the status
+ * and show a notice instead.
+ */
+
+import { AISettings, PROVIDER_LABELS, useAISettingsStore } from '@/lib/aiSettingsStore';
+import { createGeminiProvider } from '@/lib/ai/gemini';
+import { createHostedProvider } from '@/lib/ai/hosted';
+import { createMockProvider } from '@/lib/ai/mock';
+import { createOpenAICompatibleProvider } from '@/lib/ai/openaiCompatible';
+import { AIProvider, AIUnavailableError } from '@/lib/ai/types';
+
+export * from '@/lib/ai/types';
+export * from '@/lib/ai/structured';
+
+/**
+ * AIStatus - Whether the configured provider can be used
+ */
+export interface AIStatus {
+  ready: boolean;
+  providerLabel: string;
+  model: string;
+  reason?: string;               // Why AI is unavailable, written for students
+}
+
+/**
+ * getAIStatus - Check the settings without making a request
+ *
+ * @param settings - AI settings (defaults to the saved ones)
+ * @returns Readiness and a reason when AI is unavailable
+ */
+export const getAIStatus = (settings: AISettings = useAISettingsStore.getState()): AIStatus => {
+  const status = {
+    providerLabel: PROVIDER_LABELS[settings.provider],
+    model: settings.models[settings.provider],
+  };
+
+  if (!status.model.trim()) {
+    return { ...status, ready: false, reason: 'No AI model is selected. Choose one in Profile → AI Settings.' };
+  }
+
+  switch (settings.provider) {
+    case 'hosted':
+      return { ...status, ready: true };
+    case 'gemini':
+      return settings.geminiApiKey.trim()
+        ? { ...status, ready: true }
+        : {
+            ...status,
+            ready: false,
+            reason:
+              'AI features are off because no Gemini API key is set. Add one in Profile → AI Settings, or switch to Graspify AI.',
+          };
+    case 'openai':
+      if (!settings.openaiBaseUrl.trim()) {
+        return { ...status, ready: false, reason: 'Enter the server URL for your OpenAI-compatible provider in Profile → AI Settings.' };
+      }
+      if (settings.openaiBaseUrl.includes('api.openai.com') && !settings.openaiApiKey.trim()) {
+        return { ...status, ready: false, reason: 'AI features are off because no OpenAI API key is set. Add one in Profile → AI Settings.' };
+      }
+      return { ...status, ready: true };
+    case 'mock':
+      return { ...status, ready: true };
+  }
+};
+
+/**
+ * getAIProvider - Build the provider chosen in settings
+ *
+ * @returns Provider ready to take requests
+ * @throws AIUnavailableError when the provider is not configured
+ */
+export const getAIProvider = (): AIProvider => {
+  const settings = useAISettingsStore.getState();
+  const status = getAIStatus(settings);
+  if (!status.ready) throw new AIUnavailableError(status.reason ?? 'AI features are not configured.');
+
+  const model = settings.models[settings.provider].trim();
+  switch (settings.provider) {
+    case 'hosted':
+      return createHostedProvider(model);
+    case 'gemini':
+      return createGeminiProvider(settings.geminiApiKey.trim(), model);
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openaiBaseUrl.trim(), settings.openaiApiKey.trim(), model);
+    case 'mock':
+      return createMockProvider();
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * JSON Reply Helpers
+ *
+ * Models asked for JSON sometimes wrap it in a Markdown code block or add
+ * a sentence around it. These helpers pull the JSON value back out.
+ */
+
+import { InvalidJSONError } from '@/lib/ai/types';
+
+/**
+ * parseJSONReply - Parse the JSON object or array in a model reply
+ *
+ * @param text - Raw reply text
+ * @returns The parsed value
+ * @throws InvalidJSONError if no JSON can be found or it does not parse
+ */
+export const parseJSONReply = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  // Take everything from the first opening bracket to the matching last closing one
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new InvalidJSONError('The AI reply did not contain JSON.');
+  }
+
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch (error) {
+    throw new InvalidJSONError(`The AI reply was not valid JSON: ${(error as Error).message}`);
+  }
+};
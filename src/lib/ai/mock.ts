@@ -0,0 +1,136 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline AIProvider for demos, development without an API
+ * key and UI testing. Text replies are canned; structured replies come
+ * from fixtures for the main generators (keyed by schema name) or are
+ * synthesised from the requested schema.
+ */
+
+import { AIJSONRequest, AIProvider, AIRequest, JSONSchema } from '@/lib/ai/types';
+
+/**
+ * Delay between streamed words (ms), so streaming UI can be seen working
+ */
+const STREAM_DELAY_MS = 20;
+
+/**
+ * Items generated for arrays without a fixture
+ */
+const SAMPLE_ARRAY_LENGTH = 3;
+
+/**
+ * Fixed replies for the app's structured generators, keyed by schema name
+ */
+const FIXTURES: Record<string, unknown> = {
+  flashcards: {
+    cards: [
+      { front: 'What is photosynthesis?', back: 'The process plants use to turn light, water and $CO_2$ into glucose and oxygen.', difficulty: 'easy' },
+      { front: 'Where does photosynthesis take place?', back: 'In the chloroplasts, mainly in leaf cells.', difficulty: 'easy' },
+      { front: 'What pigment absorbs light for photosynthesis?', back: 'Chlorophyll.', difficulty: 'medium' },
+      { front: 'Write the overall equation for photosynthesis.', back: '$6CO_2 + 6H_2O \\rightarrow C_6H_{12}O_6 + 6O_2$', difficulty: 'medium' },
+      { front: 'What are the two stages of photosynthesis?', back: 'The light-dependent reactions and the Calvin cycle.', difficulty: 'hard' },
+    ],
+  },
+  quiz_questions: {
+    questions: [
+      { type: 'mcq', question: 'What is $\\frac{d}{dx}x^2$?', options: ['$x$', '$2x$', '$x^2$', '$2$'], correctAnswer: '$2x$', explanation: 'By the power rule, $\\frac{d}{dx}x^n = nx^{n-1}$.', difficulty: 'easy', topic: 'Derivatives' },
+      { type: 'true_false', question: 'Photosynthesis takes place in the mitochondria.', correctAnswer: 'False', explanation: 'Photosynthesis happens in chloroplasts; mitochondria carry out respiration.', difficulty: 'easy', topic: 'Photosynthesis' },
+      { type: 'multi_select', question: 'Which of these are SI base units?', options: ['Metre', 'Newton', 'Kilogram', 'Joule', 'Second'], correctAnswers: ['Metre', 'Kilogram', 'Second'], correctAnswer: 'Metre, Kilogram, Second', explanation: 'The newton and the joule are derived units.', difficulty: 'medium', topic: 'Units' },
+      { type: 'fill_blank', question: 'The powerhouse of the cell is the ____.', correctAnswer: 'mitochondrion', acceptedAnswers: ['mitochondria'], explanation: 'Mitochondria produce most of the cell\'s ATP.', difficulty: 'easy', topic: 'Cells' },
+      { type: 'numeric', question: 'A car travels 150 km in 2 hours. What is its average speed?', correctAnswer: '75', unit: 'km/h', tolerance: 0.5, explanation: 'Average speed = distance / time = 150 / 2 = 75 km/h.', difficulty: 'medium', topic: 'Motion' },
+      { type: 'short', question: 'Which gas do plants release during photosynthesis?', correctAnswer: 'Oxygen', acceptedAnswers: ['O2', '$O_2$'], explanation: 'Oxygen is released when water is split in the light-dependent reactions.', difficulty: 'hard', keyPoints: ['Names oxygen'], topic: 'Photosynthesis' },
+      { type: 'free_response', question: 'Explain why leaves are usually green.', correctAnswer: 'Chlorophyll absorbs red and blue light and reflects green light, so leaves look green.', keyPoints: ['Leaves contain chlorophyll', 'Chlorophyll absorbs red and blue light', 'Green light is reflected'], explanation: 'We see the wavelengths a pigment reflects, and chlorophyll reflects green.', difficulty: 'medium', topic: 'Photosynthesis' },
+    ],
+  },
+  answer_grade: {
+    credit: 0.5,
+    feedback: '**Demo mode:** this grade comes from the offline mock provider. Your answer covers part of the rubric; compare it with the model answer to see what is missing.',
+    missingPoints: ['Check the model answer for the points not covered'],
+  },
+};
+
+/**
+ * sampleFromSchema - Build a value that matches a schema
+ * Values depend only on the schema and position, so results are repeatable.
+ */
+const sampleFromSchema = (schema: JSONSchema, key: string, index: number): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, value]) => [name, sampleFromSchema(value, name, index)])
+      );
+    case 'array':
+      return Array.from({ length: SAMPLE_ARRAY_LENGTH }, (_, i) =>
+        sampleFromSchema(schema.items ?? { type: 'string' }, key, i)
+      );
+    case 'string': {
+      if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+      if (schema.format === 'date') {
+        const date = new Date();
+        date.setDate(date.getDate() + index);
+        return date.toISOString().split('T')[0];
+      }
+      return `Sample ${key} ${index + 1}`;
+    }
+    case 'number':
+      return 0.8;
+    case 'integer':
+      return index;
+    case 'boolean':
+      return index % 2 === 0;
+  }
+};
+
+/**
+ * cannedAnswer - Text reply mentioning what was asked
+ */
+const cannedAnswer = (request: AIRequest): string => {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+  const question = lastUser?.parts
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120);
+
+  return [
+    '**Demo mode:** this answer comes from the offline mock provider, not a real AI.',
+    question ? `You asked: "${question}"` : 'You sent a photo of a problem.',
+    'Here is how to approach a problem like this:',
+    '1. Write down what is given and what is asked.\n2. Pick the formula or definition that connects them.\n3. Substitute step by step and check your units.',
+    'For example, in a right triangle $a^2 + b^2 = c^2$.',
+    'Choose Graspify AI or another provider under Profile → AI Settings for real answers.',
+  ].join('\n\n');
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * createMockProvider - Offline provider with repeatable replies
+ */
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  label: 'Demo mode',
+  model: 'mock-1',
+
+  generate: async (request) => cannedAnswer(request),
+
+  stream: async function* (request) {
+    for (const word of cannedAnswer(request).split(/(?<=\s)/)) {
+      await wait(STREAM_DELAY_MS, request.signal);
+      yield word;
+    }
+  },
+
+  generateJSON: async (request: AIJSONRequest) =>
+    structuredClone(FIXTURES[request.schemaName] ?? sampleFromSchema(request.schema, request.schemaName, 0)),
+});
@@ -0,0 +1,133 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Implements AIProvider against any `/chat/completions` endpoint that
+ * follows the OpenAI API: OpenAI itself, Ollama, LM Studio, vLLM, etc.
+ * Streaming uses server-sent events; structured replies request a JSON
+ * schema response format.
+ */
+
+import { AIJSONRequest, AIMessage, AIProvider, AIRequest } from '@/lib/ai/types';
+import { parseJSONReply } from '@/lib/ai/json';
+
+/**
+ * Message shape sent to /chat/completions
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+}
+
+/**
+ * toChatMessages - Convert a request to OpenAI chat messages
+ * Images are sent as data URLs; text-only turns use plain strings so
+ * servers without vision support still accept them.
+ */
+const toChatMessages = (request: AIRequest): ChatMessage[] => {
+  const messages: ChatMessage[] = request.system ? [{ role: 'system', content: request.system }] : [];
+
+  for (const message of request.messages) {
+    messages.push({ role: message.role, content: toContent(message) });
+  }
+
+  return messages;
+};
+
+const toContent = (message: AIMessage): ChatMessage['content'] => {
+  if (message.parts.every((part) => part.type === 'text')) {
+    return message.parts.map((part) => (part.type === 'text' ? part.text : '')).join('\n\n');
+  }
+
+  return message.parts.map((part) =>
+    part.type === 'text'
+      ? { type: 'text' as const, text: part.text }
+      : { type: 'image_url' as const, image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+  );
+};
+
+/**
+ * createOpenAICompatibleProvider - Backend for an OpenAI-style server
+ *
+ * @param baseUrl - API root, e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1"
+ * @param apiKey - Bearer token (may be empty for local servers)
+ * @param model - Model name, e.g. "gpt-4o-mini" or "llama3.2"
+ */
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  apiKey: string,
+  model: string
+): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: AIRequest, extra: Record<string, unknown>): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: toChatMessages(request),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxOutputTokens ?? 2048,
+        ...extra,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI request failed (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+    }
+    return response;
+  };
+
+  const complete = async (request: AIRequest, extra: Record<string, unknown> = {}): Promise<string> => {
+    const data = await (await post(request, extra)).json();
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    model,
+
+    generate: (request) => complete(request),
+
+    stream: async function* (request) {
+      const response = await post(request, { stream: true });
+      if (!response.body) throw new Error('The AI server did not return a stream.');
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Server-sent events are separated by newlines; keep any partial line
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    },
+
+    generateJSON: async (request: AIJSONRequest) => {
+      const text = await complete(request, {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.schemaName, schema: request.schema },
+        },
+      });
+      return parseJSONReply(text);
+    },
+  };
+};
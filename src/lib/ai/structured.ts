@@ -0,0 +1,151 @@
+/**
+ * Validated Structured Generation
+ *
+ * Asks a provider for a JSON list, checks each item against a zod schema
+ * and keeps the ones that pass. Items that fail are dropped with the
+ * reason; if nothing usable comes back, the model is shown what was wrong
+ * and asked to repair its reply.
+ */
+
+import { z } from 'zod';
+
+import { AIJSONRequest, AIMessage, AIProvider, InvalidJSONError } from '@/lib/ai/types';
+
+/**
+ * Attempts made before giving up (the first request plus repairs)
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Problems quoted back to the model in a repair prompt
+ */
+const MAX_REPAIR_PROBLEMS = 5;
+
+/**
+ * DroppedItem - A generated item that failed validation
+ */
+export interface DroppedItem {
+  index: number;                 // Position in the reply's list
+  reason: string;
+}
+
+/**
+ * ValidatedList - Items that passed validation, and what was dropped
+ */
+export interface ValidatedList<T> {
+  items: T[];
+  dropped: DroppedItem[];
+  attempts: number;
+}
+
+/**
+ * Options for generateValidatedList
+ */
+export interface ValidatedListOptions<S extends z.ZodTypeAny> {
+  listKey: string;               // Property of the reply holding the list, e.g. "questions"
+  itemSchema: S;                 // Checks (and may normalise) each item
+  minItems?: number;             // Fewest valid items accepted without a repair (default 1)
+  maxAttempts?: number;
+}
+
+/**
+ * describeIssues - One line per zod issue, e.g. "options.2: Required"
+ */
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+/**
+ * validateList - Split a reply's list into valid items and dropped ones
+ *
+ * @returns The result, or a problem with the reply as a whole
+ */
+const validateList = <S extends z.ZodTypeAny>(
+  reply: unknown,
+  { listKey, itemSchema }: ValidatedListOptions<S>
+): { items: z.output<S>[]; dropped: DroppedItem[] } | { problem: string } => {
+  const list = (reply as Record<string, unknown> | null)?.[listKey];
+  if (!Array.isArray(list)) {
+    return { problem: `The reply must be a JSON object with a "${listKey}" array.` };
+  }
+
+  const items: z.output<S>[] = [];
+  const dropped: DroppedItem[] = [];
+  list.forEach((item, index) => {
+    const result = itemSchema.safeParse(item);
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      dropped.push({ index, reason: describeIssues(result.error) });
+    }
+  });
+  return { items, dropped };
+};
+
+/**
+ * repairPrompt - Tell the model what was wrong with its last reply
+ */
+const repairPrompt = (listKey: string, problems: string[]): string =>
+  [
+    `Your previous reply could not be used:`,
+    ...problems.slice(0, MAX_REPAIR_PROBLEMS).map((problem) => `- ${problem}`),
+    `Reply again with the complete JSON object, fixing these problems. Put every item in the "${listKey}" array and follow the original instructions.`,
+  ].join('\n');
+
+/**
+ * generateValidatedList - Generate a JSON list and keep only valid items
+ *
+ * @param provider - Provider to ask
+ * @param request - Structured request; its schema should match `options.itemSchema`
+ * @param options - Where the list is and how to check each item
+ * @returns Valid items plus the reasons others were dropped
+ * @throws Error if no attempt produced enough valid items
+ */
+export const generateValidatedList = async <S extends z.ZodTypeAny>(
+  provider: AIProvider,
+  request: AIJSONRequest,
+  options: ValidatedListOptions<S>
+): Promise<ValidatedList<z.output<S>>> => {
+  const { listKey, minItems = 1, maxAttempts = DEFAULT_MAX_ATTEMPTS } = options;
+  const messages: AIMessage[] = [...request.messages];
+  let lastProblem = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let reply: unknown;
+    let problems: string[];
+
+    try {
+      reply = await provider.generateJSON({ ...request, messages });
+      const result = validateList(reply, options);
+
+      if ('problem' in result) {
+        problems = [result.problem];
+      } else if (result.items.length >= minItems) {
+        if (result.dropped.length > 0) {
+          console.warn(`Dropped ${result.dropped.length} invalid "${listKey}" item(s):`, result.dropped);
+        }
+        return { ...result, attempts: attempt };
+      } else {
+        problems = result.dropped.length
+          ? result.dropped.map((d) => `Item ${d.index + 1}: ${d.reason}`)
+          : [`The "${listKey}" array must contain at least ${minItems} item(s).`];
+      }
+    } catch (error) {
+      // Only malformed replies are worth repairing; network, auth and aborts are not
+      if (!(error instanceof InvalidJSONError)) throw error;
+      problems = [error.message];
+    }
+
+    lastProblem = problems[0];
+    messages.push(
+      {
+        role: 'assistant',
+        parts: [{ type: 'text', text: reply === undefined ? '(invalid JSON)' : JSON.stringify(reply) }],
+      },
+      { role: 'user', parts: [{ type: 'text', text: repairPrompt(listKey, problems) }] }
+    );
+  }
+
+  throw new Error(`The AI reply was unusable after ${maxAttempts} attempts: ${lastProblem}`);
+};
@@ -0,0 +1,107 @@
+/**
+ * AI Provider Types
+ *
+ * Shared shapes for the pluggable AI layer. Feature code (see gemini.ts)
+ * builds provider-neutral requests; each provider translates them to its
+ * own API.
+ */
+
+/**
+ * AIProviderId - Backends the app can talk to
+ */
+export type AIProviderId = 'hosted' | 'gemini' | 'openai' | 'mock';
+
+/**
+ * AIPart - A piece of a message: text or an inline base64 image
+ */
+export type AIPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string };
+
+/**
+ * AIMessage - One turn of a conversation
+ */
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  parts: AIPart[];
+}
+
+/**
+ * AIRequest - Provider-neutral generation request
+ */
+export interface AIRequest {
+  system?: string;               // Instructions that apply to the whole conversation
+  messages: AIMessage[];         // Conversation so far, ending with the user's turn
+  temperature?: number;          // Defaults to 0.7
+  maxOutputTokens?: number;      // Defaults to 2048
+  signal?: AbortSignal;          // Abort to stop generation early
+}
+
+/**
+ * JSONSchema - Subset of JSON Schema understood by every provider
+ */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];               // Allowed values for strings
+  format?: 'date';               // YYYY-MM-DD strings
+}
+
+/**
+ * AIJSONRequest - Request for a structured reply
+ * The schema root must be an object (OpenAI-compatible APIs require it).
+ */
+export interface AIJSONRequest extends AIRequest {
+  schemaName: string;            // e.g. "flashcards", used by APIs and the mock provider
+  schema: JSONSchema;
+}
+
+/**
+ * AIProvider - A backend that can answer requests
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;                 // Human-readable name, e.g. "Google Gemini"
+  model: string;
+
+  /**
+   * Generate a complete text reply
+   */
+  generate: (request: AIRequest) => Promise<string>;
+
+  /**
+   * Generate a text reply chunk by chunk
+   */
+  stream: (request: AIRequest) => AsyncGenerator<string>;
+
+  /**
+   * Generate a reply matching `request.schema` and return it parsed
+   * The result is not validated; callers check its shape.
+   */
+  generateJSON: (request: AIJSONRequest) => Promise<unknown>;
+}
+
+/**
+ * AIUnavailableError - AI features are not configured (e.g. no API key)
+ * The message is written for students and safe to show in the UI.
+ */
+export class AIUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIUnavailableError';
+  }
+}
+
+/**
+ * InvalidJSONError - A structured reply could not be parsed as JSON
+ * Callers may retry with a repair prompt.
+ */
+export class InvalidJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidJSONError';
+  }
+}
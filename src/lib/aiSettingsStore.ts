@@ -0,0 +1,134 @@
+/**
+ * AI Settings Store Module - Zustand State Management
+ *
+ * Remembers which AI provider and model the app uses:
+ * - Graspify AI: Gemini through the ai-proxy Edge Function (default)
+ * - Google Gemini with the student's own key
+ * - Any OpenAI-compatible API, including a local Ollama server
+ * - An offline demo provider with canned answers
+ *
+ * Keys entered here are kept in this browser's localStorage only.
+ */
+
+// Zustand - lightweight state management library
+import { create } from 'zustand';
+
+// Persist middleware - automatically saves state to localStorage
+import { persist } from 'zustand/middleware';
+
+// Provider ids
+import { AIProviderId } from '@/lib/ai/types';
+
+/**
+ * Default model per provider
+ */
+export const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  hosted: 'gemini-2.5-flash',
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-1',
+};
+
+/**
+ * Suggested models shown in the settings form
+ */
+export const SUGGESTED_MODELS: Record<AIProviderId, string[]> = {
+  hosted: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.0-flash'],  // Allowed by the proxy
+  gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+  openai: ['gpt-4o-mini', 'gpt-4o', 'llama3.2', 'qwen2.5'],
+  mock: ['mock-1'],
+};
+
+/**
+ * Labels for the provider picker
+ */
+export const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  hosted: 'Graspify AI (included with your account)',
+  gemini: 'Google Gemini (your own API key)',
+  openai: 'OpenAI-compatible (OpenAI, Ollama, LM Studio)',
+  mock: 'Demo mode (offline, canned answers)',
+};
+
+/**
+ * Base URL presets for OpenAI-compatible servers
+ */
+export const OPENAI_BASE_URL_PRESETS = [
+  { label: 'OpenAI', baseUrl: 'https://api.openai.com/v1' },
+  { label: 'Ollama (local)', baseUrl: 'http://localhost:11434/v1' },
+  { label: 'LM Studio (local)', baseUrl: 'http://localhost:1234/v1' },
+];
+
+/**
+ * AISettings - Persisted provider configuration
+ */
+export interface AISettings {
+  provider: AIProviderId;
+  models: Record<AIProviderId, string>;  // Chosen model for each provider
+  geminiApiKey: string;          // Student's own Gemini key, used only by the 'gemini' provider
+  openaiBaseUrl: string;
+  openaiApiKey: string;          // Optional for local servers
+}
+
+/**
+ * AISettingsState Interface
+ * Settings plus the actions that change them
+ */
+interface AISettingsState extends AISettings {
+  /**
+   * Switch provider
+   */
+  setProvider: (provider: AIProviderId) => void;
+
+  /**
+   * Choose the model used with a provider
+   */
+  setModel: (provider: AIProviderId, model: string) => void;
+
+  /**
+   * Update keys or the OpenAI-compatible base URL
+   */
+  updateSettings: (updates: Partial<Pick<AISettings, 'geminiApiKey' | 'openaiBaseUrl' | 'openaiApiKey'>>) => void;
+}
+
+/**
+ * useAISettingsStore - AI settings hook
+ * Created with Zustand, persisted to localStorage under 'graspify-ai-settings'
+ */
+export const useAISettingsStore = create<AISettingsState>()(
+  persist(
+    (set) => ({
+      provider: 'hosted',
+      models: { ...DEFAULT_MODELS },
+      geminiApiKey: '',
+      openaiBaseUrl: OPENAI_BASE_URL_PRESETS[0].baseUrl,
+      openaiApiKey: '',
+
+      setProvider: (provider) => set({ provider }),
+
+      setModel: (provider, model) =>
+        set((state) => ({ models: { ...state.models, [provider]: model } })),
+
+      updateSettings: (updates) => set(updates),
+    }),
+    {
+      // Persist configuration - saves state to browser localStorage
+      name: 'graspify-ai-settings',
+      version: 1,
+      // v0 defaulted to Gemini with a build-time key, which is no longer shipped
+      migrate: (persisted, version) => {
+        const settings = persisted as AISettings;
+        if (version === 0 && settings.provider === 'gemini' && !settings.geminiApiKey) {
+          settings.provider = 'hosted';
+        }
+        return { ...settings, models: { ...DEFAULT_MODELS, ...settings.models } } as AISettingsState;
+      },
+      partialize: (state) => ({
+        provider: state.provider,
+        models: state.models,
+        geminiApiKey: state.geminiApiKey,
+        openaiBaseUrl: state.openaiBaseUrl,
+        openaiApiKey: state.openaiApiKey,
+      }),
+    }
+  )
+);
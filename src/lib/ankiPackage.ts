@@ -0,0 +1,696 @@
+/**
+ * Anki Package Module
+ *
+ * Reads and writes Anki `.apkg` files (a zip holding an SQLite collection
+ * plus numbered media files):
+ * - Import turns notes into an ImportedTable (see deckTransfer.ts), keeping
+ *   each note's scheduling data and embedding its images as data URLs
+ * - Export writes a deck as a legacy (schema 11) package that every Anki
+ *   version can open
+ *
+ * sql.js (SQLite compiled to WebAssembly) is loaded on first use so it
+ * stays out of the main bundle.
+ */
+
+// Zip container and zstd (used by Anki 2.1.50+ packages)
+import JSZip from 'jszip';
+import { decompress } from 'fzstd';
+import type { Database, SqlJsStatic } from 'sql.js';
+
+import { Flashcard, FlashcardDeck } from '@/types';
+import { ImportedCardData, ImportedRow, ImportedTable, fileBaseName } from '@/lib/deckTransfer';
+import { readImageAsDataUrl } from '@/lib/imageAttachments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Separator Anki uses between a note's fields
+ */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Image extensions recognised in Anki media
+ */
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * loadSql - Load sql.js and its WebAssembly binary once
+ */
+const loadSql = (): Promise<SqlJsStatic> => {
+  sqlPromise ??= Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm-browser.wasm?url'),
+  ]).then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }));
+  return sqlPromise;
+};
+
+/**
+ * queryRows - Run a query and return rows as objects
+ */
+const queryRows = <T>(db: Database, sql: string): T[] => {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map(
+    (values) => Object.fromEntries(result.columns.map((column, i) => [column, values[i]])) as T
+  );
+};
+
+// ============================================================================
+// HTML <-> MARKDOWN
+// ============================================================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * decodeEntities - Decode the HTML entities Anki writes
+ */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * imageSources - File names referenced by <img> tags in a field
+ */
+const imageSources = (html: string): string[] =>
+  Array.from(html.matchAll(/<img[^>]*\ssrc=["']?([^"' >]+)["']?[^>]*>/gi), (m) => m[1]);
+
+const safeDecodeUri = (name: string): string => {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+/**
+ * htmlToMarkdown - Convert an Anki field to the Markdown cards use
+ *
+ * @param html - Field HTML
+ * @param images - Media file name -> data URL
+ * @returns Markdown with math as $...$ and images embedded
+ */
+const htmlToMarkdown = (html: string, images: Map<string, string>): string => {
+  const markdown = html
+    .replace(/<img[^>]*\ssrc=["']?([^"' >]+)["']?[^>]*>/gi, (_, src: string) => {
+      const dataUrl = images.get(safeDecodeUri(src));
+      return dataUrl ? `\n![](${dataUrl})\n` : '';
+    })
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h\d)>/gi, '\n')
+    .replace(/<\/?(b|strong)>/gi, '**')
+    .replace(/<\/?(i|em)>/gi, '*')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math}$`);
+
+  return decodeEntities(markdown)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * markdownToHtml - Convert card Markdown to Anki field HTML
+ * Embedded data-URL images are moved into the package's media files.
+ *
+ * @param markdown - Card front or back
+ * @param addMedia - Stores image bytes and returns the media file name
+ * @returns Field HTML
+ */
+const markdownToHtml = (
+  markdown: string,
+  addMedia: (dataUrl: string) => string | null
+): string =>
+  escapeHtml(markdown)
+    .replace(/!\[[^\]]*\]\(([^)\s]+)\)/g, (_, src: string) => {
+      const name = src.startsWith('data:') ? addMedia(src) : src;
+      return name ? `<img src="${name}">` : '';
+    })
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math: string) => `\\[${math}\\]`)
+    .replace(/\$([^$\n]+?)\$/g, (_, math: string) => `\\(${math}\\)`)
+    .replace(/\*\*([^*]+)\*\*/g, '<b>$1</b>')
+    .replace(/\n/g, '<br>');
+
+/**
+ * CLOZE_PATTERN - {{c1::answer}} or {{c1::answer::hint}}
+ */
+const CLOZE_PATTERN = /\{\{c\d+::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * clozeToFields - Turn a cloze note into a question/answer pair
+ *
+ * @param fields - Note fields (first holds the cloze text)
+ * @returns Fields with a blanked front and a revealed back
+ */
+const clozeToFields = (fields: string[]): string[] => {
+  const [text, ...rest] = fields;
+  const front = text.replace(CLOZE_PATTERN, (_, __, hint?: string) => `[${hint || '...'}]`);
+  const revealed = text.replace(CLOZE_PATTERN, (_, answer: string) => `**${answer}**`);
+  const extra = rest.filter((f) => f.trim()).join('\n\n');
+  return [front, extra ? `${revealed}\n\n${extra}` : revealed, ...rest.slice(1)];
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Row shapes read from the collection
+ */
+interface NoteCardRow {
+  nid: number;
+  mid: number;
+  flds: string;
+  did: number;
+  odid: number;
+  type: number;
+  queue: number;
+  due: number;
+  odue: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  mod: number;
+}
+
+/**
+ * readVarint - Read a protobuf varint
+ */
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+  while (position < bytes.length) {
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+  }
+  return [value, position];
+};
+
+/**
+ * readMediaEntries - Parse the protobuf media list of newer packages
+ * (MediaEntries { repeated MediaEntry { string name = 1; ... } })
+ * Entry n is stored in the zip as file "n".
+ */
+const readMediaEntries = (bytes: Uint8Array): string[] => {
+  const names: string[] = [];
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [tag, afterTag] = readVarint(bytes, offset);
+    const [length, start] = readVarint(bytes, afterTag);
+    const end = start + length;
+
+    if (tag >> 3 === 1) {
+      // Inside a MediaEntry: the name is field 1
+      let inner = start;
+      let name = '';
+      while (inner < end) {
+        const [innerTag, afterInnerTag] = readVarint(bytes, inner);
+        if ((innerTag & 7) === 2) {
+          const [innerLength, innerStart] = readVarint(bytes, afterInnerTag);
+          if (innerTag >> 3 === 1) name = decoder.decode(bytes.slice(innerStart, innerStart + innerLength));
+          inner = innerStart + innerLength;
+        } else {
+          [, inner] = readVarint(bytes, afterInnerTag);
+        }
+      }
+      names.push(name);
+    }
+
+    offset = end;
+  }
+
+  return names;
+};
+
+/**
+ * readMediaMap - Map media file names to their zip entries
+ */
+const readMediaMap = async (zip: JSZip, compressed: boolean): Promise<Map<string, string>> => {
+  const media = zip.file('media');
+  if (!media) return new Map();
+
+  if (compressed) {
+    const names = readMediaEntries(decompress(await media.async('uint8array')));
+    return new Map(names.map((name, index) => [name, String(index)]));
+  }
+
+  const legacy = JSON.parse(await media.async('string')) as Record<string, string>;
+  return new Map(Object.entries(legacy).map(([index, name]) => [name, index]));
+};
+
+/**
+ * loadImages - Read referenced images as downscaled data URLs
+ */
+const loadImages = async (
+  zip: JSZip,
+  names: Set<string>,
+  mediaMap: Map<string, string>,
+  compressed: boolean,
+  warnings: string[]
+): Promise<Map<string, string>> => {
+  const images = new Map<string, string>();
+  let missing = 0;
+
+  for (const name of names) {
+    const type = IMAGE_TYPES[name.split('.').pop()?.toLowerCase() ?? ''];
+    const entry = mediaMap.get(name);
+    const file = entry !== undefined ? zip.file(entry) : null;
+    if (!type || !file) {
+      missing += 1;
+      continue;
+    }
+
+    try {
+      let bytes = await file.async('uint8array');
+      if (compressed) bytes = decompress(bytes);
+      images.set(name, await readImageAsDataUrl(new File([new Uint8Array(bytes)], name, { type })));
+    } catch {
+      missing += 1;
+    }
+  }
+
+  if (missing > 0) warnings.push(`${missing} images could not be read and were left out.`);
+  return images;
+};
+
+/**
+ * readDeckNames - Deck id -> name (subdecks joined with "::")
+ */
+const readDeckNames = (db: Database, legacyDecks: string | null): Map<number, string> => {
+  if (legacyDecks && legacyDecks !== '{}') {
+    const decks = JSON.parse(legacyDecks) as Record<string, { id: number; name: string }>;
+    return new Map(Object.values(decks).map((d) => [Number(d.id), d.name]));
+  }
+
+  const rows = queryRows<{ id: number; name: string }>(db, 'SELECT id, name FROM decks');
+  return new Map(rows.map((d) => [Number(d.id), d.name.split(FIELD_SEPARATOR).join('::')]));
+};
+
+/**
+ * readFieldNames - Note type id -> field names
+ */
+const readFieldNames = (db: Database, legacyModels: string | null): Map<number, string[]> => {
+  if (legacyModels && legacyModels !== '{}') {
+    const models = JSON.parse(legacyModels) as Record<string, { id: number; flds: { name: string; ord: number }[] }>;
+    return new Map(
+      Object.values(models).map((m) => [
+        Number(m.id),
+        [...m.flds].sort((a, b) => a.ord - b.ord).map((f) => f.name),
+      ])
+    );
+  }
+
+  const names = new Map<number, string[]>();
+  queryRows<{ ntid: number; ord: number; name: string }>(
+    db,
+    'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord'
+  ).forEach((f) => names.set(Number(f.ntid), [...(names.get(Number(f.ntid)) ?? []), f.name]));
+  return names;
+};
+
+/**
+ * toCardData - Convert Anki scheduling to our SM-2 fields
+ *
+ * Anki card types: 0 = new, 1 = learning, 2 = review, 3 = relearning.
+ * Review due dates are day numbers counted from the collection's creation
+ * (`crt`); learning due dates are Unix timestamps.
+ */
+const toCardData = (row: NoteCardRow, crt: number): ImportedCardData => {
+  const data: ImportedCardData = { createdAt: new Date(row.nid).toISOString() };
+  if (row.type === 0) return data;
+
+  const due = row.odid ? row.odue : row.due;
+  const dueMs = row.queue === 1 ? due * 1000 : (crt + due * 86400) * 1000;
+  const interval = row.type === 2 ? Math.max(1, row.ivl) : 0;
+
+  data.interval = interval;
+  data.easeFactor = row.factor > 0 ? row.factor / 1000 : 2.5;
+  data.repetitions = row.type === 2 ? Math.max(1, row.reps - row.lapses) : 0;
+  data.lapses = row.lapses;
+  data.nextReviewDate = new Date(dueMs).toISOString();
+  data.lastReviewDate = new Date(row.type === 2 ? dueMs - interval * DAY_MS : row.mod * 1000).toISOString();
+  return data;
+};
+
+/**
+ * readAnkiPackage - Parse an .apkg file
+ *
+ * Each note becomes one row (extra cards of the same note, e.g. reversed
+ * cards, are skipped). Scheduling comes from the note's first card.
+ *
+ * @param file - The .apkg file
+ * @returns Table of note fields ready for mapping
+ */
+export const readAnkiPackage = async (file: File): Promise<ImportedTable> => {
+  const zip = await JSZip.loadAsync(file);
+  const warnings: string[] = [];
+
+  // Newer Anki writes a zstd-compressed collection and keeps a stub in
+  // collection.anki2 asking users to upgrade, so prefer the newest file
+  const compressedEntry = zip.file('collection.anki21b');
+  const legacyEntry = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+  if (!compressedEntry && !legacyEntry) {
+    throw new Error('This file is not an Anki package (no collection found).');
+  }
+  const compressed = !!compressedEntry;
+  const collection = compressedEntry
+    ? decompress(await compressedEntry.async('uint8array'))
+    : await legacyEntry!.async('uint8array');
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(collection);
+
+  try {
+    const [col] = queryRows<{ crt: number; decks: string | null; models: string | null }>(
+      db,
+      'SELECT crt, decks, models FROM col'
+    );
+    if (!col) throw new Error('The Anki collection is empty or damaged.');
+
+    const deckNames = readDeckNames(db, col.decks);
+    const fieldNames = readFieldNames(db, col.models);
+
+    const rows = queryRows<NoteCardRow>(
+      db,
+      `SELECT n.id AS nid, n.mid, n.flds, c.did, c.odid, c.type, c.queue, c.due, c.odue,
+              c.ivl, c.factor, c.reps, c.lapses, c.mod
+       FROM notes n JOIN cards c ON c.nid = n.id
+       ORDER BY n.id, c.ord`
+    );
+
+    // First card of each note
+    const notes: NoteCardRow[] = [];
+    rows.forEach((row) => {
+      if (notes[notes.length - 1]?.nid !== row.nid) notes.push(row);
+    });
+    if (notes.length > 0 && rows.length > notes.length) {
+      warnings.push(`${rows.length - notes.length} extra cards (e.g. reversed cards) were merged into their notes.`);
+    }
+
+    const mediaMap = await readMediaMap(zip, compressed);
+    const referenced = new Set(notes.flatMap((n) => imageSources(n.flds).map(safeDecodeUri)));
+    const images = await loadImages(zip, referenced, mediaMap, compressed, warnings);
+
+    // Name columns after the fields of the most common note type
+    const typeCounts = new Map<number, number>();
+    notes.forEach((n) => typeCounts.set(Number(n.mid), (typeCounts.get(Number(n.mid)) ?? 0) + 1));
+    const mainType = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    const mainFields = (mainType !== undefined && fieldNames.get(mainType)) || [];
+
+    const importedRows: ImportedRow[] = notes.map((note) => {
+      let fields = note.flds.split(FIELD_SEPARATOR).map((f) => htmlToMarkdown(f, images));
+      if (/\{\{c\d+::/.test(fields[0] ?? '')) fields = clozeToFields(fields);
+
+      return {
+        fields,
+        deckName: deckNames.get(Number(note.odid || note.did)),
+        data: toCardData(note, col.crt),
+      };
+    });
+
+    const width = Math.max(0, ...importedRows.map((r) => r.fields.length));
+    return {
+      source: 'anki',
+      name: fileBaseName(file.name),
+      columns: Array.from({ length: width }, (_, i) => mainFields[i] ?? `Field ${i + 1}`),
+      rows: importedRows,
+      warnings,
+    };
+  } finally {
+    db.close();
+  }
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Legacy (schema 11) collection tables
+ */
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null,
+  left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+`;
+
+/**
+ * basicModel - The "Basic" note type (Front/Back, one card)
+ */
+const basicModel = (id: number, deckId: number, mod: number) => ({
+  id,
+  name: 'Basic (Graspify)',
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [
+    {
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    },
+  ],
+  flds: ['Front', 'Back'].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: 'Arial',
+    size: 20,
+    media: [],
+  })),
+  css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+  latexPre:
+    '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'any', [0]]],
+});
+
+const ankiDeck = (id: number, name: string, description: string, mod: number) => ({
+  id,
+  name,
+  desc: description,
+  mod,
+  usn: -1,
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  extendNew: 0,
+  extendRev: 0,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    dyn: false,
+    maxTaken: 60,
+    timer: 0,
+    autoplay: true,
+    replayq: true,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, perDay: 20, order: 1, bury: false, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, minSpace: 1, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  },
+};
+
+/**
+ * fieldChecksum - First 8 hex digits of the SHA-1 of a field's text,
+ * used by Anki to spot duplicate notes
+ */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+const stripHtml = (html: string): string => decodeEntities(html.replace(/<[^>]+>/g, ' ')).trim();
+
+/**
+ * dataUrlToBytes - Decode a base64 data URL
+ */
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; extension: string } | null => {
+  const match = /^data:image\/([a-z+]+);base64,(.+)$/i.exec(dataUrl);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  const extension = match[1] === 'jpeg' ? 'jpg' : match[1] === 'svg+xml' ? 'svg' : match[1];
+  return { bytes, extension };
+};
+
+/**
+ * cardScheduling - Anki card columns for one of our cards
+ */
+const cardScheduling = (card: Flashcard, position: number, crt: number) => {
+  if (!card.lastReviewDate) {
+    return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0 };
+  }
+
+  const dueDay = Math.max(0, Math.round((new Date(card.nextReviewDate).getTime() - crt * 1000) / DAY_MS));
+  const lapses = card.lapses ?? 0;
+  return {
+    type: 2,
+    queue: 2,
+    due: dueDay,
+    ivl: Math.max(1, card.interval),
+    factor: Math.round(card.easeFactor * 1000),
+    reps: card.repetitions + lapses,
+    lapses,
+  };
+};
+
+/**
+ * writeAnkiPackage - Export a deck as an .apkg file
+ *
+ * @param deck - Deck to export
+ * @returns Zip blob ready to download
+ */
+export const writeAnkiPackage = async (deck: FlashcardDeck): Promise<Blob> => {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const mod = Math.floor(now / 1000);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const crt = Math.floor(today.getTime() / 1000);
+
+    const deckId = now;
+    const modelId = now + 1;
+
+    // Media files are numbered in the zip and named in the "media" map
+    const mediaFiles: Uint8Array[] = [];
+    const mediaNames: Record<string, string> = {};
+    const addMedia = (dataUrl: string): string | null => {
+      const decoded = dataUrlToBytes(dataUrl);
+      if (!decoded) return null;
+      const index = mediaFiles.length;
+      const name = `graspify-${deck.id.slice(-8)}-${index}.${decoded.extension}`;
+      mediaFiles.push(decoded.bytes);
+      mediaNames[String(index)] = name;
+      return name;
+    };
+
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt,
+      now,
+      now,
+      JSON.stringify({
+        nextPos: deck.cards.length + 1,
+        estTimes: true,
+        activeDecks: [1],
+        sortType: 'noteFld',
+        timeLim: 0,
+        sortBackwards: false,
+        addToCur: true,
+        curDeck: deckId,
+        newSpread: 0,
+        dueCounts: true,
+        curModel: String(modelId),
+        collapseTime: 1200,
+      }),
+      JSON.stringify({ [modelId]: basicModel(modelId, deckId, mod) }),
+      JSON.stringify({
+        1: ankiDeck(1, 'Default', '', mod),
+        [deckId]: ankiDeck(deckId, deck.name, deck.description ?? '', mod),
+      }),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ]);
+
+    for (const [index, card] of deck.cards.entries()) {
+      const front = markdownToHtml(card.front, addMedia);
+      const back = markdownToHtml(card.back, addMedia);
+      const sortField = stripHtml(front);
+      const id = now + index;
+      const scheduling = cardScheduling(card, index + 1, crt);
+
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id,
+        crypto.randomUUID().replace(/-/g, '').slice(0, 10),
+        modelId,
+        mod,
+        ` ${card.difficulty} `,
+        `${front}${FIELD_SEPARATOR}${back}`,
+        sortField,
+        await fieldChecksum(sortField),
+      ]);
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')", [
+        id,
+        id,
+        deckId,
+        mod,
+        scheduling.type,
+        scheduling.queue,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+        scheduling.lapses,
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', JSON.stringify(mediaNames));
+    mediaFiles.forEach((bytes, index) => zip.file(String(index), bytes));
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
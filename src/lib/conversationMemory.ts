@@ -0,0 +1,136 @@
+/**
+ * Conversation Memory Module
+ *
+ * Decides how much of a Doubt Solver conversation is sent back to the
+ * model as chat history:
+ * - Recent messages are kept verbatim, newest first, until the token
+ *   budget is spent
+ * - Older messages are condensed into a short summary so the tutor still
+ *   knows what was discussed
+ *
+ * Token counts are estimated (about 4 characters per token), which is
+ * close enough for budgeting without calling a tokenizer.
+ */
+
+import { DoubtMessage } from '@/types';
+
+/**
+ * Tokens of history sent with each question (excluding the system prompt)
+ */
+export const HISTORY_TOKEN_BUDGET = 6000;
+
+/**
+ * Tokens the summary of trimmed messages may use
+ */
+const SUMMARY_TOKEN_BUDGET = 600;
+
+/**
+ * Approximate token cost of one attached image
+ */
+const IMAGE_TOKEN_ESTIMATE = 260;
+
+/**
+ * Characters of each trimmed message kept in the summary
+ */
+const SUMMARY_SNIPPET_CHARS = 160;
+
+/**
+ * Images older than this many messages are dropped from the history
+ */
+const MAX_HISTORY_IMAGES = 2;
+
+/**
+ * ConversationWindow - History to send with the next question
+ */
+export interface ConversationWindow {
+  summary: string | null;        // Condensed older turns, if any were trimmed
+  messages: DoubtMessage[];      // Recent messages, oldest first
+  trimmedCount: number;          // Messages folded into the summary
+}
+
+/**
+ * estimateTokens - Rough token count of a piece of text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * messageTokens - Estimated cost of a message including its image
+ */
+const messageTokens = (message: DoubtMessage): number =>
+  estimateTokens(message.content + (message.solution ?? '')) + (message.image ? IMAGE_TOKEN_ESTIMATE : 0);
+
+/**
+ * snippet - First part of a message, on one line
+ */
+const snippet = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > SUMMARY_SNIPPET_CHARS ? `${line.slice(0, SUMMARY_SNIPPET_CHARS)}...` : line;
+};
+
+/**
+ * summarizeMessages - Condense trimmed messages into bullet points
+ * Keeps the most recent points when the summary itself is too long.
+ */
+const summarizeMessages = (messages: DoubtMessage[]): string => {
+  const points = messages.map((message) => {
+    const who = message.role === 'user' ? 'Student asked' : 'Tutor answered';
+    const content =
+      message.content.trim() || (message.solution ? 'Please check my solution' : message.image ? '(a photo of a problem)' : '');
+    return `- ${who}: ${snippet(content)}`;
+  });
+
+  const kept: string[] = [];
+  let tokens = 0;
+  for (let i = points.length - 1; i >= 0; i--) {
+    tokens += estimateTokens(points[i]);
+    if (tokens > SUMMARY_TOKEN_BUDGET) break;
+    kept.unshift(points[i]);
+  }
+
+  const omitted = points.length - kept.length;
+  return [
+    'Summary of the earlier part of this conversation (older messages were shortened):',
+    ...(omitted > 0 ? [`- (${omitted} even older messages omitted)`] : []),
+    ...kept,
+  ].join('\n');
+};
+
+/**
+ * buildConversationWindow - Fit a conversation into the history budget
+ *
+ * @param messages - Earlier messages in the session, oldest first
+ * @param budget - Tokens available for verbatim messages
+ * @returns Recent messages to send verbatim and a summary of the rest
+ */
+export const buildConversationWindow = (
+  messages: DoubtMessage[],
+  budget: number = HISTORY_TOKEN_BUDGET
+): ConversationWindow => {
+  const recent: DoubtMessage[] = [];
+  let tokens = 0;
+  let images = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    let message = messages[i];
+
+    // Only the latest few photos are re-sent; older ones stay as text
+    if (message.image) {
+      if (images >= MAX_HISTORY_IMAGES) message = { ...message, image: undefined };
+      else images += 1;
+    }
+
+    const cost = messageTokens(message);
+    // Always keep the latest message, even if it alone exceeds the budget
+    if (recent.length > 0 && tokens + cost > budget) break;
+    tokens += cost;
+    recent.unshift(message);
+  }
+
+  const trimmed = messages.slice(0, messages.length - recent.length);
+
+  return {
+    summary: trimmed.length > 0 ? summarizeMessages(trimmed) : null,
+    messages: recent,
+    trimmedCount: trimmed.length,
+  };
+};
@@ -0,0 +1,328 @@
+/**
+ * Deck Transfer Module
+ *
+ * Shared pieces of flashcard import/export:
+ * - A source-neutral table of imported rows (from CSV/TSV or Anki)
+ * - Column-to-field mapping, guessed from headers and editable by the user
+ * - CSV/TSV parsing and export of a deck
+ *
+ * Anki packages are read and written in ankiPackage.ts and produce the
+ * same ImportedTable shape.
+ */
+
+// CSV parsing/serialising
+import Papa from 'papaparse';
+
+import { Flashcard, FlashcardDeck } from '@/types';
+import { NewFlashcard } from '@/lib/flashcardStore';
+
+/**
+ * ImportedCardData - Card fields carried by the source itself
+ * (e.g. Anki scheduling) rather than by a mapped column
+ */
+export type ImportedCardData = Partial<
+  Pick<
+    Flashcard,
+    'interval' | 'easeFactor' | 'repetitions' | 'nextReviewDate' | 'lastReviewDate' | 'lapses' | 'createdAt'
+  >
+>;
+
+/**
+ * ImportedRow - One note/line from the imported file
+ */
+export interface ImportedRow {
+  fields: string[];              // Cell values, one per column
+  deckName?: string;             // Deck the row belonged to in the source (Anki)
+  data?: ImportedCardData;       // Scheduling data from the source
+}
+
+/**
+ * ImportedTable - Parsed file waiting for field mapping
+ */
+export interface ImportedTable {
+  source: 'csv' | 'anki';
+  name: string;                  // Suggested deck name (from the file name)
+  columns: string[];             // Column headers or generated names
+  rows: ImportedRow[];
+  warnings: string[];            // Things that could not be imported
+}
+
+/**
+ * FieldTarget - Card fields a column can be mapped onto
+ */
+export type FieldTarget =
+  | 'front'
+  | 'back'
+  | 'difficulty'
+  | 'interval'
+  | 'easeFactor'
+  | 'repetitions'
+  | 'nextReviewDate'
+  | 'lastReviewDate'
+  | 'lapses';
+
+/**
+ * FieldMapping - Column index used for each card field
+ */
+export type FieldMapping = Partial<Record<FieldTarget, number>>;
+
+/**
+ * Labels for the mapping step, in display order
+ */
+export const FIELD_TARGET_LABELS: Record<FieldTarget, string> = {
+  front: 'Front',
+  back: 'Back',
+  difficulty: 'Difficulty',
+  interval: 'Interval (days)',
+  easeFactor: 'Ease factor',
+  repetitions: 'Repetitions',
+  nextReviewDate: 'Due date',
+  lastReviewDate: 'Last review',
+  lapses: 'Lapses',
+};
+
+/**
+ * Header names recognised for each field when guessing a mapping
+ */
+const FIELD_ALIASES: Record<FieldTarget, string[]> = {
+  front: ['front', 'question', 'term', 'prompt', 'word'],
+  back: ['back', 'answer', 'definition', 'meaning', 'explanation'],
+  difficulty: ['difficulty', 'level'],
+  interval: ['interval', 'ivl'],
+  easeFactor: ['easefactor', 'ease', 'factor'],
+  repetitions: ['repetitions', 'reps'],
+  nextReviewDate: ['nextreviewdate', 'due', 'duedate', 'nextreview'],
+  lastReviewDate: ['lastreviewdate', 'lastreview', 'reviewed'],
+  lapses: ['lapses'],
+};
+
+/**
+ * Delimiters offered for CSV/TSV import and export
+ */
+export type Delimiter = ',' | '\t' | ';';
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ',': 'Comma (CSV)',
+  '\t': 'Tab (TSV)',
+  ';': 'Semicolon',
+};
+
+/**
+ * File formats a deck can be exported to
+ */
+export type ExportFormat = 'apkg' | 'csv' | 'tsv';
+
+/**
+ * Columns written by exportDeckToDelimited (and recognised on import)
+ */
+const EXPORT_COLUMNS: FieldTarget[] = [
+  'front',
+  'back',
+  'difficulty',
+  'interval',
+  'easeFactor',
+  'repetitions',
+  'nextReviewDate',
+  'lastReviewDate',
+  'lapses',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * fileBaseName - File name without its extension
+ */
+export const fileBaseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * guessMapping - Map columns to card fields by header name
+ * Falls back to the first two columns for front and back
+ *
+ * @param columns - Column headers
+ * @returns Best-guess mapping
+ */
+export const guessMapping = (columns: string[]): FieldMapping => {
+  const normalized = columns.map((c) => c.toLowerCase().replace(/[^a-z]/g, ''));
+  const mapping: FieldMapping = {};
+
+  (Object.keys(FIELD_ALIASES) as FieldTarget[]).forEach((target) => {
+    const index = normalized.findIndex((name) => FIELD_ALIASES[target].includes(name));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[target] = index;
+  });
+
+  if (mapping.front === undefined) {
+    const index = columns.findIndex((_, i) => !Object.values(mapping).includes(i));
+    if (index !== -1) mapping.front = index;
+  }
+  if (mapping.back === undefined) {
+    const index = columns.findIndex((_, i) => !Object.values(mapping).includes(i));
+    if (index !== -1) mapping.back = index;
+  }
+
+  return mapping;
+};
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseDate = (value: string | undefined): string | undefined => {
+  if (!value?.trim()) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseDifficulty = (value: string | undefined): Flashcard['difficulty'] => {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'easy' || normalized === 'hard' ? normalized : 'medium';
+};
+
+/**
+ * MappedCard - A card ready to add, with the deck it came from
+ */
+export interface MappedCard {
+  deckName?: string;
+  card: NewFlashcard;
+}
+
+/**
+ * applyMapping - Turn imported rows into cards
+ * Rows missing a front or back are skipped. Mapped scheduling columns
+ * override scheduling data carried by the source.
+ *
+ * @param table - Parsed file
+ * @param mapping - Column used for each field
+ * @returns Cards ready to add
+ */
+export const applyMapping = (table: ImportedTable, mapping: FieldMapping): MappedCard[] => {
+  const cell = (row: ImportedRow, target: FieldTarget): string | undefined => {
+    const index = mapping[target];
+    return index === undefined ? undefined : row.fields[index];
+  };
+
+  const cards: MappedCard[] = [];
+
+  for (const row of table.rows) {
+    const front = cell(row, 'front')?.trim();
+    const back = cell(row, 'back')?.trim();
+    if (!front || !back) continue;
+
+    const card: NewFlashcard = {
+      ...row.data,
+      front,
+      back,
+      difficulty: parseDifficulty(cell(row, 'difficulty')),
+    };
+
+    const interval = parseNumber(cell(row, 'interval'));
+    if (interval !== undefined) card.interval = Math.max(0, Math.round(interval));
+
+    // Anki stores ease in permille (2500 = 2.5)
+    const ease = parseNumber(cell(row, 'easeFactor'));
+    if (ease !== undefined) card.easeFactor = Math.max(1.3, ease > 100 ? ease / 1000 : ease);
+
+    const repetitions = parseNumber(cell(row, 'repetitions'));
+    if (repetitions !== undefined) card.repetitions = Math.max(0, Math.round(repetitions));
+
+    const lapses = parseNumber(cell(row, 'lapses'));
+    if (lapses !== undefined) card.lapses = Math.max(0, Math.round(lapses));
+
+    const nextReviewDate = parseDate(cell(row, 'nextReviewDate'));
+    if (nextReviewDate) card.nextReviewDate = nextReviewDate;
+
+    const lastReviewDate = parseDate(cell(row, 'lastReviewDate'));
+    if (lastReviewDate) card.lastReviewDate = lastReviewDate;
+
+    // A due date without a review history still means the card was studied
+    if (!card.lastReviewDate && nextReviewDate && (card.repetitions ?? 0) > 0) {
+      const due = new Date(nextReviewDate).getTime();
+      card.lastReviewDate = new Date(due - (card.interval ?? 0) * DAY_MS).toISOString();
+    }
+
+    cards.push({ deckName: row.deckName, card });
+  }
+
+  return cards;
+};
+
+/**
+ * parseDelimited - Parse CSV/TSV text into an ImportedTable
+ *
+ * @param text - File contents
+ * @param name - Suggested deck name
+ * @param options.delimiter - Field separator; detected when omitted
+ * @param options.hasHeader - Whether the first row holds column names
+ * @returns Parsed table and the delimiter that was used
+ */
+export const parseDelimited = (
+  text: string,
+  name: string,
+  options: { delimiter?: Delimiter; hasHeader: boolean }
+): { table: ImportedTable; delimiter: Delimiter } => {
+  const result = Papa.parse<string[]>(text.replace(/^\uFEFF/, ''), {
+    delimiter: options.delimiter ?? '',
+    skipEmptyLines: 'greedy',
+  });
+
+  const delimiter = (
+    Object.keys(DELIMITER_LABELS).includes(result.meta.delimiter) ? result.meta.delimiter : ','
+  ) as Delimiter;
+
+  // Anki's plain-text export starts with "#separator:tab" style directives
+  const data = result.data.filter((row) => !(row.length === 1 && row[0].startsWith('#')));
+  const width = Math.max(0, ...data.map((row) => row.length));
+  const header = options.hasHeader ? data[0] ?? [] : [];
+  const body = options.hasHeader ? data.slice(1) : data;
+
+  const columns = Array.from({ length: width }, (_, i) => header[i]?.trim() || `Column ${i + 1}`);
+  const warnings = result.errors
+    .filter((e) => e.code !== 'UndetectableDelimiter')
+    .slice(0, 5)
+    .map((e) => `Row ${e.row !== undefined ? e.row + 1 : '?'}: ${e.message}`);
+
+  return {
+    table: {
+      source: 'csv',
+      name,
+      columns,
+      rows: body.map((fields) => ({ fields })),
+      warnings,
+    },
+    delimiter,
+  };
+};
+
+/**
+ * exportDeckToDelimited - Serialise a deck's cards as CSV/TSV
+ * Includes scheduling columns so the file round-trips through import.
+ *
+ * @param deck - Deck to export
+ * @param delimiter - Field separator
+ * @returns File contents with a header row
+ */
+export const exportDeckToDelimited = (deck: FlashcardDeck, delimiter: Delimiter): string =>
+  Papa.unparse(
+    {
+      fields: EXPORT_COLUMNS,
+      data: deck.cards.map((card) => EXPORT_COLUMNS.map((column) => card[column] ?? '')),
+    },
+    { delimiter, newline: '\n' }
+  );
+
+/**
+ * downloadFile - Save generated content through the browser
+ *
+ * @param fileName - Suggested file name
+ * @param content - File body
+ * @param type - MIME type
+ */
+export const downloadFile = (fileName: string, content: BlobPart, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,280 @@
+/**
+ * Document Ingestion Module
+ *
+ * Extracts plain text from uploaded study material so it can be sent to
+ * the AI generators:
+ * - PDF via pdf.js (scanned pages fall back to OCR)
+ * - DOCX via mammoth
+ * - Plain text / Markdown / CSV as-is
+ * - Images via Tesseract OCR, running in the browser
+ *
+ * The parsing libraries are loaded on first use so they stay out of the
+ * main bundle.
+ */
+
+/**
+ * DocumentKind - How the text was obtained
+ */
+export type DocumentKind = 'pdf' | 'docx' | 'text' | 'image';
+
+/**
+ * ExtractedDocument - Result of ingesting one file
+ */
+export interface ExtractedDocument {
+  fileName: string;
+  kind: DocumentKind;
+  text: string;
+  pageCount?: number;            // PDFs only
+  ocrPages: number;              // Pages/images read with OCR
+  truncated: boolean;            // Text was cut to MAX_DOCUMENT_CHARS
+}
+
+/**
+ * IngestionProgress - Reported while a file is processed
+ */
+export interface IngestionProgress {
+  stage: string;                 // e.g. "Reading page 3 of 12"
+  progress: number;              // 0-1
+}
+
+/**
+ * File types accepted by the upload drop zones
+ */
+export const ACCEPTED_DOCUMENT_TYPES =
+  '.pdf,.docx,.txt,.md,.csv,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,image/*';
+
+/**
+ * Largest file accepted (bytes)
+ */
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Characters kept from a document; longer text is cut so prompts stay
+ * within the model's context
+ */
+export const MAX_DOCUMENT_CHARS = 30000;
+
+/**
+ * PDF pages read (text layer) and OCR'd (scanned pages)
+ */
+const MAX_PDF_PAGES = 100;
+const MAX_PDF_OCR_PAGES = 10;
+
+/**
+ * Pages with fewer characters than this are treated as scanned images
+ */
+const MIN_PAGE_TEXT_CHARS = 20;
+
+/**
+ * Render scale for OCR of scanned PDF pages (higher reads small print better)
+ */
+const PDF_OCR_SCALE = 2;
+
+type ProgressCallback = (progress: IngestionProgress) => void;
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv'];
+
+/**
+ * detectKind - Work out how to read a file from its type and extension
+ */
+const detectKind = (file: File): DocumentKind | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (extension === 'docx') return 'docx';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+};
+
+/**
+ * normalizeText - Collapse the whitespace extraction leaves behind
+ */
+const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// ============================================================================
+// OCR
+// ============================================================================
+
+type OcrImage = File | HTMLCanvasElement;
+
+/**
+ * runOcr - Recognise English text in images with one Tesseract worker
+ *
+ * @param images - Images or rendered pages, read in order
+ * @param onProgress - Progress callback
+ * @param label - Progress label for each image (e.g. "page 4")
+ * @returns Recognised text per image
+ */
+const runOcr = async (
+  images: OcrImage[],
+  onProgress: ProgressCallback | undefined,
+  label: (index: number) => string
+): Promise<string[]> => {
+  const { createWorker } = await import('tesseract.js');
+  let current = 0;
+
+  const worker = await createWorker('eng', undefined, {
+    logger: (message) => {
+      if (message.status === 'recognizing text') {
+        onProgress?.({
+          stage: `Recognising text in ${label(current)}`,
+          progress: (current + message.progress) / images.length,
+        });
+      }
+    },
+  });
+
+  try {
+    const texts: string[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      texts.push(data.text);
+      current += 1;
+    }
+    return texts;
+  } finally {
+    await worker.terminate();
+  }
+};
+
+// ============================================================================
+// READERS
+// ============================================================================
+
+/**
+ * readPdf - Text layer of each page, OCR for pages without one
+ */
+const readPdf = async (
+  file: File,
+  onProgress?: ProgressCallback
+): Promise<{ text: string; pageCount: number; ocrPages: number }> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    const pages: string[] = [];
+    const scanned: number[] = [];
+
+    for (let number = 1; number <= pageCount; number++) {
+      onProgress?.({ stage: `Reading page ${number} of ${pageCount}`, progress: number / pageCount });
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('');
+      pages.push(text);
+      if (text.trim().length < MIN_PAGE_TEXT_CHARS) scanned.push(number);
+    }
+
+    // Render scanned pages and OCR them
+    const ocrTargets = scanned.slice(0, MAX_PDF_OCR_PAGES);
+    if (ocrTargets.length > 0) {
+      const canvases: HTMLCanvasElement[] = [];
+      for (const number of ocrTargets) {
+        const page = await pdf.getPage(number);
+        const viewport = page.getViewport({ scale: PDF_OCR_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        const context = canvas.getContext('2d');
+        if (!context) continue;
+        await page.render({ canvasContext: context, viewport }).promise;
+        canvases.push(canvas);
+      }
+
+      const texts = await runOcr(canvases, onProgress, (i) => `page ${ocrTargets[i]}`);
+      texts.forEach((text, i) => {
+        pages[ocrTargets[i] - 1] = text;
+      });
+    }
+
+    return { text: pages.join('\n\n'), pageCount: pdf.numPages, ocrPages: ocrTargets.length };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * readDocx - Raw text of a Word document
+ */
+const readDocx = async (file: File): Promise<string> => {
+  const { default: mammoth } = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * extractDocumentText - Read the text out of an uploaded file
+ *
+ * @param file - PDF, DOCX, text or image file
+ * @param onProgress - Optional progress callback for long files/OCR
+ * @returns Extracted text and how it was obtained
+ * @throws Error if the file type is unsupported, too large or has no text
+ */
+export const extractDocumentText = async (
+  file: File,
+  onProgress?: ProgressCallback
+): Promise<ExtractedDocument> => {
+  const kind = detectKind(file);
+  if (!kind) {
+    throw new Error(`${file.name} is not a supported file. Upload a PDF, DOCX, text file or image.`);
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_SIZE / 1024 / 1024} MB.`);
+  }
+
+  let raw = '';
+  let pageCount: number | undefined;
+  let ocrPages = 0;
+
+  switch (kind) {
+    case 'pdf': {
+      const result = await readPdf(file, onProgress);
+      raw = result.text;
+      pageCount = result.pageCount;
+      ocrPages = result.ocrPages;
+      break;
+    }
+    case 'docx':
+      onProgress?.({ stage: 'Reading document', progress: 0.5 });
+      raw = await readDocx(file);
+      break;
+    case 'image':
+      [raw] = await runOcr([file], onProgress, () => 'image');
+      ocrPages = 1;
+      break;
+    case 'text':
+      raw = await file.text();
+      break;
+  }
+
+  const text = normalizeText(raw);
+  if (!text) {
+    throw new Error(`No readable text was found in ${file.name}.`);
+  }
+
+  return {
+    fileName: file.name,
+    kind,
+    text: text.slice(0, MAX_DOCUMENT_CHARS),
+    pageCount,
+    ocrPages,
+    truncated: text.length > MAX_DOCUMENT_CHARS,
+  };
+};
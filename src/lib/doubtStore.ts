@@ -0,0 +1,389 @@
+/**
+ * Doubt Session Store Module - Zustand State Management
+ *
+ * This module keeps the Doubt Solver's saved conversations:
+ * - Local-first storage so past explanations are available offline
+ * - Session titles taken from the first question, rename and pin
+ * - Full-text search across every saved session
+ * - Two-way sync with Supabase when the user is signed in
+ *
+ * Uses Zustand with persist middleware for localStorage persistence;
+ * changes that would overflow it are undone (see storageQuota.ts)
+ */
+
+// Zustand - lightweight state management library
+import { create } from 'zustand';
+
+// Persist middleware - automatically saves state to localStorage
+import { persist } from 'zustand/middleware';
+
+// Type definitions for doubt sessions
+import { DoubtMessage, DoubtSession } from '@/types';
+
+// Supabase sync helpers
+import { getSyncUserId } from '@/lib/flashcardSync';
+import { fetchRemoteDoubtSessions, pushDoubtSessionChanges } from '@/lib/doubtSync';
+
+// Last-write-wins merge shared with other synced stores
+import { isNewer, mergeById } from '@/lib/syncMerge';
+
+// Undo changes that do not fit in localStorage
+import { guardStorageQuota } from '@/lib/storageQuota';
+
+/**
+ * Longest auto-generated session title (characters)
+ */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Characters of context shown either side of a search match
+ */
+const SNIPPET_CONTEXT_CHARS = 40;
+
+/**
+ * createId - Generates a unique id for sessions
+ */
+const createId = (): string => `doubt-${crypto.randomUUID()}`;
+
+/**
+ * titleFromMessage - Session title from the first question
+ *
+ * @param message - First message of the session
+ * @returns First line of the question, shortened
+ */
+export const titleFromMessage = (message: DoubtMessage): string => {
+  const line = (message.content || message.solution || '').split('\n').find((l) => l.trim())?.trim() ?? '';
+  if (!line) return message.image ? 'Photo of a problem' : 'New session';
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH).trimEnd()}...` : line;
+};
+
+/**
+ * sortSessions - Pinned sessions first, then most recently active
+ */
+export const sortSessions = (sessions: DoubtSession[]): DoubtSession[] =>
+  [...sessions].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return (b.updatedAt ?? b.createdAt).localeCompare(a.updatedAt ?? a.createdAt);
+  });
+
+/**
+ * DoubtSessionMatch - A session found by search
+ */
+export interface DoubtSessionMatch {
+  session: DoubtSession;
+  snippet?: string;              // Message text around the match (title matches have none)
+}
+
+/**
+ * searchSessions - Find sessions whose title or messages contain the query
+ *
+ * @param sessions - Sessions to search
+ * @param query - Text to look for (case-insensitive)
+ * @returns Matching sessions in list order, with a snippet of the match
+ */
+export const searchSessions = (sessions: DoubtSession[], query: string): DoubtSessionMatch[] => {
+  const needle = query.trim().toLowerCase();
+  const sorted = sortSessions(sessions);
+  if (!needle) return sorted.map((session) => ({ session }));
+
+  const matches: DoubtSessionMatch[] = [];
+  for (const session of sorted) {
+    if (session.title.toLowerCase().includes(needle)) {
+      matches.push({ session });
+      continue;
+    }
+
+    for (const message of session.messages) {
+      const text = [message.content, message.solution].filter(Boolean).join(' ').replace(/\s+/g, ' ');
+      const index = text.toLowerCase().indexOf(needle);
+      if (index === -1) continue;
+
+      const start = Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+      const end = Math.min(text.length, index + needle.length + SNIPPET_CONTEXT_CHARS);
+      matches.push({
+        session,
+        snippet: `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`,
+      });
+      break;
+    }
+  }
+  return matches;
+};
+
+/**
+ * DoubtState Interface
+ * Defines the shape of all doubt session state and actions available
+ */
+interface DoubtState {
+  // Saved sessions, each holding its messages
+  sessions: DoubtSession[];
+
+  // Session open in the Doubt Solver (null for a new, unsaved chat)
+  activeSessionId: string | null;
+
+  // Ids removed locally that still need to be deleted remotely
+  deletedSessionIds: string[];
+
+  // When the last successful sync finished (ISO 8601)
+  lastSyncedAt: string | null;
+
+  // Whether a sync is currently running (not persisted)
+  isSyncing: boolean;
+
+  /**
+   * Start a session from its first message and open it
+   */
+  createSession: (firstMessage: DoubtMessage) => DoubtSession;
+
+  /**
+   * Open a saved session, or null for a new chat
+   */
+  setActiveSession: (sessionId: string | null) => void;
+
+  /**
+   * Append a message to a session
+   */
+  addMessage: (sessionId: string, message: DoubtMessage) => void;
+
+  /**
+   * Remove a message from a session (e.g. an answer being regenerated)
+   */
+  removeMessage: (sessionId: string, messageId: string) => void;
+
+  /**
+   * Rename a session
+   */
+  renameSession: (sessionId: string, title: string) => void;
+
+  /**
+   * Pin or unpin a session
+   */
+  togglePinned: (sessionId: string) => void;
+
+  /**
+   * Delete a session and its messages
+   */
+  deleteSession: (sessionId: string) => void;
+
+  /**
+   * Check whether there are local changes not yet synced
+   */
+  hasPendingChanges: () => boolean;
+
+  /**
+   * Sync local sessions with Supabase
+   * No-op when signed out; local data is kept either way
+   */
+  sync: () => Promise<void>;
+
+  /**
+   * Clear all local sessions (called on logout)
+   */
+  reset: () => void;
+}
+
+/**
+ * useDoubtStore - Doubt session state hook
+ * Created with Zustand, persisted to localStorage under 'graspify-doubt-storage'
+ */
+export const useDoubtStore = create<DoubtState>()(
+  persist(
+    guardStorageQuota((set, get) => ({
+      sessions: [],
+      activeSessionId: null,
+      deletedSessionIds: [],
+      lastSyncedAt: null,
+      isSyncing: false,
+
+      /**
+       * createSession - Save a new session titled after its first question
+       *
+       * @param firstMessage - The student's opening message
+       * @returns The created session
+       */
+      createSession: (firstMessage) => {
+        const now = new Date().toISOString();
+        const session: DoubtSession = {
+          id: createId(),
+          title: titleFromMessage(firstMessage),
+          messages: [firstMessage],
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({ sessions: [...state.sessions, session], activeSessionId: session.id }));
+        return session;
+      },
+
+      /**
+       * setActiveSession - Choose which session the page shows
+       *
+       * @param sessionId - Session to open, or null for a new chat
+       */
+      setActiveSession: (sessionId) => set({ activeSessionId: sessionId }),
+
+      /**
+       * addMessage - Append a message and bump the session's timestamp
+       *
+       * @param sessionId - Session the message belongs to
+       * @param message - Message to append
+       */
+      addMessage: (sessionId, message) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId ? { ...s, messages: [...s.messages, message], updatedAt: now } : s
+          ),
+        }));
+      },
+
+      /**
+       * removeMessage - Drop one message and bump the session's timestamp
+       *
+       * @param sessionId - Session holding the message
+       * @param messageId - Message to remove
+       */
+      removeMessage: (sessionId, messageId) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId
+              ? { ...s, messages: s.messages.filter((m) => m.id !== messageId), updatedAt: now }
+              : s
+          ),
+        }));
+      },
+
+      /**
+       * renameSession - Change a session's title
+       *
+       * @param sessionId - Session to rename
+       * @param title - New title (ignored when blank)
+       */
+      renameSession: (sessionId, title) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+
+        const now = new Date().toISOString();
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId ? { ...s, title: trimmed, updatedAt: now } : s
+          ),
+        }));
+      },
+
+      /**
+       * togglePinned - Pin a session to the top of the list, or unpin it
+       *
+       * @param sessionId - Session to pin or unpin
+       */
+      togglePinned: (sessionId) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId ? { ...s, pinned: !s.pinned, updatedAt: now } : s
+          ),
+        }));
+      },
+
+      /**
+       * deleteSession - Remove a session
+       * The id is remembered so the next sync deletes it remotely
+       *
+       * @param sessionId - Session to delete
+       */
+      deleteSession: (sessionId) => {
+        if (!get().sessions.some((s) => s.id === sessionId)) return;
+
+        set((state) => ({
+          sessions: state.sessions.filter((s) => s.id !== sessionId),
+          deletedSessionIds: [...state.deletedSessionIds, sessionId],
+          activeSessionId: state.activeSessionId === sessionId ? null : state.activeSessionId,
+        }));
+      },
+
+      /**
+       * hasPendingChanges - Check for unsynced edits or deletions
+       *
+       * @returns True if a sync would push something
+       */
+      hasPendingChanges: () => {
+        const { sessions, deletedSessionIds, lastSyncedAt } = get();
+        if (deletedSessionIds.length > 0) return true;
+        if (!lastSyncedAt) return sessions.length > 0;
+        return sessions.some((s) => isNewer(s.updatedAt, lastSyncedAt));
+      },
+
+      /**
+       * sync - Two-way merge with Supabase (last write wins per session)
+       * Follows the same rules as the flashcard store's sync
+       */
+      sync: async () => {
+        if (get().isSyncing) return;
+
+        const userId = await getSyncUserId();
+        if (!userId) return;
+
+        const startedAt = new Date().toISOString();
+        set({ isSyncing: true });
+
+        try {
+          const { deletedSessionIds, lastSyncedAt } = get();
+
+          await pushDoubtSessionChanges(userId, { sessions: [], deletedSessionIds });
+
+          const remote = await fetchRemoteDoubtSessions(userId);
+          const { merged, toPush } = mergeById(get().sessions, remote, deletedSessionIds, lastSyncedAt);
+
+          await pushDoubtSessionChanges(userId, { sessions: toPush, deletedSessionIds: [] });
+
+          set((state) => {
+            // Keep anything edited locally while the sync was in flight
+            const final = new Map(merged.map((s) => [s.id, s]));
+            state.sessions
+              .filter((s) => isNewer(s.updatedAt, startedAt))
+              .forEach((s) => final.set(s.id, s));
+            const sessions = Array.from(final.values());
+
+            return {
+              sessions,
+              deletedSessionIds: state.deletedSessionIds.filter((id) => !deletedSessionIds.includes(id)),
+              activeSessionId: sessions.some((s) => s.id === state.activeSessionId)
+                ? state.activeSessionId
+                : null,
+              lastSyncedAt: startedAt,
+            };
+          });
+        } catch (error) {
+          // Keep local data and pending changes; the next sync will retry
+          console.error('Error syncing doubt sessions:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+
+      /**
+       * reset - Clear local sessions and sync bookkeeping
+       * Prevents one account's sessions from being pushed into another
+       */
+      reset: () => {
+        set({
+          sessions: [],
+          activeSessionId: null,
+          deletedSessionIds: [],
+          lastSyncedAt: null,
+        });
+      },
+    })),
+    {
+      // Persist configuration - saves state to browser localStorage
+      name: 'graspify-doubt-storage',
+      partialize: (state) => ({
+        sessions: state.sessions,
+        activeSessionId: state.activeSessionId,
+        deletedSessionIds: state.deletedSessionIds,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
@@ -0,0 +1,95 @@
+/**
+ * Doubt Session Sync Module
+ *
+ * Bridges the local doubt session store and the Supabase `doubt_sessions`
+ * table:
+ * - Maps between app types (camelCase) and database rows (snake_case)
+ * - Pulls the signed-in user's sessions
+ * - Pushes local changes and pending deletions
+ *
+ * Messages are stored as a JSON array on the session row.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { fetchAllPages } from '@/lib/syncMerge';
+import { DoubtMessage, DoubtSession } from '@/types';
+
+/**
+ * Row shape of the `doubt_sessions` table
+ */
+interface DoubtSessionRow {
+  id: string;
+  user_id: string;
+  title: string;
+  pinned: boolean;
+  messages: DoubtMessage[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Local changes to send to Supabase
+ */
+export interface DoubtSessionChanges {
+  sessions: DoubtSession[];      // Sessions to upsert
+  deletedSessionIds: string[];   // Sessions removed locally since last sync
+}
+
+const sessionToRow = (session: DoubtSession, userId: string): DoubtSessionRow => ({
+  id: session.id,
+  user_id: userId,
+  title: session.title,
+  pinned: session.pinned ?? false,
+  messages: session.messages,
+  created_at: session.createdAt,
+  updated_at: session.updatedAt ?? session.createdAt,
+});
+
+const rowToSession = (row: DoubtSessionRow): DoubtSession => ({
+  id: row.id,
+  title: row.title,
+  pinned: row.pinned,
+  messages: row.messages ?? [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * fetchRemoteDoubtSessions - Loads every session owned by the user
+ *
+ * @param userId - Supabase auth user id
+ * @returns Sessions with their messages
+ */
+export const fetchRemoteDoubtSessions = async (userId: string): Promise<DoubtSession[]> => {
+  const rows = await fetchAllPages<DoubtSessionRow>((from, to) =>
+    supabase.from('doubt_sessions').select('*').eq('user_id', userId).order('id').range(from, to)
+  );
+  return rows.map(rowToSession);
+};
+
+/**
+ * pushDoubtSessionChanges - Writes local changes to Supabase
+ *
+ * @param userId - Supabase auth user id
+ * @param changes - Sessions to upsert and ids to delete
+ */
+export const pushDoubtSessionChanges = async (
+  userId: string,
+  changes: DoubtSessionChanges
+): Promise<void> => {
+  if (changes.deletedSessionIds.length > 0) {
+    const { error } = await supabase
+      .from('doubt_sessions')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', changes.deletedSessionIds);
+    if (error) throw error;
+  }
+
+  if (changes.sessions.length > 0) {
+    const { error } = await supabase
+      .from('doubt_sessions')
+      .upsert(changes.sessions.map((s) => sessionToRow(s, userId)), { onConflict: 'user_id,id' });
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,650 @@
+/**
+ * Flashcard Store Module - Zustand State Management
+ *
+ * This module manages all flashcard decks and cards:
+ * - Local-first storage that keeps working offline
+ * - Card creation and spaced repetition updates (see scheduler.ts)
+ * - Two-way sync with Supabase when the user is signed in
+ *
+ * Uses Zustand with persist middleware for localStorage persistence;
+ * changes that would overflow it are undone (see storageQuota.ts)
+ */
+
+// Zustand - lightweight state management library
+import { create } from 'zustand';
+
+// Persist middleware - automatically saves state to localStorage
+import { persist } from 'zustand/middleware';
+
+// Type definitions for flashcard entities
+import { Flashcard, FlashcardDeck } from '@/types';
+
+// Supabase sync helpers
+import { fetchRemoteFlashcards, getSyncUserId, pushFlashcardChanges } from '@/lib/flashcardSync';
+
+// Review queue helpers
+import { getTodayKey, isDue, isNewCard, StudiedToday } from '@/lib/reviewQueue';
+
+// Spaced repetition algorithms
+import { BUTTON_QUALITY, DEFAULT_ALGORITHM, ReviewQuality, schedule } from '@/lib/scheduler';
+
+// Last-write-wins merge shared with other synced stores
+import { isNewer, mergeById } from '@/lib/syncMerge';
+
+// Undo changes that do not fit in localStorage
+import { guardStorageQuota } from '@/lib/storageQuota';
+
+/**
+ * DEFAULT_DECK_NAME - Deck used when cards are added without choosing one
+ */
+export const DEFAULT_DECK_NAME = 'My Flashcards';
+
+/**
+ * MISTAKES_DECK_NAME - Deck that collects questions missed in quizzes
+ */
+export const MISTAKES_DECK_NAME = 'Mistakes';
+
+/**
+ * NewFlashcard - Fields needed to create a card
+ * Spaced repetition fields are optional and default to a brand-new card
+ */
+export type NewFlashcard = Pick<Flashcard, 'front' | 'back' | 'difficulty'> &
+  Partial<Omit<Flashcard, 'id' | 'deckId' | 'front' | 'back' | 'difficulty'>>;
+
+/**
+ * DeckDetails - Editable deck fields besides the name
+ */
+export type DeckDetails = Partial<
+  Pick<FlashcardDeck, 'description' | 'newCardsPerDay' | 'reviewsPerDay' | 'algorithm'>
+>;
+
+/**
+ * createId - Generates a unique id for decks and cards
+ */
+const createId = (prefix: string): string => `${prefix}-${crypto.randomUUID()}`;
+
+/**
+ * DeckCounts - Review counts derived from a deck's SM-2 fields
+ */
+export interface DeckCounts {
+  total: number;     // All cards in the deck
+  new: number;       // Never reviewed
+  learning: number;  // Reviewed but not yet past the fixed SM-2 intervals
+  due: number;       // Reviewed cards whose next review date has passed
+}
+
+/**
+ * getDeckCounts - Count new, learning and due cards
+ *
+ * @param cards - Cards to count
+ * @param now - Reference time (defaults to current time)
+ * @returns Counts for deck badges
+ */
+export const getDeckCounts = (cards: Flashcard[], now: Date = new Date()): DeckCounts => {
+  const counts: DeckCounts = { total: cards.length, new: 0, learning: 0, due: 0 };
+
+  for (const card of cards) {
+    if (isNewCard(card)) {
+      counts.new += 1;
+      continue;
+    }
+    if (card.repetitions < 2) counts.learning += 1;
+    if (isDue(card, now)) counts.due += 1;
+  }
+
+  return counts;
+};
+
+/**
+ * FlashcardState Interface
+ * Defines the shape of all flashcard state and actions available
+ */
+interface FlashcardState {
+  // All decks, each holding its own cards
+  decks: FlashcardDeck[];
+
+  // Ids removed locally that still need to be deleted remotely
+  deletedDeckIds: string[];
+  deletedCardIds: string[];
+
+  // When the last successful sync finished (ISO 8601)
+  lastSyncedAt: string | null;
+
+  // Cards studied today per deck, for daily limits (local only)
+  studyLog: { date: string; decks: StudiedToday };
+
+  // Whether a sync is currently running (not persisted)
+  isSyncing: boolean;
+
+  /**
+   * Get every card across all decks
+   */
+  getAllCards: () => Flashcard[];
+
+  /**
+   * Create a new empty deck
+   */
+  createDeck: (name: string, details?: DeckDetails) => FlashcardDeck;
+
+  /**
+   * Get the id of the deck with this name, creating it if needed
+   */
+  ensureDeck: (name: string) => string;
+
+  /**
+   * Get the id of the default deck, creating it if needed
+   */
+  ensureDefaultDeck: () => string;
+
+  /**
+   * Rename a deck or change its description
+   */
+  updateDeck: (deckId: string, updates: DeckDetails & { name?: string }) => void;
+
+  /**
+   * Delete a deck together with its cards
+   */
+  deleteDeck: (deckId: string) => void;
+
+  /**
+   * Move cards into another deck
+   */
+  moveCards: (cardIds: string[], targetDeckId: string) => void;
+
+  /**
+   * Merge source decks into a target deck, deleting the sources
+   */
+  mergeDecks: (sourceDeckIds: string[], targetDeckId: string) => void;
+
+  /**
+   * Split selected cards out of a deck into a new deck
+   */
+  splitDeck: (deckId: string, cardIds: string[], name: string, details?: DeckDetails) => FlashcardDeck;
+
+  /**
+   * Add new cards to a deck
+   * Fills in spaced repetition defaults for fields not provided
+   */
+  addCards: (deckId: string, cards: NewFlashcard[]) => Flashcard[];
+
+  /**
+   * Add cards for missed quiz questions to the Mistakes deck
+   * Cards already in the deck are rescheduled as a lapse instead
+   */
+  addMistakeCards: (cards: NewFlashcard[], now?: Date) => Flashcard[];
+
+  /**
+   * Update a single card (e.g. after a review)
+   */
+  updateCard: (cardId: string, updates: Partial<Omit<Flashcard, 'id'>>) => void;
+
+  /**
+   * Delete cards from whichever decks hold them
+   */
+  deleteCards: (cardIds: string[]) => void;
+
+  /**
+   * Apply a review to a card using its deck's algorithm
+   */
+  reviewCard: (cardId: string, quality: ReviewQuality, now?: Date) => Flashcard | null;
+
+  /**
+   * Count a review toward the deck's daily limits
+   */
+  recordReview: (deckId: string, wasNew: boolean) => void;
+
+  /**
+   * Get today's per-deck study counts (empty after midnight)
+   */
+  getStudiedToday: () => StudiedToday;
+
+  /**
+   * Check whether there are local changes not yet synced
+   */
+  hasPendingChanges: () => boolean;
+
+  /**
+   * Sync local decks and cards with Supabase
+   * No-op when signed out; local data is kept either way
+   */
+  sync: () => Promise<void>;
+
+  /**
+   * Clear all local flashcard data (called on logout)
+   */
+  reset: () => void;
+}
+
+/**
+ * useFlashcardStore - Flashcard state hook
+ * Created with Zustand, persisted to localStorage under 'graspify-flashcard-storage'
+ */
+export const useFlashcardStore = create<FlashcardState>()(
+  persist(
+    guardStorageQuota((set, get) => ({
+      decks: [],
+      deletedDeckIds: [],
+      deletedCardIds: [],
+      lastSyncedAt: null,
+      studyLog: { date: getTodayKey(), decks: {} },
+      isSyncing: false,
+
+      /**
+       * getAllCards - Flatten cards from every deck
+       *
+       * @returns All cards the user owns
+       */
+      getAllCards: () => get().decks.flatMap((d) => d.cards),
+
+      /**
+       * createDeck - Create a new empty deck
+       *
+       * @param name - Deck name
+       * @param details - Optional description and daily limits
+       * @returns The created deck
+       */
+      createDeck: (name, details) => {
+        const now = new Date().toISOString();
+        const deck: FlashcardDeck = {
+          id: createId('deck'),
+          name,
+          ...details,
+          cards: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({ decks: [...state.decks, deck] }));
+        return deck;
+      },
+
+      /**
+       * ensureDeck - Find a deck by name or create it
+       *
+       * @param name - Deck name
+       * @returns Id of the deck
+       */
+      ensureDeck: (name) => {
+        const existing = get().decks.find((d) => d.name === name);
+        if (existing) return existing.id;
+        return get().createDeck(name).id;
+      },
+
+      /**
+       * ensureDefaultDeck - Find or create the default deck
+       *
+       * @returns Id of the default deck
+       */
+      ensureDefaultDeck: () => get().ensureDeck(DEFAULT_DECK_NAME),
+
+      /**
+       * updateDeck - Rename a deck or change its description/limits
+       *
+       * @param deckId - Deck to update
+       * @param updates - New name, description or daily limits
+       */
+      updateDeck: (deckId, updates) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          decks: state.decks.map((d) => (d.id === deckId ? { ...d, ...updates, updatedAt: now } : d)),
+        }));
+      },
+
+      /**
+       * deleteDeck - Remove a deck and its cards
+       * Ids are remembered so the next sync deletes them remotely
+       *
+       * @param deckId - Deck to delete
+       */
+      deleteDeck: (deckId) => {
+        const deck = get().decks.find((d) => d.id === deckId);
+        if (!deck) return;
+
+        set((state) => ({
+          decks: state.decks.filter((d) => d.id !== deckId),
+          deletedDeckIds: [...state.deletedDeckIds, deckId],
+          deletedCardIds: [...state.deletedCardIds, ...deck.cards.map((c) => c.id)],
+        }));
+      },
+
+      /**
+       * moveCards - Move cards between decks
+       *
+       * @param cardIds - Cards to move (from any deck)
+       * @param targetDeckId - Destination deck
+       */
+      moveCards: (cardIds, targetDeckId) => {
+        const now = new Date().toISOString();
+        const ids = new Set(cardIds);
+        const moving = get()
+          .decks.flatMap((d) => d.cards)
+          .filter((c) => ids.has(c.id) && c.deckId !== targetDeckId)
+          .map((c) => ({ ...c, deckId: targetDeckId, updatedAt: now }));
+        if (moving.length === 0) return;
+
+        const movingIds = new Set(moving.map((c) => c.id));
+        set((state) => ({
+          decks: state.decks.map((d) =>
+            d.id === targetDeckId
+              ? { ...d, cards: [...d.cards, ...moving], updatedAt: now }
+              : d.cards.some((c) => movingIds.has(c.id))
+              ? { ...d, cards: d.cards.filter((c) => !movingIds.has(c.id)), updatedAt: now }
+              : d
+          ),
+        }));
+      },
+
+      /**
+       * mergeDecks - Move every card from the source decks into the target
+       *
+       * @param sourceDeckIds - Decks to merge away
+       * @param targetDeckId - Deck that receives the cards
+       */
+      mergeDecks: (sourceDeckIds, targetDeckId) => {
+        const sources = sourceDeckIds.filter((id) => id !== targetDeckId);
+        const cardIds = get()
+          .decks.filter((d) => sources.includes(d.id))
+          .flatMap((d) => d.cards.map((c) => c.id));
+
+        get().moveCards(cardIds, targetDeckId);
+
+        // Sources are empty now, so deleting them removes no cards
+        sources.forEach((id) => get().deleteDeck(id));
+      },
+
+      /**
+       * splitDeck - Move selected cards into a newly created deck
+       *
+       * @param deckId - Deck being split
+       * @param cardIds - Cards that go to the new deck
+       * @param name - Name for the new deck
+       * @param details - Optional description and limits for the new deck
+       * @returns The new deck
+       */
+      splitDeck: (deckId, cardIds, name, details) => {
+        const deck = get().createDeck(name, details);
+        const inSource = new Set(get().decks.find((d) => d.id === deckId)?.cards.map((c) => c.id));
+        get().moveCards(cardIds.filter((id) => inSource.has(id)), deck.id);
+        return get().decks.find((d) => d.id === deck.id) ?? deck;
+      },
+
+      /**
+       * addCards - Add cards to a deck
+       *
+       * @param deckId - Target deck id
+       * @param cards - Card content, optionally with scheduling data
+       * @returns The created cards
+       */
+      addCards: (deckId, cards) => {
+        const now = new Date().toISOString();
+        const created: Flashcard[] = cards.map((card) => ({
+          interval: 0,
+          easeFactor: 2.5,
+          repetitions: 0,
+          nextReviewDate: now,
+          createdAt: now,
+          ...card,
+          id: createId('card'),
+          deckId,
+          updatedAt: now,
+        }));
+
+        set((state) => ({
+          decks: state.decks.map((d) =>
+            d.id === deckId ? { ...d, cards: [...d.cards, ...created], updatedAt: now } : d
+          ),
+        }));
+
+        return created;
+      },
+
+      /**
+       * addMistakeCards - Add missed quiz questions to the Mistakes deck
+       * A question missed again is not duplicated; its card is reviewed as
+       * "again" (a lapse) so it comes back soon instead of keeping a long interval.
+       *
+       * @param cards - Card content for each missed question
+       * @returns The cards that were added or rescheduled
+       */
+      addMistakeCards: (cards, now = new Date()) => {
+        const deckId = get().ensureDeck(MISTAKES_DECK_NAME);
+        const existing = new Map(get().decks.find((d) => d.id === deckId)?.cards.map((c) => [c.front, c]));
+        const unique = cards.filter((card, index) => cards.findIndex((c) => c.front === card.front) === index);
+
+        // Cards not yet learned or already due come up anyway
+        const relapsed = unique
+          .map((card) => existing.get(card.front))
+          .filter((card) => card && !isNewCard(card) && !isDue(card, now))
+          .map((card) => get().reviewCard(card.id, BUTTON_QUALITY.again, now))
+          .filter((card): card is Flashcard => card !== null);
+
+        const fresh = unique.filter((card) => !existing.has(card.front));
+        return [...(fresh.length > 0 ? get().addCards(deckId, fresh) : []), ...relapsed];
+      },
+
+      /**
+       * updateCard - Update a card in whichever deck holds it
+       *
+       * @param cardId - Card to update
+       * @param updates - Fields to change
+       */
+      updateCard: (cardId, updates) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          // The deck is touched too, so a deck deleted on another device is
+          // restored rather than leaving this card without a deck
+          decks: state.decks.map((d) =>
+            d.cards.some((c) => c.id === cardId)
+              ? {
+                  ...d,
+                  cards: d.cards.map((c) => (c.id === cardId ? { ...c, ...updates, updatedAt: now } : c)),
+                  updatedAt: now,
+                }
+              : d
+          ),
+        }));
+      },
+
+      /**
+       * deleteCards - Remove cards
+       * Ids are remembered so the next sync deletes them remotely
+       *
+       * @param cardIds - Cards to delete
+       */
+      deleteCards: (cardIds) => {
+        const now = new Date().toISOString();
+        const ids = new Set(cardIds);
+        const existing = get()
+          .decks.flatMap((d) => d.cards)
+          .filter((c) => ids.has(c.id));
+        if (existing.length === 0) return;
+
+        set((state) => ({
+          decks: state.decks.map((d) =>
+            d.cards.some((c) => ids.has(c.id))
+              ? { ...d, cards: d.cards.filter((c) => !ids.has(c.id)), updatedAt: now }
+              : d
+          ),
+          deletedCardIds: [...state.deletedCardIds, ...existing.map((c) => c.id)],
+        }));
+      },
+
+      /**
+       * reviewCard - Reschedule a card after it was answered
+       *
+       * @param cardId - Card that was reviewed
+       * @param quality - SM-2 answer quality (0-5)
+       * @param now - Time of the review (defaults to now)
+       * @returns The updated card, or null if it no longer exists
+       */
+      reviewCard: (cardId, quality, now = new Date()) => {
+        const deck = get().decks.find((d) => d.cards.some((c) => c.id === cardId));
+        const card = deck?.cards.find((c) => c.id === cardId);
+        if (!deck || !card) return null;
+
+        const { id, ...updated } = schedule(card, quality, now, deck.algorithm ?? DEFAULT_ALGORITHM);
+        get().updateCard(id, updated);
+        return { ...updated, id };
+      },
+
+      /**
+       * recordReview - Count a studied card for today's limits
+       *
+       * @param deckId - Deck the card belongs to
+       * @param wasNew - Whether this was the card's first review
+       */
+      recordReview: (deckId, wasNew) => {
+        const today = getTodayKey();
+        set((state) => {
+          const decks = state.studyLog.date === today ? state.studyLog.decks : {};
+          const counts = decks[deckId] ?? { newCards: 0, reviews: 0 };
+          return {
+            studyLog: {
+              date: today,
+              decks: {
+                ...decks,
+                [deckId]: wasNew
+                  ? { ...counts, newCards: counts.newCards + 1 }
+                  : { ...counts, reviews: counts.reviews + 1 },
+              },
+            },
+          };
+        });
+      },
+
+      /**
+       * getStudiedToday - Today's per-deck counts
+       *
+       * @returns Counts keyed by deck id
+       */
+      getStudiedToday: () => {
+        const { studyLog } = get();
+        return studyLog.date === getTodayKey() ? studyLog.decks : {};
+      },
+
+      /**
+       * hasPendingChanges - Check for unsynced edits or deletions
+       *
+       * @returns True if a sync would push something
+       */
+      hasPendingChanges: () => {
+        const { decks, deletedDeckIds, deletedCardIds, lastSyncedAt } = get();
+        if (deletedDeckIds.length > 0 || deletedCardIds.length > 0) return true;
+        if (!lastSyncedAt) return decks.length > 0;
+        return decks.some(
+          (d) => isNewer(d.updatedAt, lastSyncedAt) || d.cards.some((c) => isNewer(c.updatedAt, lastSyncedAt))
+        );
+      },
+
+      /**
+       * sync - Two-way merge with Supabase (last write wins per deck/card)
+       *
+       * - Pending local deletions are pushed first
+       * - Items only present remotely are pulled in
+       * - Items only present locally are pushed if changed since the last
+       *   sync, otherwise they were deleted on another device and are dropped
+       * - Items present on both sides keep whichever copy is newer
+       * - Cards whose deck was deleted on another device are dropped
+       */
+      sync: async () => {
+        if (get().isSyncing) return;
+
+        const userId = await getSyncUserId();
+        if (!userId) return;
+
+        const startedAt = new Date().toISOString();
+        set({ isSyncing: true });
+
+        try {
+          const { deletedDeckIds, deletedCardIds, lastSyncedAt } = get();
+
+          await pushFlashcardChanges(userId, {
+            decks: [],
+            cards: [],
+            deletedDeckIds,
+            deletedCardIds,
+          });
+
+          const remote = await fetchRemoteFlashcards(userId);
+          const local = get().decks;
+
+          const decks = mergeById(
+            local.map(({ cards, ...deck }) => deck),
+            remote.decks.map(({ cards, ...deck }) => deck),
+            deletedDeckIds,
+            lastSyncedAt
+          );
+          const cards = mergeById(
+            local.flatMap((d) => d.cards),
+            remote.decks.flatMap((d) => d.cards),
+            deletedCardIds,
+            lastSyncedAt
+          );
+
+          // Cards whose deck was deleted on another device go with it
+          const deckIds = new Set(decks.merged.map((d) => d.id));
+          await pushFlashcardChanges(userId, {
+            decks: decks.toPush.map((d) => ({ ...d, cards: [] })),
+            cards: cards.toPush.filter((c) => deckIds.has(c.deckId)),
+            deletedDeckIds: [],
+            deletedCardIds: [],
+          });
+
+          set((state) => {
+            // Keep anything edited locally while the sync was in flight
+            const current = state.decks;
+            const editedDecks = current.filter((d) => isNewer(d.updatedAt, startedAt));
+            const editedCards = current
+              .flatMap((d) => d.cards)
+              .filter((c) => isNewer(c.updatedAt, startedAt));
+
+            const finalDecks = new Map(decks.merged.map((d) => [d.id, d]));
+            editedDecks.forEach(({ cards: _cards, ...d }) => finalDecks.set(d.id, d));
+            const finalCards = new Map(cards.merged.map((c) => [c.id, c]));
+            editedCards.forEach((c) => finalCards.set(c.id, c));
+
+            return {
+              decks: Array.from(finalDecks.values()).map((deck) => ({
+                ...deck,
+                cards: Array.from(finalCards.values()).filter((c) => c.deckId === deck.id),
+              })),
+              deletedDeckIds: state.deletedDeckIds.filter((id) => !deletedDeckIds.includes(id)),
+              deletedCardIds: state.deletedCardIds.filter((id) => !deletedCardIds.includes(id)),
+              lastSyncedAt: startedAt,
+            };
+          });
+        } catch (error) {
+          // Keep local data and pending changes; the next sync will retry
+          console.error('Error syncing flashcards:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+
+      /**
+       * reset - Clear local decks and sync bookkeeping
+       * Prevents one account's cards from being pushed into another
+       */
+      reset: () => {
+        set({
+          decks: [],
+          deletedDeckIds: [],
+          deletedCardIds: [],
+          lastSyncedAt: null,
+          studyLog: { date: getTodayKey(), decks: {} },
+        });
+      },
+    })),
+    {
+      // Persist configuration - saves state to browser localStorage
+      name: 'graspify-flashcard-storage',
+      partialize: (state) => ({
+        decks: state.decks,
+        deletedDeckIds: state.deletedDeckIds,
+        deletedCardIds: state.deletedCardIds,
+        lastSyncedAt: state.lastSyncedAt,
+        studyLog: state.studyLog,
+      }),
+    }
+  )
+);
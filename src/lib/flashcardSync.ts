@@ -0,0 +1,207 @@
+/**
+ * Flashcard Sync Module
+ *
+ * Bridges the local flashcard store and the Supabase `flashcard_decks` /
+ * `flashcards` tables:
+ * - Maps between app types (camelCase) and database rows (snake_case)
+ * - Pulls the signed-in user's decks and cards
+ * - Pushes local changes and pending deletions
+ *
+ * The local store stays the source of truth while offline; this module is
+ * only called by the store's `sync` action when a session exists.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { fetchAllPages } from '@/lib/syncMerge';
+import { Flashcard, FlashcardDeck, SchedulerAlgorithm } from '@/types';
+
+/**
+ * Row shape of the `flashcard_decks` table
+ */
+interface FlashcardDeckRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  new_cards_per_day: number | null;
+  reviews_per_day: number | null;
+  algorithm: SchedulerAlgorithm | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `flashcards` table
+ */
+interface FlashcardRow {
+  id: string;
+  user_id: string;
+  deck_id: string;
+  front: string;
+  back: string;
+  difficulty: Flashcard['difficulty'];
+  interval: number;
+  ease_factor: number;
+  repetitions: number;
+  next_review_date: string;
+  last_review_date: string | null;
+  lapses: number;
+  stability: number | null;
+  fsrs_difficulty: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Snapshot of the user's remote flashcard data
+ */
+export interface RemoteFlashcards {
+  decks: FlashcardDeck[];
+}
+
+/**
+ * Local changes to send to Supabase
+ */
+export interface FlashcardChanges {
+  decks: FlashcardDeck[];        // Decks to upsert (cards are ignored)
+  cards: Flashcard[];            // Cards to upsert
+  deletedDeckIds: string[];      // Decks removed locally since last sync
+  deletedCardIds: string[];      // Cards removed locally since last sync
+}
+
+const deckToRow = (deck: FlashcardDeck, userId: string): FlashcardDeckRow => ({
+  id: deck.id,
+  user_id: userId,
+  name: deck.name,
+  description: deck.description ?? null,
+  new_cards_per_day: deck.newCardsPerDay ?? null,
+  reviews_per_day: deck.reviewsPerDay ?? null,
+  algorithm: deck.algorithm ?? null,
+  created_at: deck.createdAt,
+  updated_at: deck.updatedAt ?? deck.createdAt,
+});
+
+const cardToRow = (card: Flashcard, userId: string): FlashcardRow => ({
+  id: card.id,
+  user_id: userId,
+  deck_id: card.deckId,
+  front: card.front,
+  back: card.back,
+  difficulty: card.difficulty,
+  interval: card.interval,
+  ease_factor: card.easeFactor,
+  repetitions: card.repetitions,
+  next_review_date: card.nextReviewDate,
+  last_review_date: card.lastReviewDate ?? null,
+  lapses: card.lapses ?? 0,
+  stability: card.stability ?? null,
+  fsrs_difficulty: card.fsrsDifficulty ?? null,
+  created_at: card.createdAt ?? card.updatedAt ?? new Date().toISOString(),
+  updated_at: card.updatedAt ?? card.createdAt ?? new Date().toISOString(),
+});
+
+const rowToCard = (row: FlashcardRow): Flashcard => ({
+  id: row.id,
+  deckId: row.deck_id,
+  front: row.front,
+  back: row.back,
+  difficulty: row.difficulty,
+  interval: row.interval,
+  easeFactor: row.ease_factor,
+  repetitions: row.repetitions,
+  nextReviewDate: row.next_review_date,
+  lastReviewDate: row.last_review_date ?? undefined,
+  lapses: row.lapses,
+  stability: row.stability ?? undefined,
+  fsrsDifficulty: row.fsrs_difficulty ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * getSyncUserId - Returns the signed-in Supabase user id, or null when
+ * offline or signed out
+ */
+export const getSyncUserId = async (): Promise<string | null> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * fetchRemoteFlashcards - Loads every deck and card owned by the user
+ *
+ * @param userId - Supabase auth user id
+ * @returns Decks with their cards nested
+ */
+export const fetchRemoteFlashcards = async (userId: string): Promise<RemoteFlashcards> => {
+  const [deckRows, cardRows] = await Promise.all([
+    fetchAllPages<FlashcardDeckRow>((from, to) =>
+      supabase.from('flashcard_decks').select('*').eq('user_id', userId).order('id').range(from, to)
+    ),
+    fetchAllPages<FlashcardRow>((from, to) =>
+      supabase.from('flashcards').select('*').eq('user_id', userId).order('id').range(from, to)
+    ),
+  ]);
+
+  const cards = cardRows.map(rowToCard);
+
+  const decks = deckRows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    newCardsPerDay: row.new_cards_per_day ?? undefined,
+    reviewsPerDay: row.reviews_per_day ?? undefined,
+    algorithm: row.algorithm ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    cards: cards.filter((c) => c.deckId === row.id),
+  }));
+
+  return { decks };
+};
+
+/**
+ * pushFlashcardChanges - Writes local changes to Supabase
+ * Deletions run first so a deck that was deleted and recreated is not clobbered.
+ *
+ * @param userId - Supabase auth user id
+ * @param changes - Decks/cards to upsert and ids to delete
+ */
+export const pushFlashcardChanges = async (userId: string, changes: FlashcardChanges): Promise<void> => {
+  if (changes.deletedCardIds.length > 0) {
+    const { error } = await supabase
+      .from('flashcards')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', changes.deletedCardIds);
+    if (error) throw error;
+  }
+
+  if (changes.deletedDeckIds.length > 0) {
+    const { error } = await supabase
+      .from('flashcard_decks')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', changes.deletedDeckIds);
+    if (error) throw error;
+  }
+
+  // Decks must exist before the cards that reference them
+  if (changes.decks.length > 0) {
+    const { error } = await supabase
+      .from('flashcard_decks')
+      .upsert(changes.decks.map((d) => deckToRow(d, userId)), { onConflict: 'user_id,id' });
+    if (error) throw error;
+  }
+
+  if (changes.cards.length > 0) {
+    const { error } = await supabase
+      .from('flashcards')
+      .upsert(changes.cards.map((c) => cardToRow(c, userId)), { onConflict: 'user_id,id' });
+    if (error) throw error;
+  }
+};
@@ -17,7 +17,10 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
 // Type definitions for game entities
-import { User, Badge, Mission, XPEventType } from '@/types';
+import { User, Badge, Mission, PlayerStats, XPEventType } from '@/types';
+
+// Rules that turn activities into XP, stats and missions
+import { GameActivity, evaluateActivity } from '@/lib/gamificationRules';
 
 /**
  * BADGES - Collection of all available badges/achievements
@@ -56,11 +59,22 @@ const XP_REWARDS: Record<XPEventType, number> = {
   submit_step: 2,
   complete_quiz: 50,
   perfect_quiz: 25,
+  correct_answer: 5,
   review_flashcard: 3,
   complete_mission: 0, // Dynamic based on mission
   streak_bonus: 0, // Dynamic based on streak
 };
 
+/**
+ * ActivityReward - What recordActivity awarded
+ */
+export interface ActivityReward {
+  xpGained: number;              // Total XP including streak multiplier
+  leveledUp: boolean;
+  newLevel?: number;
+  celebrate: boolean;            // A real win (e.g. a correct step) was rewarded
+}
+
 /**
  * calculateLevel - Converts total XP to player level
  * Formula: level = floor(sqrt(xp / 100)) + 1
@@ -105,15 +119,7 @@ interface GameState {
   missions: Mission[];
   
   // Track user activity across different features
-  stats: {
-    quizzesCompleted: number;
-    flashcardsReviewed: number;
-    doubtsAsked: number;
-    stepsSubmitted: number;
-    correctSteps: number;
-    studyPlansCreated: number;
-    imagesUploaded: number;
-  };
+  stats: PlayerStats;
   
   // Action methods
   /**
@@ -148,7 +154,13 @@ interface GameState {
    * Increment a player statistic
    * May trigger badge unlocks based on thresholds
    */
-  incrementStat: (stat: keyof GameState['stats']) => void;
+  incrementStat: (stat: keyof PlayerStats) => void;
+
+  /**
+   * Apply the gamification rules for an activity
+   * Awards XP, increments stats and progresses missions in one call
+   */
+  recordActivity: (activity: GameActivity) => ActivityReward;
   
   /**
    * Get XP multiplier based on current streak
@@ -417,6 +429,40 @@ export const useGameStore = create<GameState>()(
         }
       },
 
+      /**
+       * recordActivity - Apply the gamification rules for an activity
+       * Each fired rule awards its XP, stat and mission progress once per time it fired
+       *
+       * @param activity - What the player did (see gamificationRules.ts)
+       * @returns Total XP gained, level change and whether to celebrate
+       */
+      recordActivity: (activity) => {
+        const plan = evaluateActivity(activity);
+        const startLevel = get().user.level;
+        let xpGained = 0;
+
+        for (const { rule, times } of plan.fired) {
+          if (rule.xp) {
+            xpGained += get().addXP(rule.xp, XP_REWARDS[rule.xp] * times).xpGained;
+          }
+          if (rule.stat) {
+            // One increment at a time so every badge threshold is checked
+            for (let i = 0; i < times; i++) get().incrementStat(rule.stat);
+          }
+          if (rule.mission) {
+            get().updateMissionProgress(rule.mission, times);
+          }
+        }
+
+        const newLevel = get().user.level;
+        return {
+          xpGained,
+          leveledUp: newLevel > startLevel,
+          newLevel: newLevel > startLevel ? newLevel : undefined,
+          celebrate: plan.celebrate,
+        };
+      },
+
       /**
        * getStreakMultiplier - Calculate XP multiplier based on current streak
        * Rewards players for maintaining consistent daily engagement
@@ -0,0 +1,139 @@
+/**
+ * Gamification Rules Module
+ *
+ * Declares which rewards each learning activity earns:
+ * - XP events (base amounts live in gameStore's XP_REWARDS)
+ * - Player stats that drive badge unlocks
+ * - Daily mission progress
+ *
+ * Rules only describe rewards; the game store's `recordActivity` action
+ * applies them. A rule can fire several times for one activity, e.g. once
+ * per verified-correct step.
+ */
+
+import { Mission, PlayerStats, QuizAnswer, StepCheck, XPEventType } from '@/types';
+import { totalCredit } from '@/lib/quizGrading';
+
+/**
+ * GameActivity - Something the student did that may earn rewards
+ */
+export type GameActivity =
+  | {
+      type: 'doubt_answered';
+      steps?: StepCheck[];       // Verdicts when the student's solution was verified
+    }
+  | {
+      type: 'quiz_completed';
+      answers: QuizAnswer[];     // Graded answers, with partial credit where AI-graded
+      totalQuestions: number;
+    };
+
+/**
+ * GameRule - One reward granted for an activity
+ */
+interface GameRule {
+  id: string;
+  activity: GameActivity['type'];
+  times: (activity: GameActivity) => number;   // How often the rule fires (0 = not at all)
+  xp?: XPEventType;              // XP event awarded each time
+  stat?: keyof PlayerStats;      // Stat incremented each time
+  mission?: Mission['type'];     // Mission progressed by `times`
+  celebrate?: boolean;           // Worth confetti when it fires
+}
+
+/**
+ * FiredRule - A rule that applies to an activity, with its count
+ */
+export interface FiredRule {
+  rule: GameRule;
+  times: number;
+}
+
+/**
+ * RewardPlan - Everything an activity earns
+ */
+export interface RewardPlan {
+  fired: FiredRule[];
+  celebrate: boolean;            // At least one celebrated rule fired
+}
+
+const steps = (activity: GameActivity): StepCheck[] =>
+  activity.type === 'doubt_answered' ? activity.steps ?? [] : [];
+
+const stepCount = (activity: GameActivity): number => steps(activity).length;
+
+const correctStepCount = (activity: GameActivity): number => steps(activity).filter((s) => s.correct).length;
+
+const quizCredit = (activity: GameActivity): number =>
+  activity.type === 'quiz_completed' ? totalCredit(activity.answers) : 0;
+
+// Whole questions' worth of credit, so two half-marks earn one answer's XP
+const creditedAnswerCount = (activity: GameActivity): number => Math.round(quizCredit(activity));
+
+const isPerfectQuiz = (activity: GameActivity): number =>
+  activity.type === 'quiz_completed' && activity.totalQuestions > 0 && quizCredit(activity) >= activity.totalQuestions
+    ? 1
+    : 0;
+
+/**
+ * GAME_RULES - Rewards per activity, applied in order
+ */
+const GAME_RULES: GameRule[] = [
+  {
+    id: 'doubt_asked',
+    activity: 'doubt_answered',
+    times: () => 1,
+    stat: 'doubtsAsked',
+    mission: 'doubt',
+  },
+  {
+    id: 'step_submitted',
+    activity: 'doubt_answered',
+    times: stepCount,
+    xp: 'submit_step',
+    stat: 'stepsSubmitted',
+  },
+  {
+    id: 'step_correct',
+    activity: 'doubt_answered',
+    times: correctStepCount,
+    xp: 'correct_step',
+    stat: 'correctSteps',
+    celebrate: true,
+  },
+  {
+    id: 'quiz_finished',
+    activity: 'quiz_completed',
+    times: () => 1,
+    xp: 'complete_quiz',
+    stat: 'quizzesCompleted',
+    mission: 'quiz',
+  },
+  {
+    id: 'quiz_answer_credited',
+    activity: 'quiz_completed',
+    times: creditedAnswerCount,
+    xp: 'correct_answer',
+  },
+  {
+    id: 'quiz_perfect',
+    activity: 'quiz_completed',
+    times: isPerfectQuiz,
+    xp: 'perfect_quiz',
+    celebrate: true,
+  },
+];
+
+/**
+ * evaluateActivity - Work out which rules an activity triggers
+ *
+ * @param activity - What the student did
+ * @returns Fired rules and whether the result deserves a celebration
+ */
+export const evaluateActivity = (activity: GameActivity): RewardPlan => {
+  const fired = GAME_RULES.filter((rule) => rule.activity === activity.type)
+    .map((rule) => ({ rule, times: rule.times(activity) }))
+    .filter(({ times }) => times > 0);
+
+  return { fired, celebrate: fired.some(({ rule }) => rule.celebrate) };
+};
@@ -1,27 +1,37 @@
 /**
- * Gemini API Client
+ * AI Tutor and Generators
  *
- * This module initializes the Google Generative AI client and provides a function
- * to interact with the Gemini API for solving doubts and answering questions.
+ * Feature-level AI functions used by the pages: solving doubts, and
+ * generating flashcards, quiz questions and study plans. Requests go
+ * through the provider chosen in settings (Gemini by default, see
+ * src/lib/ai), so nothing here depends on a particular backend.
+ * Generated items are validated one by one; invalid ones are dropped and
+ * an unusable reply is sent back to the model for repair.
  */
 
-import {
-  GoogleGenerativeAI,
-  GenerationConfig,
-  Content,
-  Part,
-} from "@google/generative-ai";
-
-// Get the Gemini API key from environment variables
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-// Throw an error if the API key is missing
-if (!apiKey) {
-  throw new Error("VITE_GEMINI_API_KEY is not set. Please add it to your .env file.");
-}
+import { z } from "zod";
 
-// Initialize the Google Generative AI client
-const genAI = new GoogleGenerativeAI(apiKey);
+import {
+  Difficulty,
+  DoubtMessage,
+  Flashcard,
+  Question,
+  QuestionType,
+  ScheduleDay,
+  ScheduleTask,
+  StepCheck,
+} from "@/types";
+import { TRUE_FALSE_OPTIONS, parseNumber } from "@/lib/quizGrading";
+import { buildConversationWindow } from "@/lib/conversationMemory";
+import {
+  AIMessage,
+  AIPart,
+  AIRequest,
+  AIUnavailableError,
+  JSONSchema,
+  generateValidatedList,
+  getAIProvider,
+} from "@/lib/ai";
 
 // --- PROMPT ENGINEERING ---
 
@@ -31,97 +41,483 @@ You are an expert AI tutor for students. Your name is Graspify.
 - When a user asks a question, provide a clear, concise, and accurate answer.
 - If the user provides their own step-by-step solution, you must verify it.
 - For each step in the user's solution:
-  - State whether the step is CORRECT or INCORRECT.
+  - Decide whether the step is correct or incorrect.
   - Provide a detailed explanation for why the step is correct or incorrect.
-  - If a step is incorrect, provide the correct step and continue verifying the subsequent steps based on the corrected logic.
+  - If a step is incorrect, give a hint towards the correct step and continue verifying the subsequent steps based on the corrected logic.
 - Always be encouraging and maintain a positive tone.
 `;
 
+// --- STEP VERIFICATION ---
+
+/**
+ * Answer to a doubt. `steps` is filled when the student's own solution
+ * was verified, one verdict per step in order.
+ */
+export interface DoubtAnswer {
+  text: string;
+  steps?: StepCheck[];
+  stopped?: boolean;             // Generation was aborted; `text` is what arrived so far
+  failed?: boolean;              // The AI call failed; `text` is an apology to show instead
+}
+
 /**
- * Solves a user's doubt using the Gemini API.
+ * Streaming options for solveDoubt.
+ */
+export interface SolveDoubtOptions {
+  onText?: (text: string) => void; // Answer so far, called as chunks arrive (free-text answers only)
+  signal?: AbortSignal;            // Abort to stop generation early
+}
+
+// The app compiles without strictNullChecks, where z.infer makes every field
+// optional; runtime checks are therefore declared as Parsed<T> with the type
+// their parsed data is guaranteed to have
+type Parsed<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Optional text fields come back as "" when the model has nothing to add
+const optionalText = z
+  .string()
+  .optional()
+  .transform((value) => value?.trim() || undefined);
+
+// Runtime check of the structured reply (the response schema is only a hint to the model)
+const stepVerificationSchema = z.object({
+  summary: z.string(),
+  steps: z
+    .array(
+      z.object({
+        userStep: z.string(),
+        correct: z.boolean(),
+        explanation: z.string(),
+        hint: optionalText,
+        suggestedNextStep: optionalText,
+        // Accept percentages too, then clamp to 0-1
+        confidence: z.number().transform((value) => Math.min(1, Math.max(0, value > 1 ? value / 100 : value))),
+      })
+    )
+    .min(1),
+}) as Parsed<{ summary: string; steps: StepCheck[] }>;
+
+// JSON schema the model fills when verifying a solution
+const stepVerificationResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "Overall feedback on the solution, including the correct final answer if it is wrong",
+    },
+    steps: {
+      type: "array",
+      description: "One verdict per step of the student's solution, in order",
+      items: {
+        type: "object",
+        properties: {
+          userStep: { type: "string", description: "The student's step, quoted" },
+          correct: { type: "boolean" },
+          explanation: { type: "string", description: "Why the step is correct or incorrect" },
+          hint: { type: "string", description: "Nudge towards the correct step, without giving it away" },
+          suggestedNextStep: { type: "string", description: "What the student should do next" },
+          confidence: { type: "number", description: "Confidence in this verdict, 0 to 1" },
+        },
+        required: ["userStep", "correct", "explanation", "confidence"],
+      },
+    },
+  },
+  required: ["summary", "steps"],
+};
+
+/**
+ * Validates a structured step verification reply.
+ *
+ * @param reply - Parsed JSON returned by the model.
+ * @returns The feedback and per-step verdicts.
+ * @throws Error if the reply does not match the schema.
+ */
+const parseStepVerification = (reply: unknown): DoubtAnswer => {
+  const result = stepVerificationSchema.safeParse(reply);
+  if (!result.success) {
+    throw new Error(`Invalid step verification: ${result.error.issues[0]?.message}`);
+  }
+
+  return { text: result.data.summary, steps: result.data.steps };
+};
+
+/**
+ * Writes step verdicts as plain text so later turns can refer back to them.
+ */
+const describeSteps = (steps: StepCheck[]): string =>
+  steps
+    .map((step, i) => `Step ${i + 1} (${step.correct ? "correct" : "incorrect"}): ${step.userStep}\n${step.explanation}`)
+    .join("\n");
+
+/**
+ * Converts a base64 data URL into an inline image part.
+ *
+ * @param dataUrl - e.g. "data:image/jpeg;base64,..."
+ * @returns The multimodal part, or null if the URL is not a base64 image.
+ */
+const imagePartFromDataUrl = (dataUrl: string): AIPart | null => {
+  const match = /^data:(image\/[a-z0-9.+-]+);base64,(.+)$/i.exec(dataUrl);
+  if (!match) return null;
+  return { type: "image", mimeType: match[1], data: match[2] };
+};
+
+/**
+ * Converts earlier Doubt Solver messages into chat history.
+ * Old turns beyond the token budget are replaced by a short summary.
+ *
+ * @param messages - Earlier messages in the session, oldest first.
+ * @returns History entries to send before the new question.
+ */
+const toChatHistory = (messages: DoubtMessage[]): AIMessage[] => {
+  const window = buildConversationWindow(messages);
+  const history: AIMessage[] = [];
+
+  if (window.summary) {
+    history.push({ role: "user", parts: [{ type: "text", text: window.summary }] });
+    history.push({ role: "assistant", parts: [{ type: "text", text: "Thanks, I will keep that earlier context in mind." }] });
+  }
+
+  for (const message of window.messages) {
+    const question = message.solution
+      ? `${message.content}\n\nMy solution:\n${message.solution}`
+      : message.content;
+    const text = message.steps?.length ? `${question}\n\n${describeSteps(message.steps)}` : question;
+    const parts: AIPart[] = [{ type: "text", text: text.trim() || "(see the attached image)" }];
+    const imagePart = message.image ? imagePartFromDataUrl(message.image) : null;
+    if (imagePart) parts.push(imagePart);
+    history.push({ role: message.role, parts });
+  }
+
+  return history;
+};
+
+/**
+ * Solves a user's doubt, streaming the reply.
  *
  * @param question - The user's question or problem.
  * @param userSolution - Optional. The user's own solution to be verified.
- * @returns The AI-generated response.
+ * @param image - Optional. Data URL of a photo/screenshot of the problem.
+ * @param previousMessages - Optional. Earlier messages of the session, oldest first,
+ *   so follow-up questions keep their context.
+ * @param options - Optional. Callback for partial text and a signal to stop generation.
+ * @returns The AI-generated response, with per-step verdicts when a solution was given
+ *   (flagged `failed`, with an apology as its text, when the AI call fails).
+ * @throws AIUnavailableError if no AI provider is configured.
  */
 export const solveDoubt = async (
   question: string,
-  userSolution?: string
-): Promise<string> => {
-  try {
-    // Get the generative model
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-    // Set generation config
-    const generationConfig: GenerationConfig = {
-      temperature: 0.7,
-      topP: 1,
-      topK: 1,
-      maxOutputTokens: 2048,
-    };
+  userSolution?: string,
+  image?: string,
+  previousMessages: DoubtMessage[] = [],
+  options: SolveDoubtOptions = {}
+): Promise<DoubtAnswer> => {
+  const verifying = !!userSolution?.trim();
+  let text = "";
 
-    // Construct the chat history with the system prompt
-    const history: Content[] = [
-      {
-        role: "user",
-        parts: [{ text: systemPrompt }],
-      },
-      {
-        role: "model",
-        parts: [{ text: "Understood. I am Graspify, your expert AI tutor. I will help you with your doubts and verify your solutions." }],
-      },
-    ];
+  try {
+    const provider = getAIProvider();
 
     // Create the user's prompt
-    let userPrompt = `Question: ${question}`;
-    if (userSolution) {
+    let userPrompt = `Question: ${question.trim() || "Please solve the problem shown in the attached image."}`;
+    if (image) {
+      userPrompt += "\n\nThe problem is shown in the attached image. Read it carefully before answering.";
+    }
+    if (verifying) {
       userPrompt += `\n\nHere is my solution. Please verify it step-by-step:\n${userSolution}`;
+      userPrompt += `\n\nReply in JSON. Put your overall feedback in "summary" (Markdown allowed). Add one entry to "steps" for each step of my solution, in order: quote it in "userStep", say whether it is "correct", explain why, give a "hint" for incorrect steps without revealing the answer, suggest the next step in "suggestedNextStep", and rate your "confidence" from 0 to 1.`;
     }
 
-    const parts: Part[] = [{ text: userPrompt }];
+    const parts: AIPart[] = [{ type: "text", text: userPrompt }];
 
-    // Start a chat session and send the message
-    const chat = model.startChat({
-      generationConfig,
-      history,
-    });
+    // Send the image alongside the text as a multimodal part
+    const imagePart = image ? imagePartFromDataUrl(image) : null;
+    if (imagePart) {
+      parts.push(imagePart);
+    }
+
+    // The system prompt, the conversation so far, then the new question
+    const request: AIRequest = {
+      system: systemPrompt,
+      messages: [...toChatHistory(previousMessages), { role: "user", parts }],
+      signal: options.signal,
+    };
+
+    // Partial JSON is not worth showing, so verification replies arrive in one piece
+    if (verifying) {
+      const reply = await provider.generateJSON({
+        ...request,
+        temperature: 0.3,
+        maxOutputTokens: 4096,
+        schemaName: "step_verification",
+        schema: stepVerificationResponseSchema,
+      });
+      return parseStepVerification(reply);
+    }
 
-    const result = await chat.sendMessage(parts);
-    const response = result.response;
+    for await (const chunk of provider.stream(request)) {
+      text += chunk;
+      options.onText?.(text);
+    }
 
     // Check if the response is empty or blocked
-    if (!response || !response.text) {
-      throw new Error("No response from Gemini API. It might have been blocked.");
+    if (!text) {
+      throw new Error("No response from the AI. It might have been blocked.");
     }
 
-    return response.text();
+    return { text };
   } catch (error) {
-    console.error("Error solving doubt with Gemini:", error);
+    if (options.signal?.aborted) {
+      return { text: verifying ? "" : text, stopped: true };
+    }
+
+    // The page shows its own notice when no provider is configured
+    if (error instanceof AIUnavailableError) {
+      throw error;
+    }
+
+    console.error("Error solving doubt:", error);
     // Provide a user-friendly error message
-    return "Sorry, I encountered an error while trying to solve your doubt. Please check your API key and try again.";
+    return {
+      text: verifying
+        ? "Sorry, I couldn't check your solution step by step this time. Please try again."
+        : "Sorry, I encountered an error while trying to solve your doubt. Please check your AI settings and try again.",
+      failed: true,
+    };
   }
 };
 
+// --- GENERATOR SCHEMAS ---
+
+// Structured replies are wrapped in an object, which every provider accepts as a schema root
+const QUESTION_TYPES = ["mcq", "multi_select", "true_false", "short", "fill_blank", "numeric", "free_response"] as const;
+const difficultySchema: JSONSchema = { type: "string", enum: ["easy", "medium", "hard"] };
+
+const flashcardsResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    cards: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          front: { type: "string", description: "Question or term" },
+          back: { type: "string", description: "Answer or definition" },
+          difficulty: difficultySchema,
+        },
+        required: ["front", "back", "difficulty"],
+      },
+    },
+  },
+  required: ["cards"],
+};
+
+const quizQuestionsResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: [...QUESTION_TYPES] },
+          question: { type: "string" },
+          options: { type: "array", items: { type: "string" }, description: "Choices (mcq and multi_select only)" },
+          correctAnswer: { type: "string" },
+          correctAnswers: { type: "array", items: { type: "string" }, description: "Every correct option (multi_select only)" },
+          acceptedAnswers: { type: "array", items: { type: "string" }, description: "Other correct wordings (short and fill_blank only)" },
+          keyPoints: { type: "array", items: { type: "string" }, description: "Points a full answer covers (short and free_response only)" },
+          tolerance: { type: "number", description: "Largest accepted difference (numeric only)" },
+          unit: { type: "string", description: "Unit of the answer (numeric only)" },
+          explanation: { type: "string" },
+          difficulty: difficultySchema,
+          topic: { type: "string", description: "Short name of the topic tested, 1-4 words" },
+        },
+        required: ["type", "question", "correctAnswer", "explanation", "difficulty", "topic"],
+      },
+    },
+  },
+  required: ["questions"],
+};
+
+const studyPlanResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    sessions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          date: { type: "string", format: "date" },
+          chapterIndex: { type: "integer", description: "Index into the chapter list, starting at 0" },
+          hoursAllocated: { type: "number" },
+          topic: { type: "string" },
+        },
+        required: ["date", "chapterIndex", "hoursAllocated", "topic"],
+      },
+    },
+  },
+  required: ["sessions"],
+};
+
+// Runtime checks for generated items; an item that fails is dropped with the reason
+const requiredText = z.string().trim().min(1, "must not be empty");
+const difficultyValue = z.string().trim().toLowerCase().pipe(z.enum(["easy", "medium", "hard"]));
+
+const flashcardItemSchema = z.object({
+  front: requiredText,
+  back: requiredText,
+  difficulty: difficultyValue,
+}) as Parsed<Pick<Flashcard, "front" | "back" | "difficulty">>;
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const findOption = (options: string[], answer: string) => options.find((o) => sameText(o, answer));
+
+const quizQuestionItemSchema = z
+  .object({
+    type: z.string().trim().toLowerCase().pipe(z.enum(QUESTION_TYPES)),
+    question: requiredText,
+    options: z.array(requiredText).optional(),
+    // Models sometimes send numbers or booleans for numeric and true/false answers
+    correctAnswer: z.union([z.string(), z.number(), z.boolean()]).transform(String).pipe(requiredText),
+    correctAnswers: z.array(requiredText).optional(),
+    acceptedAnswers: z.array(z.string().trim()).optional(),
+    keyPoints: z.array(z.string().trim()).optional(),
+    tolerance: z.number().nonnegative().optional(),
+    unit: optionalText,
+    explanation: requiredText,
+    difficulty: difficultyValue,
+    topic: optionalText,
+  })
+  .superRefine((q, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+    const options = q.options ?? [];
+
+    if (q.type === "mcq" || q.type === "multi_select") {
+      if (options.length < (q.type === "mcq" ? 2 : 3)) issue("options", `needs at least ${q.type === "mcq" ? 2 : 3} options`);
+      if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) issue("options", "options must be distinct");
+    }
+
+    switch (q.type) {
+      case "mcq":
+        if (!findOption(options, q.correctAnswer)) issue("correctAnswer", "must be one of the options");
+        break;
+      case "multi_select":
+        if (!q.correctAnswers?.length) issue("correctAnswers", "must list at least one correct option");
+        else if (!q.correctAnswers.every((a) => findOption(options, a))) issue("correctAnswers", "must all be options");
+        break;
+      case "true_false":
+        if (!TRUE_FALSE_OPTIONS.some((o) => sameText(o, q.correctAnswer))) issue("correctAnswer", 'must be "True" or "False"');
+        break;
+      case "fill_blank":
+        if (!/_{3,}/.test(q.question)) issue("question", 'must contain a blank written as "____"');
+        break;
+      case "numeric":
+        if (parseNumber(q.correctAnswer) === null) issue("correctAnswer", "must be a number");
+        break;
+      case "free_response":
+        if (!q.keyPoints?.some(Boolean)) issue("keyPoints", "must list at least one key point");
+        break;
+    }
+  })
+  // Keep only the fields each type uses, spelled the way the quiz compares them
+  .transform((q): Omit<Question, "id"> => {
+    const base = {
+      type: q.type,
+      question: q.question,
+      explanation: q.explanation,
+      difficulty: q.difficulty,
+      topic: q.topic,
+    };
+    const accepted = q.acceptedAnswers?.filter(Boolean);
+    const keyPoints = q.keyPoints?.filter(Boolean);
+
+    switch (q.type) {
+      case "mcq":
+        return { ...base, options: q.options, correctAnswer: findOption(q.options, q.correctAnswer) };
+      case "multi_select": {
+        const correctAnswers = q.options.filter((o) => q.correctAnswers.some((a) => sameText(o, a)));
+        return { ...base, options: q.options, correctAnswers, correctAnswer: correctAnswers.join(", ") };
+      }
+      case "true_false":
+        return {
+          ...base,
+          options: TRUE_FALSE_OPTIONS,
+          correctAnswer: findOption(TRUE_FALSE_OPTIONS, q.correctAnswer),
+        };
+      case "numeric": {
+        const value = parseNumber(q.correctAnswer);
+        // Without a tolerance, accept answers within 1%
+        return {
+          ...base,
+          correctAnswer: String(value),
+          tolerance: q.tolerance ?? Math.abs(value) * 0.01,
+          unit: q.unit,
+        };
+      }
+      case "free_response":
+        return { ...base, correctAnswer: q.correctAnswer, keyPoints };
+      case "short":
+        return {
+          ...base,
+          correctAnswer: q.correctAnswer,
+          acceptedAnswers: accepted?.length ? accepted : undefined,
+          keyPoints: keyPoints?.length ? keyPoints : undefined,
+        };
+      default:
+        return { ...base, correctAnswer: q.correctAnswer, acceptedAnswers: accepted?.length ? accepted : undefined };
+    }
+  }) as Parsed<Omit<Question, "id">>;
+
+/**
+ * Checks a hand-written question with the same rules as generated ones.
+ *
+ * @param draft - Question fields as entered
+ * @returns The question, normalised like generated ones, or the first problem found
+ */
+export const validateQuestion = (draft: unknown): { question: Omit<Question, "id"> } | { error: string } => {
+  const result = quizQuestionItemSchema.safeParse(draft);
+  if (result.success) return { question: result.data };
+  const issue = result.error.issues[0];
+  return { error: issue?.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue?.message ?? "Invalid question" };
+};
+
+/**
+ * A study session as generated, before it is grouped into days.
+ */
+interface GeneratedSession {
+  date: string;
+  chapterIndex: number;
+  hoursAllocated: number;
+  topic?: string;
+}
+
+const scheduleItemSchema = (chapterCount: number) =>
+  z.object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a YYYY-MM-DD date")
+      .refine((date) => !Number.isNaN(Date.parse(date)), "must be a real date"),
+    chapterIndex: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(chapterCount - 1, `must be a chapter index from 0 to ${chapterCount - 1}`),
+    hoursAllocated: z.coerce.number().positive().max(24),
+    topic: z.string().optional(),
+  }) as Parsed<GeneratedSession>;
+
 /**
- * Generates flashcards from source material using the Gemini API.
+ * Generates flashcards from source material.
  *
  * @param sourceText - The text/notes to generate flashcards from
  * @returns Array of generated flashcards
  */
-export const generateFlashcards = async (sourceText: string): Promise<Array<{
-  front: string;
-  back: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-}>> => {
+export const generateFlashcards = async (
+  sourceText: string
+): Promise<Array<Pick<Flashcard, "front" | "back" | "difficulty">>> => {
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-    const generationConfig: GenerationConfig = {
-      temperature: 0.7,
-      topP: 1,
-      topK: 1,
-      maxOutputTokens: 2048,
-    };
+    const provider = getAIProvider();
 
     const prompt = `You are an expert educator. Generate 5-7 high-quality flashcards from the provided source material.
     
@@ -129,13 +525,15 @@ Source Material:
 ${sourceText}
 
 Generate flashcards in the following JSON format ONLY (no markdown, no extra text):
-[
-  {
-    "front": "question or term",
-    "back": "answer or definition",
-    "difficulty": "easy|medium|hard"
-  }
-]
+{
+  "cards": [
+    {
+      "front": "question or term",
+      "back": "answer or definition",
+      "difficulty": "easy|medium|hard"
+    }
+  ]
+}
 
 Guidelines:
 - Front side should be a clear, concise question or term
@@ -144,131 +542,261 @@ Guidelines:
 - Cover the main concepts and key details from the material
 - Make sure each card is self-contained and clear`;
 
-    const result = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: prompt }],
-        },
-      ],
-      generationConfig,
-    });
-
-    const responseText = result.response.text();
-    
-    // Extract JSON from response (handle markdown code blocks)
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error("Failed to parse flashcards from response");
-    }
-
-    const flashcards = JSON.parse(jsonMatch[0]);
-    
-    // Validate the response
-    if (!Array.isArray(flashcards) || flashcards.length === 0) {
-      throw new Error("No flashcards generated");
-    }
+    const { items } = await generateValidatedList(
+      provider,
+      {
+        messages: [{ role: "user", parts: [{ type: "text", text: prompt }] }],
+        temperature: 0.7,
+        maxOutputTokens: 2048,
+        schemaName: "flashcards",
+        schema: flashcardsResponseSchema,
+      },
+      { listKey: "cards", itemSchema: flashcardItemSchema }
+    );
 
-    return flashcards;
+    return items;
   } catch (error) {
-    console.error("Error generating flashcards with Gemini:", error);
+    console.error("Error generating flashcards:", error);
     throw error;
   }
 };
 
+// --- QUIZ OPTIONS ---
+
 /**
- * Generates quiz questions from source material using the Gemini API.
+ * What kind of quiz to generate.
+ */
+export interface QuizGenerationOptions {
+  count: number;                           // Number of questions
+  difficultyMix: Record<Difficulty, number>; // Relative share of each difficulty
+  types: QuestionType[];                   // Question types to mix (at least one)
+  topics?: string[];                       // Topics to focus on (all of the material when empty)
+}
+
+export const DEFAULT_QUIZ_OPTIONS: QuizGenerationOptions = {
+  count: 6,
+  difficultyMix: { easy: 1, medium: 1, hard: 1 },
+  types: ["mcq"],
+  topics: [],
+};
+
+// How each question type must be written, quoted in the prompt
+const QUESTION_TYPE_RULES: Record<QuestionType, string> = {
+  mcq: 'mcq: exactly 4 "options"; "correctAnswer" is one of them, exactly as written',
+  multi_select:
+    'multi_select: 4-6 "options"; "correctAnswers" lists every correct option (at least 2) exactly as written; "correctAnswer" joins them with ", "',
+  true_false: 'true_false: a statement to judge; "correctAnswer" is "True" or "False"',
+  short:
+    'short: answered in a few words or a sentence; "correctAnswer" is the model answer, "acceptedAnswers" lists other correct wordings and "keyPoints" the 1-3 points a correct answer must contain',
+  free_response:
+    'free_response: explained in a few sentences; "correctAnswer" is a model answer and "keyPoints" lists the 2-5 separate points a full answer covers (used as the marking rubric)',
+  fill_blank:
+    'fill_blank: the question contains exactly one blank written as "____"; "correctAnswer" fills it and "acceptedAnswers" lists other correct wordings',
+  numeric:
+    'numeric: "correctAnswer" is a plain number without units; "unit" gives the unit (if any) and "tolerance" the largest accepted difference',
+};
+
+/**
+ * Splits a total between weighted keys (largest remainder), e.g. 7 questions
+ * over equal weights for three difficulties gives 3/2/2.
+ */
+export const splitCount = <K extends string>(total: number, weights: Record<K, number>): Record<K, number> => {
+  const keys = (Object.keys(weights) as K[]).filter((key) => weights[key] > 0);
+  const sum = keys.reduce((acc, key) => acc + weights[key], 0);
+  const result = Object.fromEntries(Object.keys(weights).map((key) => [key, 0])) as Record<K, number>;
+  if (sum === 0) return result;
+
+  const exact = keys.map((key) => ({ key, value: (total * weights[key]) / sum }));
+  exact.forEach(({ key, value }) => (result[key] = Math.floor(value)));
+  let remaining = total - exact.reduce((acc, { key }) => acc + result[key], 0);
+  [...exact]
+    .sort((a, b) => (b.value % 1) - (a.value % 1))
+    .forEach(({ key }) => {
+      if (remaining-- > 0) result[key] += 1;
+    });
+  return result;
+};
+
+const describeCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${count} ${key}`)
+    .join(", ");
+
+/**
+ * Generates quiz questions from source material.
  *
  * @param sourceText - The text/notes to generate quiz questions from
+ * @param options - Number of questions, difficulty mix, types and topics
  * @returns Array of generated quiz questions
  */
-export const generateQuizQuestions = async (sourceText: string): Promise<Array<{
-  id: string;
-  type: 'mcq';
-  question: string;
-  options: string[];
-  correctAnswer: string;
-  explanation: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-}>> => {
+export const generateQuizQuestions = async (
+  sourceText: string,
+  options: QuizGenerationOptions = DEFAULT_QUIZ_OPTIONS
+): Promise<Question[]> => {
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+    const provider = getAIProvider();
 
-    const generationConfig: GenerationConfig = {
-      temperature: 0.7,
-      topP: 1,
-      topK: 1,
-      maxOutputTokens: 2048,
-    };
+    const types = options.types.length ? options.types : DEFAULT_QUIZ_OPTIONS.types;
+    const typeCounts = splitCount(options.count, Object.fromEntries(types.map((t) => [t, 1])));
+    const difficultyCounts = splitCount(options.count, options.difficultyMix);
+    const topics = options.topics?.map((t) => t.trim()).filter(Boolean) ?? [];
 
-    const prompt = `You are an expert educator. Generate 5-7 multiple-choice quiz questions from the provided source material.
+    const prompt = `You are an expert educator. Generate exactly ${options.count} quiz questions from the provided source material.
     
 Source Material:
 ${sourceText}
 
+Question types (exact counts): ${describeCounts(typeCounts)}
+Difficulty (exact counts): ${describeCounts(difficultyCounts)}${
+      topics.length ? `\nFocus on these topics: ${topics.join("; ")}` : ""
+    }
+
 Generate quiz questions in the following JSON format ONLY (no markdown, no extra text):
-[
-  {
-    "question": "What is...",
-    "options": ["option1", "option2", "option3", "option4"],
-    "correctAnswer": "option1",
-    "explanation": "Detailed explanation of why this is correct",
-    "difficulty": "easy|medium|hard"
-  }
-]
+{
+  "questions": [
+    {
+      "type": "${types.join("|")}",
+      "question": "What is...",
+      "options": ["option1", "option2", "option3", "option4"],
+      "correctAnswer": "option1",
+      "explanation": "Detailed explanation of why this is correct",
+      "difficulty": "easy|medium|hard",
+      "topic": "Short topic name"
+    }
+  ]
+}
+
+Rules for each question type:
+${types.map((t) => `- ${QUESTION_TYPE_RULES[t]}`).join("\n")}
 
 Guidelines:
 - Each question should be clear and test understanding of key concepts
-- Provide exactly 4 options (A, B, C, D alternatives)
-- The correctAnswer should be one of the options exactly as written
+- Leave out fields a question type does not use
 - Explanation should clearly explain why the answer is correct
 - Assign difficulty based on the concept's complexity
+- Name the topic each question tests in 1-4 words, using the same name for every question on that topic
 - Cover different topics and aspects from the material
 - Make sure questions are distinct and don't overlap`;
 
-    const result = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: prompt }],
-        },
-      ],
-      generationConfig,
-    });
-
-    const responseText = result.response.text();
-    
-    // Extract JSON from response (handle markdown code blocks)
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error("Failed to parse questions from response");
-    }
-
-    const questions = JSON.parse(jsonMatch[0]);
-    
-    // Validate and transform the response
-    if (!Array.isArray(questions) || questions.length === 0) {
-      throw new Error("No questions generated");
-    }
+    const { items } = await generateValidatedList(
+      provider,
+      {
+        messages: [{ role: "user", parts: [{ type: "text", text: prompt }] }],
+        temperature: 0.7,
+        // Room for roughly 300 tokens per question
+        maxOutputTokens: Math.min(8192, 1024 + options.count * 300),
+        schemaName: "quiz_questions",
+        schema: quizQuestionsResponseSchema,
+      },
+      { listKey: "questions", itemSchema: quizQuestionItemSchema }
+    );
 
-    // Add IDs to questions
-    return questions.map((q: any, index: number) => ({
-      id: `q-${Date.now()}-${index}`,
-      type: 'mcq' as const,
-      question: q.question,
-      options: q.options,
-      correctAnswer: q.correctAnswer,
-      explanation: q.explanation,
-      difficulty: q.difficulty,
+    // Add IDs to questions; they stay unique once kept in the question bank
+    return items.map((q) => ({
+      ...q,
+      id: `q-${crypto.randomUUID()}`,
     }));
   } catch (error) {
-    console.error("Error generating quiz questions with Gemini:", error);
+    console.error("Error generating quiz questions:", error);
     throw error;
   }
 };
 
+// --- ANSWER GRADING ---
+
+/**
+ * AI grade of a written answer.
+ */
+export interface AnswerGrade {
+  credit: number;                // Share of the marks earned, 0 to 1
+  feedback: string;              // Explanation of the grade against the key points (Markdown)
+  missingPoints: string[];       // Key points the answer left out
+}
+
+// JSON schema the model fills when grading a written answer
+const answerGradeResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    credit: { type: "number", description: "Share of the marks earned, 0 to 1" },
+    feedback: {
+      type: "string",
+      description: "Why the answer earned this credit, point by point against the rubric",
+    },
+    missingPoints: {
+      type: "array",
+      items: { type: "string" },
+      description: "Key points the answer is missing or gets wrong",
+    },
+  },
+  required: ["credit", "feedback", "missingPoints"],
+};
+
+const answerGradeSchema = z.object({
+  // Accept percentages too, then clamp to 0-1
+  credit: z.coerce.number().transform((value) => Math.min(1, Math.max(0, value > 1 ? value / 100 : value))),
+  feedback: requiredText,
+  missingPoints: z.array(z.string().trim()).default([]).transform((points) => points.filter(Boolean)),
+}) as Parsed<AnswerGrade>;
+
+/**
+ * Grades a written answer (short or free response) against the question's
+ * key points, with partial credit.
+ *
+ * @param question - The question answered; its keyPoints are the rubric
+ * @param answer - The student's answer
+ * @param signal - Optional. Abort to stop grading
+ * @returns Credit, feedback and the key points that were missed
+ * @throws AIUnavailableError if no AI provider is configured, Error if the reply is unusable
+ */
+export const gradeFreeTextAnswer = async (
+  question: Question,
+  answer: string,
+  signal?: AbortSignal
+): Promise<AnswerGrade> => {
+  const provider = getAIProvider();
+  const rubric = question.keyPoints?.length ? question.keyPoints : [question.correctAnswer];
+
+  const prompt = `Grade a student's answer to a quiz question.
+
+Question:
+${question.question}
+
+Model answer:
+${question.correctAnswer}
+
+Marking rubric (key points, equal weight):
+${rubric.map((point, index) => `${index + 1}. ${point}`).join("\n")}
+
+Student's answer:
+${answer}
+
+Reply in JSON:
+- "credit": the share of key points the answer covers correctly, from 0 to 1 (half credit for a point that is partly right)
+- "feedback": 2-4 sentences for the student explaining the grade point by point (Markdown allowed)
+- "missingPoints": the key points that are missing or wrong, reworded briefly (empty if none)
+
+Judge meaning, not wording: accept synonyms, other phrasings and minor spelling mistakes. Give no credit for statements that contradict the model answer.`;
+
+  const reply = await provider.generateJSON({
+    system: "You are a fair, encouraging examiner who marks strictly against the rubric.",
+    messages: [{ role: "user", parts: [{ type: "text", text: prompt }] }],
+    temperature: 0.1,
+    maxOutputTokens: 1024,
+    schemaName: "answer_grade",
+    schema: answerGradeResponseSchema,
+    signal,
+  });
+
+  const parsed = answerGradeSchema.safeParse(reply);
+  if (!parsed.success) {
+    throw new Error(`Invalid answer grade: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+};
+
 /**
- * Generates an optimized study plan using the Gemini API.
+ * Generates an optimized study plan.
  *
  * @param subject - The subject being studied
  * @param chapters - Array of chapters with names and difficulty levels
@@ -281,16 +809,9 @@ export const generateStudyPlan = async (
   chapters: Array<{ name: string; difficulty: 'easy' | 'medium' | 'hard' }>,
   examDate: string,
   dailyHours: number
-): Promise<any[]> => {
+): Promise<ScheduleDay[]> => {
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-    const generationConfig: GenerationConfig = {
-      temperature: 0.7,
-      topP: 1,
-      topK: 1,
-      maxOutputTokens: 2048,
-    };
+    const provider = getAIProvider();
 
     const today = new Date().toISOString().split('T')[0];
     
@@ -305,14 +826,16 @@ Target exam date: ${examDate}
 Daily study hours available: ${dailyHours}
 
 Generate a realistic, optimized study schedule in the following JSON format ONLY (no markdown, no extra text):
-[
-  {
-    "date": "2025-12-15",
-    "chapterIndex": 0,
-    "hoursAllocated": 2,
-    "topic": "specific topic to focus on"
-  }
-]
+{
+  "sessions": [
+    {
+      "date": "2025-12-15",
+      "chapterIndex": 0,
+      "hoursAllocated": 2,
+      "topic": "specific topic to focus on"
+    }
+  ]
+}
 
 Guidelines:
 - Create a schedule from today to 2-3 days before the exam
@@ -325,45 +848,22 @@ Guidelines:
 - Include breaks and revision sessions
 - Return dates in YYYY-MM-DD format`;
 
-    const result = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: prompt }],
-        },
-      ],
-      generationConfig,
-    });
-
-    const responseText = result.response.text();
-    
-    // Extract JSON from response - try multiple patterns
-    let jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    
-    // If first pattern fails, try JSON code block
-    if (!jsonMatch) {
-      jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonMatch[0] = jsonMatch[1]; // Extract just the JSON part
-      }
-    }
-    
-    if (!jsonMatch) {
-      console.error("Response text:", responseText);
-      throw new Error("Failed to parse study plan from response. Invalid format received.");
-    }
-
-    const schedulePlan = JSON.parse(jsonMatch[0]);
-    
-    // Validate and transform the response
-    if (!Array.isArray(schedulePlan) || schedulePlan.length === 0) {
-      throw new Error("No study plan generated");
-    }
+    const { items } = await generateValidatedList(
+      provider,
+      {
+        messages: [{ role: "user", parts: [{ type: "text", text: prompt }] }],
+        temperature: 0.7,
+        maxOutputTokens: 2048,
+        schemaName: "study_plan",
+        schema: studyPlanResponseSchema,
+      },
+      { listKey: "sessions", itemSchema: scheduleItemSchema(chapters.length) }
+    );
 
     // Transform API response into ScheduleDay format
-    const scheduleMap = new Map<string, any[]>();
+    const scheduleMap = new Map<string, ScheduleTask[]>();
     
-    schedulePlan.forEach((item: any, index: number) => {
+    items.forEach((item) => {
       const date = item.date;
       if (!scheduleMap.has(date)) {
         scheduleMap.set(date, []);
@@ -389,7 +889,7 @@ Guidelines:
 
     return schedule;
   } catch (error) {
-    console.error("Error generating study plan with Gemini:", error);
+    console.error("Error generating study plan:", error);
     throw error;
   }
 };
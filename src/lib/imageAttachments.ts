@@ -0,0 +1,117 @@
+/**
+ * Image Attachments Module
+ *
+ * Turns user-picked image files into data URLs that can be embedded in
+ * Markdown content (e.g. `![diagram](data:image/jpeg;base64,...)`).
+ * Images are downscaled first so cards stay small enough to persist in
+ * localStorage and sync to Supabase as plain text.
+ */
+
+/**
+ * Longest edge (px) an attached image is scaled down to
+ */
+export const MAX_IMAGE_DIMENSION = 1024;
+
+/**
+ * Largest file accepted before downscaling (bytes)
+ */
+export const MAX_IMAGE_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Longest data URL (characters) an attached image may take up
+ * Keeps a card with a few images well inside the ~5 MB localStorage quota.
+ */
+export const MAX_IMAGE_DATA_URL_LENGTH = 512 * 1024;
+
+/**
+ * JPEG qualities tried in turn when re-encoding photos, until one fits
+ */
+const JPEG_QUALITIES = [0.85, 0.7, 0.55];
+
+/**
+ * withinSizeLimit - Return the data URL, or throw if it is too large to store
+ */
+const withinSizeLimit = (dataUrl: string, fileName: string): string => {
+  if (dataUrl.length > MAX_IMAGE_DATA_URL_LENGTH) {
+    throw new Error(
+      `${fileName} is too large to attach, even after shrinking (limit ${MAX_IMAGE_DATA_URL_LENGTH / 1024} KB). Try a smaller or simpler image.`
+    );
+  }
+  return dataUrl;
+};
+
+/**
+ * readFileAsDataUrl - Read a file into a data URL without changes
+ */
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * loadImage - Decode a data URL into an image element
+ */
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The file is not a valid image'));
+    image.src = src;
+  });
+
+/**
+ * readImageAsDataUrl - Load an image file as a downscaled data URL
+ *
+ * PNGs stay PNG (keeps transparency for diagrams) unless that is too
+ * large; everything else is re-encoded as JPEG, at lower quality if
+ * needed. GIFs and SVGs are returned untouched. Images still over
+ * MAX_IMAGE_DATA_URL_LENGTH are rejected.
+ *
+ * @param file - Image picked by the user
+ * @param maxDimension - Longest edge after scaling
+ * @returns Data URL ready to embed in Markdown
+ */
+export const readImageAsDataUrl = async (
+  file: File,
+  maxDimension: number = MAX_IMAGE_DIMENSION
+): Promise<string> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_IMAGE_FILE_SIZE / 1024 / 1024} MB`);
+  }
+
+  const original = await readFileAsDataUrl(file);
+  if (file.type === 'image/gif' || file.type === 'image/svg+xml') return withinSizeLimit(original, file.name);
+
+  const image = await loadImage(original);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  if (scale === 1 && file.type === 'image/jpeg' && original.length <= MAX_IMAGE_DATA_URL_LENGTH) return original;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return withinSizeLimit(original, file.name);
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if (file.type === 'image/png') {
+    const png = canvas.toDataURL('image/png');
+    if (png.length <= MAX_IMAGE_DATA_URL_LENGTH) return png;
+
+    // JPEG has no transparency, so fill it white rather than black
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  let jpeg = '';
+  for (const quality of JPEG_QUALITIES) {
+    jpeg = canvas.toDataURL('image/jpeg', quality);
+    if (jpeg.length <= MAX_IMAGE_DATA_URL_LENGTH) break;
+  }
+  return withinSizeLimit(jpeg, file.name);
+};
@@ -0,0 +1,342 @@
+/**
+ * Question Bank Store Module - Zustand State Management
+ *
+ * This module manages the question bank:
+ * - Every generated question, plus questions the user writes
+ * - Subject, topic and tag metadata for filtering
+ * - Near-duplicate detection when questions are added (see questionDedup.ts)
+ * - Building custom quizzes from a filtered selection
+ * - Two-way sync with Supabase when the user is signed in
+ *
+ * Uses Zustand with persist middleware for localStorage persistence
+ */
+
+// Zustand - lightweight state management library
+import { create } from 'zustand';
+
+// Persist middleware - automatically saves state to localStorage
+import { persist } from 'zustand/middleware';
+
+// Type definitions
+import { BankQuestion, Difficulty, Question, QuestionType, Quiz } from '@/types';
+
+// Supabase sync helpers
+import { getSyncUserId } from '@/lib/flashcardSync';
+import { fetchRemoteQuestions, pushQuestionBankChanges } from '@/lib/questionBankSync';
+
+// Last-write-wins merge shared with other synced stores
+import { isNewer, mergeById } from '@/lib/syncMerge';
+
+// Duplicate detection and quiz ids
+import { findNearDuplicate } from '@/lib/questionDedup';
+import { createQuizId } from '@/lib/quizStore';
+
+/**
+ * NewBankQuestion - Fields needed to add a question
+ * Generated questions keep their id so quizzes and the bank agree.
+ */
+export type NewBankQuestion = Omit<BankQuestion, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+/**
+ * createQuestionId - Generates a unique id for hand-written questions
+ */
+const createQuestionId = (): string => `q-${crypto.randomUUID()}`;
+
+/**
+ * BankFilters - Criteria for narrowing the bank (null = any)
+ */
+export interface BankFilters {
+  query: string;                 // Text in the question, answer, topic or tags
+  subject: string | null;
+  topic: string | null;
+  tag: string | null;
+  difficulty: Difficulty | null;
+  type: QuestionType | null;
+}
+
+/**
+ * EMPTY_BANK_FILTERS - Filters that match every question
+ */
+export const EMPTY_BANK_FILTERS: BankFilters = {
+  query: '',
+  subject: null,
+  topic: null,
+  tag: null,
+  difficulty: null,
+  type: null,
+};
+
+/**
+ * filterBankQuestions - Questions matching every set filter, newest first
+ *
+ * @param questions - The question bank
+ * @param filters - Criteria to match
+ */
+export const filterBankQuestions = (questions: BankQuestion[], filters: BankFilters): BankQuestion[] => {
+  const needle = filters.query.trim().toLowerCase();
+  return questions
+    .filter(
+      (q) =>
+        (!filters.subject || q.subject === filters.subject) &&
+        (!filters.topic || q.topic === filters.topic) &&
+        (!filters.tag || q.tags.includes(filters.tag)) &&
+        (!filters.difficulty || q.difficulty === filters.difficulty) &&
+        (!filters.type || q.type === filters.type) &&
+        (!needle ||
+          [q.question, q.correctAnswer, q.topic ?? '', q.subject ?? '', ...q.tags].some((text) =>
+            text.toLowerCase().includes(needle)
+          ))
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * bankFacets - Subjects, topics and tags used in the bank, sorted
+ */
+export const bankFacets = (questions: BankQuestion[]) => {
+  const sorted = (values: (string | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+  return {
+    subjects: sorted(questions.map((q) => q.subject)),
+    topics: sorted(questions.map((q) => q.topic)),
+    tags: sorted(questions.flatMap((q) => q.tags)),
+  };
+};
+
+/**
+ * parseTags - Comma-separated tags, trimmed and without repeats
+ */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map((t) => t.trim()).filter(Boolean)));
+
+/**
+ * quizFromBank - New quiz made of bank questions
+ * Bank metadata is dropped; question ids are kept.
+ *
+ * @param questions - Questions in quiz order
+ * @param title - Quiz title
+ */
+export const quizFromBank = (questions: BankQuestion[], title: string): Quiz => ({
+  id: createQuizId(),
+  title,
+  source: 'Question bank',
+  questions: questions.map(
+    ({ subject, tags, origin, source, createdAt, updatedAt, ...question }): Question => question
+  ),
+  createdAt: new Date().toISOString(),
+  attempts: [],
+});
+
+/**
+ * QuestionBankState Interface
+ * Defines the shape of all question bank state and actions available
+ */
+interface QuestionBankState {
+  // Every question in the bank
+  questions: BankQuestion[];
+
+  // Ids removed locally that still need to be deleted remotely
+  deletedQuestionIds: string[];
+
+  // When the last successful sync finished (ISO 8601)
+  lastSyncedAt: string | null;
+
+  // Whether a sync is currently running (not persisted)
+  isSyncing: boolean;
+
+  /**
+   * Add questions, skipping near-duplicates of ones already in the bank
+   */
+  addQuestions: (questions: NewBankQuestion[]) => { added: BankQuestion[]; duplicates: number };
+
+  /**
+   * Add a question or replace the one with the same id (no duplicate check)
+   */
+  saveQuestion: (question: NewBankQuestion) => BankQuestion;
+
+  /**
+   * Delete questions from the bank
+   */
+  deleteQuestions: (ids: string[]) => void;
+
+  /**
+   * Check whether there are local changes not yet synced
+   */
+  hasPendingChanges: () => boolean;
+
+  /**
+   * Sync the local bank with Supabase
+   * No-op when signed out; local data is kept either way
+   */
+  sync: () => Promise<void>;
+
+  /**
+   * Clear the local bank (called on logout)
+   */
+  reset: () => void;
+}
+
+/**
+ * useQuestionBankStore - Question bank state hook
+ * Created with Zustand, persisted to localStorage under 'graspify-question-bank-storage'
+ */
+export const useQuestionBankStore = create<QuestionBankState>()(
+  persist(
+    (set, get) => ({
+      questions: [],
+      deletedQuestionIds: [],
+      lastSyncedAt: null,
+      isSyncing: false,
+
+      /**
+       * addQuestions - Add new questions to the bank
+       * A question is skipped when it duplicates one in the bank or one
+       * added earlier in the same call.
+       *
+       * @param questions - Questions to add
+       * @returns The questions added and how many were skipped
+       */
+      addQuestions: (questions) => {
+        const now = new Date().toISOString();
+        const added: BankQuestion[] = [];
+        let duplicates = 0;
+
+        for (const question of questions) {
+          const candidate: BankQuestion = {
+            ...question,
+            id: question.id ?? createQuestionId(),
+            createdAt: now,
+            updatedAt: now,
+          };
+          if (findNearDuplicate(candidate, [...get().questions, ...added])) {
+            duplicates += 1;
+          } else {
+            added.push(candidate);
+          }
+        }
+
+        if (added.length > 0) set((state) => ({ questions: [...state.questions, ...added] }));
+        return { added, duplicates };
+      },
+
+      /**
+       * saveQuestion - Store a hand-written or edited question
+       *
+       * @param question - Question to save; an existing id is updated in place
+       * @returns The saved question
+       */
+      saveQuestion: (question) => {
+        const now = new Date().toISOString();
+        const existing = question.id ? get().questions.find((q) => q.id === question.id) : undefined;
+        const saved: BankQuestion = {
+          ...question,
+          id: existing?.id ?? createQuestionId(),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+
+        set((state) => ({
+          questions: existing
+            ? state.questions.map((q) => (q.id === saved.id ? saved : q))
+            : [...state.questions, saved],
+        }));
+        return saved;
+      },
+
+      /**
+       * deleteQuestions - Remove questions
+       * Ids are remembered so the next sync deletes them remotely
+       *
+       * @param ids - Questions to delete
+       */
+      deleteQuestions: (ids) => {
+        const existing = get()
+          .questions.filter((q) => ids.includes(q.id))
+          .map((q) => q.id);
+        if (existing.length === 0) return;
+
+        set((state) => ({
+          questions: state.questions.filter((q) => !existing.includes(q.id)),
+          deletedQuestionIds: [...state.deletedQuestionIds, ...existing],
+        }));
+      },
+
+      /**
+       * hasPendingChanges - Check for unsynced edits or deletions
+       *
+       * @returns True if a sync would push something
+       */
+      hasPendingChanges: () => {
+        const { questions, deletedQuestionIds, lastSyncedAt } = get();
+        if (deletedQuestionIds.length > 0) return true;
+        if (!lastSyncedAt) return questions.length > 0;
+        return questions.some((q) => isNewer(q.updatedAt, lastSyncedAt));
+      },
+
+      /**
+       * sync - Two-way merge with Supabase (last write wins per question)
+       * Follows the same rules as the flashcard store's sync
+       */
+      sync: async () => {
+        if (get().isSyncing) return;
+
+        const userId = await getSyncUserId();
+        if (!userId) return;
+
+        const startedAt = new Date().toISOString();
+        set({ isSyncing: true });
+
+        try {
+          const { deletedQuestionIds, lastSyncedAt } = get();
+
+          await pushQuestionBankChanges(userId, { questions: [], deletedQuestionIds });
+
+          const remote = await fetchRemoteQuestions(userId);
+          const { merged, toPush } = mergeById(get().questions, remote, deletedQuestionIds, lastSyncedAt);
+
+          await pushQuestionBankChanges(userId, { questions: toPush, deletedQuestionIds: [] });
+
+          set((state) => {
+            // Keep anything edited locally while the sync was in flight
+            const final = new Map(merged.map((q) => [q.id, q]));
+            state.questions
+              .filter((q) => isNewer(q.updatedAt, startedAt))
+              .forEach((q) => final.set(q.id, q));
+
+            return {
+              questions: Array.from(final.values()),
+              deletedQuestionIds: state.deletedQuestionIds.filter((id) => !deletedQuestionIds.includes(id)),
+              lastSyncedAt: startedAt,
+            };
+          });
+        } catch (error) {
+          // Keep local data and pending changes; the next sync will retry
+          console.error('Error syncing question bank:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+
+      /**
+       * reset - Clear the local bank and sync bookkeeping
+       * Prevents one account's questions from being pushed into another
+       */
+      reset: () => {
+        set({
+          questions: [],
+          deletedQuestionIds: [],
+          lastSyncedAt: null,
+        });
+      },
+    }),
+    {
+      // Persist configuration - saves state to browser localStorage
+      name: 'graspify-question-bank-storage',
+      partialize: (state) => ({
+        questions: state.questions,
+        deletedQuestionIds: state.deletedQuestionIds,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
@@ -0,0 +1,101 @@
+/**
+ * Question Bank Sync Module
+ *
+ * Bridges the local question bank and the Supabase `question_bank` table:
+ * - Maps between app types (camelCase) and database rows (snake_case)
+ * - Pulls the signed-in user's questions
+ * - Pushes local changes and pending deletions
+ *
+ * Tags and subject get their own columns; the question itself (type,
+ * options, answers, explanation...) is stored as JSON.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { fetchAllPages } from '@/lib/syncMerge';
+import { BankQuestion, Question } from '@/types';
+
+/**
+ * Row shape of the `question_bank` table
+ */
+interface QuestionBankRow {
+  id: string;
+  user_id: string;
+  subject: string | null;
+  tags: string[];
+  origin: BankQuestion['origin'];
+  source: string | null;
+  question: Omit<Question, 'id'>;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Local changes to send to Supabase
+ */
+export interface QuestionBankChanges {
+  questions: BankQuestion[];       // Questions to upsert
+  deletedQuestionIds: string[];    // Questions removed locally since last sync
+}
+
+const questionToRow = (bankQuestion: BankQuestion, userId: string): QuestionBankRow => {
+  const { id, subject, tags, origin, source, createdAt, updatedAt, ...question } = bankQuestion;
+  return {
+    id,
+    user_id: userId,
+    subject: subject ?? null,
+    tags,
+    origin,
+    source: source ?? null,
+    question,
+    created_at: createdAt,
+    updated_at: updatedAt ?? createdAt,
+  };
+};
+
+const rowToQuestion = (row: QuestionBankRow): BankQuestion => ({
+  ...row.question,
+  id: row.id,
+  subject: row.subject ?? undefined,
+  tags: row.tags ?? [],
+  origin: row.origin,
+  source: row.source ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * fetchRemoteQuestions - Loads every bank question owned by the user
+ *
+ * @param userId - Supabase auth user id
+ * @returns The user's question bank
+ */
+export const fetchRemoteQuestions = async (userId: string): Promise<BankQuestion[]> => {
+  const rows = await fetchAllPages<QuestionBankRow>((from, to) =>
+    supabase.from('question_bank').select('*').eq('user_id', userId).order('id').range(from, to)
+  );
+  return rows.map(rowToQuestion);
+};
+
+/**
+ * pushQuestionBankChanges - Writes local changes to Supabase
+ *
+ * @param userId - Supabase auth user id
+ * @param changes - Questions to upsert and ids to delete
+ */
+export const pushQuestionBankChanges = async (userId: string, changes: QuestionBankChanges): Promise<void> => {
+  if (changes.deletedQuestionIds.length > 0) {
+    const { error } = await supabase
+      .from('question_bank')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', changes.deletedQuestionIds);
+    if (error) throw error;
+  }
+
+  if (changes.questions.length > 0) {
+    const { error } = await supabase
+      .from('question_bank')
+      .upsert(changes.questions.map((q) => questionToRow(q, userId)), { onConflict: 'user_id,id' });
+    if (error) throw error;
+  }
+};
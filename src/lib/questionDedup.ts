@@ -0,0 +1,125 @@
+/**
+ * Question Deduplication Module
+ *
+ * Spots questions that ask the same thing in slightly different words:
+ * - Question text is normalised (case, punctuation, spacing) and split
+ *   into character trigrams
+ * - Similarity is the Dice coefficient of the two trigram sets (0-1)
+ * - Very similar questions are near-duplicates; somewhat similar ones are
+ *   too when their correct answers match
+ * - Questions quoting different numbers ("2 + 3" vs "2 + 4") only count
+ *   when their answers match, however alike the wording
+ * Trigrams tolerate small rewordings and typos without any AI calls.
+ */
+
+// Type definitions
+import { Question } from '@/types';
+
+// Correct answers as text
+import { formatCorrectAnswer } from '@/lib/quizGrading';
+
+/**
+ * Similarity from which two questions are near-duplicates
+ */
+const DUPLICATE_THRESHOLD = 0.85;
+
+/**
+ * Lower similarity that still counts when the correct answers match
+ */
+const SAME_ANSWER_THRESHOLD = 0.7;
+
+/**
+ * Trigram sets already computed, per question object
+ */
+const trigramCache = new WeakMap<Question, Set<string>>();
+
+/**
+ * normalize - Lowercase words and numbers separated by single spaces
+ */
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * trigrams - Character trigrams of a text, padded so short words count
+ */
+const trigrams = (text: string): Set<string> => {
+  const padded = ` ${normalize(text)} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i += 1) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+/**
+ * numbersIn - The numbers a text quotes, in order
+ */
+const numbersIn = (text: string): string => (text.match(/\d+(?:[.,]\d+)?/g) ?? []).join(' ');
+
+const questionTrigrams = (question: Question): Set<string> => {
+  let grams = trigramCache.get(question);
+  if (!grams) {
+    grams = trigrams(question.question);
+    trigramCache.set(question, grams);
+  }
+  return grams;
+};
+
+/**
+ * questionSimilarity - How alike two questions' texts are
+ *
+ * @returns Dice coefficient from 0 (nothing shared) to 1 (same text)
+ */
+export const questionSimilarity = (a: Question, b: Question): number => {
+  const gramsA = questionTrigrams(a);
+  const gramsB = questionTrigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+
+  let shared = 0;
+  gramsA.forEach((gram) => {
+    if (gramsB.has(gram)) shared += 1;
+  });
+  return (2 * shared) / (gramsA.size + gramsB.size);
+};
+
+/**
+ * isNearDuplicate - Whether two questions ask the same thing
+ */
+export const isNearDuplicate = (a: Question, b: Question): boolean => {
+  const similarity = questionSimilarity(a, b);
+  if (similarity < SAME_ANSWER_THRESHOLD) return false;
+
+  // Every true/false question shares one of two answers, so that match means nothing
+  const sameAnswer =
+    a.type !== 'true_false' && normalize(formatCorrectAnswer(a)) === normalize(formatCorrectAnswer(b));
+  const sameNumbers = numbersIn(a.question) === numbersIn(b.question);
+  return sameAnswer || (sameNumbers && similarity >= DUPLICATE_THRESHOLD);
+};
+
+/**
+ * findNearDuplicate - First question in a pool that duplicates the given one
+ *
+ * @param question - Question to look for
+ * @param pool - Questions to search (the question itself is skipped by id)
+ * @returns The duplicate, if any
+ */
+export const findNearDuplicate = <Q extends Question>(question: Question, pool: Q[]): Q | undefined =>
+  pool.find((other) => other.id !== question.id && isNearDuplicate(question, other));
+
+/**
+ * duplicateGroups - Groups of questions that duplicate each other
+ * A question joins the first group holding one of its duplicates.
+ *
+ * @param questions - Questions to check
+ * @returns Groups of two or more questions, in pool order
+ */
+export const duplicateGroups = <Q extends Question>(questions: Q[]): Q[][] => {
+  const groups: Q[][] = [];
+  for (const question of questions) {
+    const group = groups.find((g) => g.some((other) => isNearDuplicate(question, other)));
+    if (group) group.push(question);
+    else groups.push([question]);
+  }
+  return groups.filter((g) => g.length > 1);
+};
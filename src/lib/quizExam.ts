@@ -0,0 +1,73 @@
+/**
+ * Quiz Exam Module
+ *
+ * Time limits for exam mode:
+ * - Default settings and the allowed range of each limit
+ * - Time left for the whole exam or a single question
+ * - Countdown formatting
+ * Time is tracked in milliseconds per question id while that question is shown.
+ */
+
+// Type definitions
+import { ExamSettings } from '@/types';
+
+/**
+ * Settings used until the student changes them
+ */
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  timeLimit: 'overall',
+  overallMinutes: 15,
+  perQuestionSeconds: 60,
+};
+
+/**
+ * Allowed limits for the whole exam (minutes) and per question (seconds)
+ */
+export const OVERALL_MINUTES_RANGE = { min: 1, max: 180 };
+export const PER_QUESTION_SECONDS_RANGE = { min: 10, max: 600 };
+
+/**
+ * QuestionTimes - Milliseconds spent on each question, by question id
+ */
+export type QuestionTimes = Record<string, number>;
+
+/**
+ * totalTime - Milliseconds spent on the exam so far
+ */
+export const totalTime = (times: QuestionTimes): number =>
+  Object.values(times).reduce((sum, ms) => sum + ms, 0);
+
+/**
+ * examTimeLeft - Milliseconds left for the whole exam
+ *
+ * @returns Time left, or null when the exam has no overall limit
+ */
+export const examTimeLeft = (settings: ExamSettings, times: QuestionTimes): number | null =>
+  settings.timeLimit === 'overall' ? Math.max(0, settings.overallMinutes * 60_000 - totalTime(times)) : null;
+
+/**
+ * questionTimeLeft - Milliseconds left for one question
+ *
+ * @returns Time left, or null when questions have no limit of their own
+ */
+export const questionTimeLeft = (settings: ExamSettings, times: QuestionTimes, questionId: string): number | null =>
+  settings.timeLimit === 'per_question'
+    ? Math.max(0, settings.perQuestionSeconds * 1000 - (times[questionId] ?? 0))
+    : null;
+
+/**
+ * toSeconds - Per-question times rounded to whole seconds, for attempt history
+ */
+export const toSeconds = (times: QuestionTimes): Record<string, number> =>
+  Object.fromEntries(Object.entries(times).map(([id, ms]) => [id, Math.round(ms / 1000)]));
+
+/**
+ * formatClock - Countdown text, e.g. "4:05" or "1:02:30"
+ */
+export const formatClock = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
@@ -0,0 +1,166 @@
+/**
+ * Quiz Grading Module
+ *
+ * Checks a student's response against a question, one grader per
+ * question type:
+ * - Choice questions compare the picked option(s) exactly
+ * - Written answers are compared loosely (case, spacing, punctuation)
+ * - Numeric answers are accepted within the question's tolerance
+ * Written answers that miss the exact wording can also be graded by the AI
+ * (gradeFreeTextAnswer in gemini.ts) for partial credit.
+ */
+
+// Type definitions
+import { Question, QuestionType, QuizAnswer } from '@/types';
+
+/**
+ * QuizResponse - What the student answered
+ * Multi-select questions take a list of options; everything else a string.
+ */
+export type QuizResponse = string | string[];
+
+/**
+ * Display name of each question type
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  multi_select: 'Multi-select',
+  true_false: 'True / False',
+  short: 'Short answer',
+  fill_blank: 'Fill in the blank',
+  numeric: 'Numeric',
+  free_response: 'Free response',
+};
+
+/**
+ * Options used for true/false questions
+ */
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+/**
+ * Least AI credit that counts an answer as correct
+ */
+export const PASSING_CREDIT = 0.75;
+
+/**
+ * normalizeText - Loose form of a written answer
+ * Ignores case, repeated spaces, surrounding math delimiters and a trailing full stop.
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/^\$+|\$+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!]+$/, '')
+    .trim();
+
+/**
+ * parseNumber - Read a number typed by a student
+ * Accepts thousands separators, a decimal comma and a trailing unit.
+ *
+ * @returns The number, or null if there is none
+ */
+export const parseNumber = (text: string): number | null => {
+  const cleaned = text.trim().replace(/(\d)[\s_](?=\d{3}\b)/g, '$1').replace(/,(?=\d{3}\b)/g, '');
+  const match = /^[-+]?(\d+([.,]\d*)?|[.,]\d+)(e[-+]?\d+)?/i.exec(cleaned);
+  if (!match) return null;
+  const value = Number(match[0].replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const asList = (response: QuizResponse): string[] => (Array.isArray(response) ? response : [response]);
+const asText = (response: QuizResponse): string => (Array.isArray(response) ? response.join(', ') : response);
+
+/**
+ * Grader for each question type
+ */
+const GRADERS: Record<QuestionType, (question: Question, response: QuizResponse) => boolean> = {
+  mcq: (question, response) => asText(response) === question.correctAnswer,
+
+  true_false: (question, response) => asText(response) === question.correctAnswer,
+
+  multi_select: (question, response) => {
+    const picked = new Set(asList(response));
+    const correct = question.correctAnswers ?? [];
+    return picked.size === correct.length && correct.every((option) => picked.has(option));
+  },
+
+  short: (question, response) => {
+    const answer = normalizeText(asText(response));
+    return [question.correctAnswer, ...(question.acceptedAnswers ?? [])].some((a) => normalizeText(a) === answer);
+  },
+
+  fill_blank: (question, response) => GRADERS.short(question, response),
+
+  // Only a verbatim model answer passes locally; anything else needs AI grading
+  free_response: (question, response) => GRADERS.short(question, response),
+
+  numeric: (question, response) => {
+    const value = parseNumber(asText(response));
+    const target = parseNumber(question.correctAnswer);
+    if (value === null || target === null) return false;
+    // Tiny margin so 0.1 + 0.2 style rounding never fails an exact answer
+    return Math.abs(value - target) <= (question.tolerance ?? 0) + 1e-9;
+  },
+};
+
+/**
+ * gradeResponse - Check whether a response is correct
+ *
+ * @param question - Question being answered
+ * @param response - Student's response
+ * @returns True if the response is accepted
+ */
+export const gradeResponse = (question: Question, response: QuizResponse): boolean =>
+  GRADERS[question.type](question, response);
+
+/**
+ * needsAIGrading - Whether a response should go to the AI grader
+ * True for written explanations that the exact-match grader rejected.
+ */
+export const needsAIGrading = (question: Question, response: QuizResponse): boolean =>
+  (question.type === 'short' || question.type === 'free_response') && !gradeResponse(question, response);
+
+/**
+ * answerCredit - Marks earned by a graded answer, 0 to 1
+ */
+export const answerCredit = (answer: QuizAnswer): number => answer.credit ?? (answer.correct ? 1 : 0);
+
+/**
+ * totalCredit - Score of a set of answers (partial credit included)
+ */
+export const totalCredit = (answers: QuizAnswer[]): number =>
+  answers.reduce((sum, answer) => sum + answerCredit(answer), 0);
+
+/**
+ * isResponseComplete - Whether a response can be submitted
+ */
+export const isResponseComplete = (question: Question, response: QuizResponse | null): boolean => {
+  if (response === null) return false;
+  if (question.type === 'numeric') return parseNumber(asText(response)) !== null;
+  return asList(response).some((value) => value.trim() !== '');
+};
+
+/**
+ * formatResponse - Response as text, for attempt history
+ */
+export const formatResponse = (response: QuizResponse): string => asText(response);
+
+/**
+ * formatCorrectAnswer - The expected answer written out for feedback
+ */
+export const formatCorrectAnswer = (question: Question): string => {
+  switch (question.type) {
+    case 'multi_select':
+      return (question.correctAnswers ?? []).join(', ');
+    case 'numeric': {
+      const unit = question.unit ? ` ${question.unit}` : '';
+      const tolerance = question.tolerance ? ` (± ${question.tolerance}${unit})` : '';
+      return `${question.correctAnswer}${unit}${tolerance}`;
+    }
+    default:
+      return question.correctAnswer;
+  }
+};
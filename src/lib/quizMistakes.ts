@@ -0,0 +1,83 @@
+/**
+ * Quiz Mistakes Module
+ *
+ * Turns what a student got wrong in a quiz attempt into follow-up study:
+ * - Flashcards for the Mistakes deck (question on the front, correct
+ *   answer and explanation on the back), scheduled like any other card
+ * - A quiz holding only the missed questions, for a quick retry
+ */
+
+// Type definitions
+import { Question, Quiz, QuizAttempt } from '@/types';
+
+// Card shape accepted by the flashcard store
+import type { NewFlashcard } from '@/lib/flashcardStore';
+
+// Correct answers as text and new quiz ids
+import { formatCorrectAnswer } from '@/lib/quizGrading';
+import { createQuizId } from '@/lib/quizStore';
+
+/**
+ * Prefix for the title of a quiz made from missed questions
+ */
+const RETRY_TITLE_PREFIX = 'Missed: ';
+
+/**
+ * missedQuestions - Questions answered wrongly (or left blank) in an attempt
+ * Answers that earned partial credit below the pass mark count as missed.
+ *
+ * @param quiz - Quiz the attempt belongs to
+ * @param attempt - Graded attempt
+ * @returns Missed questions, in the order they were answered
+ */
+export const missedQuestions = (quiz: Quiz, attempt: QuizAttempt): Question[] => {
+  const questionsById = new Map(quiz.questions.map((q) => [q.id, q]));
+  return attempt.answers
+    .filter((answer) => !answer.correct)
+    .map((answer) => questionsById.get(answer.questionId))
+    .filter((question): question is Question => !!question);
+};
+
+/**
+ * mistakeFlashcard - Flashcard that drills one missed question
+ * Choice questions keep their options on the front so the card can be answered.
+ *
+ * @param question - Missed question
+ * @returns Card content for the flashcard store
+ */
+export const mistakeFlashcard = (question: Question): NewFlashcard => {
+  const options = question.options?.length
+    ? `\n\n${question.options.map((option) => `- ${option}`).join('\n')}`
+    : '';
+  const explanation = question.explanation ? `\n\n${question.explanation}` : '';
+
+  return {
+    front: `${question.question}${options}`,
+    back: `**Answer:** ${formatCorrectAnswer(question)}${explanation}`,
+    difficulty: question.difficulty,
+  };
+};
+
+/**
+ * missedQuestionsQuiz - New quiz made of the questions an attempt missed
+ *
+ * @param quiz - Quiz the attempt belongs to
+ * @param attempt - Graded attempt
+ * @returns The retry quiz, or null when nothing was missed
+ */
+export const missedQuestionsQuiz = (quiz: Quiz, attempt: QuizAttempt): Quiz | null => {
+  const questions = missedQuestions(quiz, attempt);
+  if (questions.length === 0) return null;
+
+  // Retrying a retry keeps a single prefix
+  const title = quiz.title.startsWith(RETRY_TITLE_PREFIX) ? quiz.title : `${RETRY_TITLE_PREFIX}${quiz.title}`;
+
+  return {
+    id: createQuizId(),
+    title,
+    source: quiz.source,
+    questions,
+    createdAt: new Date().toISOString(),
+    attempts: [],
+  };
+};
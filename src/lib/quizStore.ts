@@ -0,0 +1,298 @@
+/**
+ * Quiz Library Store Module - Zustand State Management
+ *
+ * This module keeps the student's generated quizzes:
+ * - Local-first storage so quizzes can be retaken offline
+ * - Attempt history per quiz (score, time taken, graded answers)
+ * - Deleting quizzes that are no longer needed
+ * - Two-way sync with Supabase when the user is signed in
+ *
+ * Uses Zustand with persist middleware for localStorage persistence
+ */
+
+// Zustand - lightweight state management library
+import { create } from 'zustand';
+
+// Persist middleware - automatically saves state to localStorage
+import { persist } from 'zustand/middleware';
+
+// Type definitions for quizzes
+import { Quiz, QuizAttempt } from '@/types';
+
+// Supabase sync helpers
+import { getSyncUserId } from '@/lib/flashcardSync';
+import { fetchRemoteQuizzes, pushQuizChanges } from '@/lib/quizSync';
+
+// Last-write-wins merge shared with other synced stores
+import { isNewer, mergeById, unionById } from '@/lib/syncMerge';
+
+/**
+ * Longest auto-generated quiz title (characters)
+ */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Characters of source material kept as the quiz's source preview
+ */
+const SOURCE_PREVIEW_LENGTH = 160;
+
+/**
+ * createQuizId - Generates a unique id for quizzes
+ */
+export const createQuizId = (): string => `quiz-${crypto.randomUUID()}`;
+
+/**
+ * mergeAttempts - Attempts from both copies of a quiz, oldest first
+ * Attempts are only ever added, so both devices' histories are kept.
+ */
+const mergeAttempts = (local: QuizAttempt[], remote: QuizAttempt[]): QuizAttempt[] =>
+  unionById(local, remote).sort((a, b) => Date.parse(a.completedAt) - Date.parse(b.completedAt));
+
+const shorten = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length).trimEnd()}...` : text;
+
+/**
+ * quizTitleFromSource - Quiz title from its focus topics or first line of material
+ *
+ * @param sourceText - Material the quiz was generated from
+ * @param topics - Focus topics chosen for the quiz
+ * @returns A short title
+ */
+export const quizTitleFromSource = (sourceText: string, topics: string[] = []): string => {
+  const focus = topics.map((t) => t.trim()).filter(Boolean);
+  if (focus.length > 0) return shorten(focus.join(', '), MAX_TITLE_LENGTH);
+
+  const line = sourceText.split('\n').find((l) => l.trim())?.trim() ?? '';
+  return line ? shorten(line.replace(/^#+\s*/, ''), MAX_TITLE_LENGTH) : 'Untitled quiz';
+};
+
+/**
+ * sourcePreview - Start of the source material, on one line
+ */
+export const sourcePreview = (sourceText: string): string =>
+  shorten(sourceText.replace(/\s+/g, ' ').trim(), SOURCE_PREVIEW_LENGTH);
+
+/**
+ * attemptPercent - Score of an attempt as a whole percentage
+ */
+export const attemptPercent = (attempt: QuizAttempt): number =>
+  attempt.totalQuestions > 0 ? Math.round((attempt.score / attempt.totalQuestions) * 100) : 0;
+
+/**
+ * attemptDurationSeconds - Time taken for an attempt, if it was recorded
+ */
+export const attemptDurationSeconds = (attempt: QuizAttempt): number | null => {
+  if (!attempt.startedAt) return null;
+  const ms = Date.parse(attempt.completedAt) - Date.parse(attempt.startedAt);
+  return Number.isFinite(ms) && ms >= 0 ? Math.round(ms / 1000) : null;
+};
+
+/**
+ * sortQuizzes - Most recently taken or created first
+ */
+export const sortQuizzes = (quizzes: Quiz[]): Quiz[] => {
+  const lastActivity = (quiz: Quiz) => quiz.attempts[quiz.attempts.length - 1]?.completedAt ?? quiz.createdAt;
+  return [...quizzes].sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
+};
+
+/**
+ * QuizState Interface
+ * Defines the shape of all quiz library state and actions available
+ */
+interface QuizState {
+  // Saved quizzes, each holding its questions and attempts
+  quizzes: Quiz[];
+
+  // Ids removed locally that still need to be deleted remotely
+  deletedQuizIds: string[];
+
+  // When the last successful sync finished (ISO 8601)
+  lastSyncedAt: string | null;
+
+  // Whether a sync is currently running (not persisted)
+  isSyncing: boolean;
+
+  /**
+   * Add a newly generated quiz to the library
+   */
+  saveQuiz: (quiz: Quiz) => void;
+
+  /**
+   * Append a finished attempt to a quiz's history
+   */
+  recordAttempt: (quizId: string, attempt: QuizAttempt) => void;
+
+  /**
+   * Delete a quiz and its attempts
+   */
+  deleteQuiz: (quizId: string) => void;
+
+  /**
+   * Check whether there are local changes not yet synced
+   */
+  hasPendingChanges: () => boolean;
+
+  /**
+   * Sync local quizzes with Supabase
+   * No-op when signed out; local data is kept either way
+   */
+  sync: () => Promise<void>;
+
+  /**
+   * Clear all local quizzes (called on logout)
+   */
+  reset: () => void;
+}
+
+/**
+ * useQuizStore - Quiz library state hook
+ * Created with Zustand, persisted to localStorage under 'graspify-quiz-storage'
+ */
+export const useQuizStore = create<QuizState>()(
+  persist(
+    (set, get) => ({
+      quizzes: [],
+      deletedQuizIds: [],
+      lastSyncedAt: null,
+      isSyncing: false,
+
+      /**
+       * saveQuiz - Store a quiz (replacing any saved copy with the same id)
+       *
+       * @param quiz - Quiz to save
+       */
+      saveQuiz: (quiz) => {
+        const saved = { ...quiz, updatedAt: new Date().toISOString() };
+        set((state) => ({ quizzes: [...state.quizzes.filter((q) => q.id !== quiz.id), saved] }));
+      },
+
+      /**
+       * recordAttempt - Add an attempt and bump the quiz's timestamp
+       *
+       * @param quizId - Quiz that was taken
+       * @param attempt - The finished attempt
+       */
+      recordAttempt: (quizId, attempt) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          quizzes: state.quizzes.map((q) =>
+            q.id === quizId ? { ...q, attempts: [...q.attempts, attempt], updatedAt: now } : q
+          ),
+        }));
+      },
+
+      /**
+       * deleteQuiz - Remove a quiz
+       * The id is remembered so the next sync deletes it remotely
+       *
+       * @param quizId - Quiz to delete
+       */
+      deleteQuiz: (quizId) => {
+        if (!get().quizzes.some((q) => q.id === quizId)) return;
+
+        set((state) => ({
+          quizzes: state.quizzes.filter((q) => q.id !== quizId),
+          deletedQuizIds: [...state.deletedQuizIds, quizId],
+        }));
+      },
+
+      /**
+       * hasPendingChanges - Check for unsynced edits or deletions
+       *
+       * @returns True if a sync would push something
+       */
+      hasPendingChanges: () => {
+        const { quizzes, deletedQuizIds, lastSyncedAt } = get();
+        if (deletedQuizIds.length > 0) return true;
+        if (!lastSyncedAt) return quizzes.length > 0;
+        return quizzes.some((q) => isNewer(q.updatedAt, lastSyncedAt));
+      },
+
+      /**
+       * sync - Two-way merge with Supabase
+       * Quiz details follow the same last-write-wins rules as the flashcard
+       * store's sync; attempts recorded on either side are all kept
+       */
+      sync: async () => {
+        if (get().isSyncing) return;
+
+        const userId = await getSyncUserId();
+        if (!userId) return;
+
+        const startedAt = new Date().toISOString();
+        set({ isSyncing: true });
+
+        try {
+          const { deletedQuizIds, lastSyncedAt } = get();
+
+          await pushQuizChanges(userId, { quizzes: [], deletedQuizIds });
+
+          const remote = await fetchRemoteQuizzes(userId);
+          const local = get().quizzes;
+          const { merged, toPush } = mergeById(local, remote, deletedQuizIds, lastSyncedAt);
+
+          // Combine attempts of quizzes on both sides, pushing any the remote copy lacks
+          const localById = new Map(local.map((q) => [q.id, q]));
+          const remoteById = new Map(remote.map((q) => [q.id, q]));
+          const pushIds = new Set(toPush.map((q) => q.id));
+          const quizzes = merged.map((quiz) => {
+            const localQuiz = localById.get(quiz.id);
+            const remoteQuiz = remoteById.get(quiz.id);
+            if (!localQuiz || !remoteQuiz) return quiz;
+
+            const attempts = mergeAttempts(localQuiz.attempts, remoteQuiz.attempts);
+            if (attempts.length > remoteQuiz.attempts.length) pushIds.add(quiz.id);
+            return { ...quiz, attempts };
+          });
+
+          await pushQuizChanges(userId, {
+            quizzes: quizzes.filter((q) => pushIds.has(q.id)),
+            deletedQuizIds: [],
+          });
+
+          set((state) => {
+            // Keep anything edited locally while the sync was in flight
+            const final = new Map(quizzes.map((q) => [q.id, q]));
+            state.quizzes
+              .filter((q) => isNewer(q.updatedAt, startedAt))
+              .forEach((q) =>
+                final.set(q.id, { ...q, attempts: mergeAttempts(q.attempts, final.get(q.id)?.attempts ?? []) })
+              );
+
+            return {
+              quizzes: Array.from(final.values()),
+              deletedQuizIds: state.deletedQuizIds.filter((id) => !deletedQuizIds.includes(id)),
+              lastSyncedAt: startedAt,
+            };
+          });
+        } catch (error) {
+          // Keep local data and pending changes; the next sync will retry
+          console.error('Error syncing quizzes:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+
+      /**
+       * reset - Clear local quizzes and sync bookkeeping
+       * Prevents one account's quizzes from being pushed into another
+       */
+      reset: () => {
+        set({
+          quizzes: [],
+          deletedQuizIds: [],
+          lastSyncedAt: null,
+        });
+      },
+    }),
+    {
+      // Persist configuration - saves state to browser localStorage
+      name: 'graspify-quiz-storage',
+      partialize: (state) => ({
+        quizzes: state.quizzes,
+        deletedQuizIds: state.deletedQuizIds,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
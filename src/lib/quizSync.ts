@@ -0,0 +1,98 @@
+/**
+ * Quiz Sync Module
+ *
+ * Bridges the local quiz library and the Supabase `quizzes` table:
+ * - Maps between app types (camelCase) and database rows (snake_case)
+ * - Pulls the signed-in user's quizzes
+ * - Pushes local changes and pending deletions
+ *
+ * Questions and attempts are stored as JSON arrays on the quiz row; the
+ * store merges attempts from both sides before pushing (see quizStore.ts).
+ */
+
+import { supabase } from '@/lib/supabase';
+import { fetchAllPages } from '@/lib/syncMerge';
+import { Question, Quiz, QuizAttempt } from '@/types';
+
+/**
+ * Row shape of the `quizzes` table
+ */
+interface QuizRow {
+  id: string;
+  user_id: string;
+  title: string;
+  source: string;
+  questions: Question[];
+  attempts: QuizAttempt[];
+  share_code: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Local changes to send to Supabase
+ */
+export interface QuizChanges {
+  quizzes: Quiz[];               // Quizzes to upsert
+  deletedQuizIds: string[];      // Quizzes removed locally since last sync
+}
+
+const quizToRow = (quiz: Quiz, userId: string): QuizRow => ({
+  id: quiz.id,
+  user_id: userId,
+  title: quiz.title,
+  source: quiz.source,
+  questions: quiz.questions,
+  attempts: quiz.attempts,
+  share_code: quiz.shareCode ?? null,
+  created_at: quiz.createdAt,
+  updated_at: quiz.updatedAt ?? quiz.createdAt,
+});
+
+const rowToQuiz = (row: QuizRow): Quiz => ({
+  id: row.id,
+  title: row.title,
+  source: row.source,
+  questions: row.questions ?? [],
+  attempts: row.attempts ?? [],
+  shareCode: row.share_code ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * fetchRemoteQuizzes - Loads every quiz owned by the user
+ *
+ * @param userId - Supabase auth user id
+ * @returns Quizzes with their questions and attempts
+ */
+export const fetchRemoteQuizzes = async (userId: string): Promise<Quiz[]> => {
+  const rows = await fetchAllPages<QuizRow>((from, to) =>
+    supabase.from('quizzes').select('*').eq('user_id', userId).order('id').range(from, to)
+  );
+  return rows.map(rowToQuiz);
+};
+
+/**
+ * pushQuizChanges - Writes local changes to Supabase
+ *
+ * @param userId - Supabase auth user id
+ * @param changes - Quizzes to upsert and ids to delete
+ */
+export const pushQuizChanges = async (userId: string, changes: QuizChanges): Promise<void> => {
+  if (changes.deletedQuizIds.length > 0) {
+    const { error } = await supabase
+      .from('quizzes')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', changes.deletedQuizIds);
+    if (error) throw error;
+  }
+
+  if (changes.quizzes.length > 0) {
+    const { error } = await supabase
+      .from('quizzes')
+      .upsert(changes.quizzes.map((q) => quizToRow(q, userId)), { onConflict: 'user_id,id' });
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * Review Queue Module
+ *
+ * Builds the flashcard study queue from SM-2 scheduling data:
+ * - Only cards whose nextReviewDate has passed are shown
+ * - Per-deck daily limits for new cards and reviews
+ * - Lapsed cards are re-inserted later in the same session
+ * - Reports when the next card becomes due if nothing is due now
+ *
+ * All functions are pure; the Flashcards page keeps the queue in state.
+ */
+
+import { Flashcard, FlashcardDeck } from '@/types';
+
+/**
+ * Default daily limits used when a deck has none configured
+ */
+export const DEFAULT_NEW_CARDS_PER_DAY = 20;
+export const DEFAULT_REVIEWS_PER_DAY = 200;
+
+/**
+ * How many cards a lapsed card waits before it is shown again
+ */
+export const LAPSE_REINSERT_OFFSET = 3;
+
+/**
+ * StudiedToday - Cards already studied today, per deck
+ * Counted against the deck's daily limits
+ */
+export type StudiedToday = Record<string, { newCards: number; reviews: number }>;
+
+/**
+ * ReviewQueue - Result of building a study session
+ */
+export interface ReviewQueue {
+  cardIds: string[];          // Cards to study, in order
+  newCount: number;           // How many of them are new
+  reviewCount: number;        // How many of them are reviews
+  limitedCount: number;       // Due cards held back by daily limits
+  nextDueAt: string | null;   // When the next card becomes available (ISO 8601)
+}
+
+/**
+ * isNewCard - Whether a card has never been reviewed
+ */
+export const isNewCard = (card: Flashcard): boolean => !card.lastReviewDate;
+
+/**
+ * isDue - Whether a card should be reviewed at the given time
+ */
+export const isDue = (card: Flashcard, now: Date = new Date()): boolean =>
+  new Date(card.nextReviewDate).getTime() <= now.getTime();
+
+/**
+ * getTodayKey - Local calendar date used to reset daily limits (YYYY-MM-DD)
+ */
+export const getTodayKey = (now: Date = new Date()): string => {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * startOfTomorrow - When daily limits reset (local midnight)
+ */
+const startOfTomorrow = (now: Date): Date => {
+  const tomorrow = new Date(now);
+  tomorrow.setHours(24, 0, 0, 0);
+  return tomorrow;
+};
+
+/**
+ * buildReviewQueue - Build today's queue for the given decks
+ *
+ * Reviews come first (most overdue first), followed by new cards in the
+ * order they were created. Each deck contributes at most its remaining
+ * daily allowance of new cards and reviews.
+ *
+ * @param decks - Decks to study (one deck, or all for "all due cards")
+ * @param studiedToday - Cards already studied today per deck
+ * @param now - Reference time
+ * @returns Queue of card ids plus counts and the next due time
+ */
+export const buildReviewQueue = (
+  decks: FlashcardDeck[],
+  studiedToday: StudiedToday = {},
+  now: Date = new Date()
+): ReviewQueue => {
+  const reviews: Flashcard[] = [];
+  const newCards: Flashcard[] = [];
+  let limitedCount = 0;
+  let nextDueAt: number | null = null;
+
+  for (const deck of decks) {
+    const studied = studiedToday[deck.id] ?? { newCards: 0, reviews: 0 };
+    const newLimit = Math.max(0, (deck.newCardsPerDay ?? DEFAULT_NEW_CARDS_PER_DAY) - studied.newCards);
+    const reviewLimit = Math.max(0, (deck.reviewsPerDay ?? DEFAULT_REVIEWS_PER_DAY) - studied.reviews);
+
+    const dueReviews = deck.cards
+      .filter((c) => !isNewCard(c) && isDue(c, now))
+      .sort((a, b) => a.nextReviewDate.localeCompare(b.nextReviewDate));
+    const dueNew = deck.cards
+      .filter((c) => isNewCard(c) && isDue(c, now))
+      .sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? ''));
+
+    reviews.push(...dueReviews.slice(0, reviewLimit));
+    newCards.push(...dueNew.slice(0, newLimit));
+    limitedCount += Math.max(0, dueReviews.length - reviewLimit) + Math.max(0, dueNew.length - newLimit);
+
+    // Earliest future review in this deck
+    for (const card of deck.cards) {
+      const dueAt = new Date(card.nextReviewDate).getTime();
+      if (dueAt > now.getTime() && (nextDueAt === null || dueAt < nextDueAt)) nextDueAt = dueAt;
+    }
+  }
+
+  // Cards held back by limits become available when the day rolls over
+  if (limitedCount > 0) {
+    const tomorrow = startOfTomorrow(now).getTime();
+    if (nextDueAt === null || tomorrow < nextDueAt) nextDueAt = tomorrow;
+  }
+
+  reviews.sort((a, b) => a.nextReviewDate.localeCompare(b.nextReviewDate));
+
+  return {
+    cardIds: [...reviews, ...newCards].map((c) => c.id),
+    newCount: newCards.length,
+    reviewCount: reviews.length,
+    limitedCount,
+    nextDueAt: nextDueAt === null ? null : new Date(nextDueAt).toISOString(),
+  };
+};
+
+/**
+ * requeueLapsedCard - Put a lapsed card back into the current session
+ *
+ * @param queue - Remaining card ids (the lapsed card already removed)
+ * @param cardId - Card that was failed
+ * @param offset - How many cards to show before it comes back
+ * @returns New queue with the card re-inserted
+ */
+export const requeueLapsedCard = (
+  queue: string[],
+  cardId: string,
+  offset: number = LAPSE_REINSERT_OFFSET
+): string[] => {
+  const position = Math.min(offset, queue.length);
+  return [...queue.slice(0, position), cardId, ...queue.slice(position)];
+};
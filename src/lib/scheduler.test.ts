@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { ReviewQuality, schedule } from '@/lib/scheduler';
+import { Flashcard, SchedulerAlgorithm } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2024-01-01T09:00:00.000Z');
+
+const newCard = (): Flashcard => ({
+  id: 'card-1',
+  deckId: 'deck-1',
+  front: 'Front',
+  back: 'Back',
+  difficulty: 'medium',
+  interval: 0,
+  easeFactor: 2.5,
+  repetitions: 0,
+  nextReviewDate: START.toISOString(),
+});
+
+/**
+ * review - Apply a sequence of reviews, each on the day the previous one was due
+ */
+const review = (qualities: ReviewQuality[], algorithm: SchedulerAlgorithm): Flashcard[] => {
+  const history: Flashcard[] = [];
+  let card = newCard();
+  let now = START;
+  for (const quality of qualities) {
+    card = schedule(card, quality, now, algorithm);
+    history.push(card);
+    now = new Date(now.getTime() + card.interval * DAY_MS);
+  }
+  return history;
+};
+
+describe('schedule (SM-2)', () => {
+  it('follows the 1, 6, interval × EF sequence on correct answers', () => {
+    const [first, second, third] = review([4, 5, 4], 'sm2');
+
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, easeFactor: 2.5 });
+    expect(second).toMatchObject({ interval: 6, repetitions: 2, easeFactor: 2.6 });
+    expect(third).toMatchObject({ interval: 16, repetitions: 3, easeFactor: 2.6 });
+    expect(third.nextReviewDate).toBe('2024-01-24T09:00:00.000Z');
+  });
+
+  it('restarts a lapsed card without changing its EF', () => {
+    const [, , , lapse, relearn] = review([4, 5, 4, 1, 3], 'sm2');
+
+    expect(lapse).toMatchObject({ interval: 1, repetitions: 0, easeFactor: 2.6, lapses: 1 });
+    expect(relearn).toMatchObject({ interval: 1, repetitions: 1, easeFactor: 2.46, lapses: 1 });
+  });
+
+  it('never lowers EF below 1.3', () => {
+    const cards = review([3, 3, 3, 3, 3, 3, 3, 3, 3, 3], 'sm2');
+    expect(cards[cards.length - 1].easeFactor).toBe(1.3);
+  });
+
+  it('does not mutate the reviewed card', () => {
+    const card = newCard();
+    schedule(card, 4, START, 'sm2');
+    expect(card).toEqual(newCard());
+  });
+});
+
+describe('schedule (FSRS)', () => {
+  it('starts from the default stability and difficulty of the first grade', () => {
+    const [good] = review([4], 'fsrs');
+    expect(good).toMatchObject({ stability: 3.7145, fsrsDifficulty: 5.1618, interval: 4, repetitions: 1 });
+
+    const [hard] = review([3], 'fsrs');
+    expect(hard).toMatchObject({ stability: 1.4003, fsrsDifficulty: 6.3916, interval: 1 });
+  });
+
+  it('grows stability on recall and schedules at 90% retention', () => {
+    const [, second] = review([4, 4], 'fsrs');
+    expect(second).toMatchObject({ stability: 14.8081, fsrsDifficulty: 5.1618, interval: 15, repetitions: 2 });
+  });
+
+  it('computes the new stability from the difficulty before the review', () => {
+    const [, , lapse] = review([4, 4, 1], 'fsrs');
+    expect(lapse).toMatchObject({ stability: 3.1493, fsrsDifficulty: 6.9012, interval: 3, repetitions: 0, lapses: 1 });
+
+    const [, easy] = review([3, 5], 'fsrs');
+    expect(easy).toMatchObject({ stability: 8.8615, fsrsDifficulty: 5.4838, interval: 9 });
+  });
+});
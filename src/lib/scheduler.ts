@@ -0,0 +1,250 @@
+/**
+ * Spaced Repetition Scheduler
+ *
+ * Pure scheduling functions for flashcard reviews:
+ * - SM-2 (SuperMemo 2) with the original 0-5 quality scale
+ * - FSRS (Free Spaced Repetition Scheduler, v4.5 default weights)
+ *
+ * `schedule(card, rating, now, algorithm)` never mutates its input and does
+ * not read the clock, so the same inputs always give the same card.
+ */
+
+import { Flashcard, SchedulerAlgorithm } from '@/types';
+
+/**
+ * ReviewQuality - SM-2 answer quality
+ * 0 = blackout, 1 = wrong but remembered on seeing the answer,
+ * 2 = wrong but felt easy to recall, 3 = correct with serious difficulty,
+ * 4 = correct after hesitation, 5 = perfect recall
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * ReviewButton - The four answer buttons shown while studying
+ */
+export type ReviewButton = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * BUTTON_QUALITY - Quality each study button reports to the scheduler
+ */
+export const BUTTON_QUALITY: Record<ReviewButton, ReviewQuality> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Algorithm used for decks that have not picked one
+ */
+export const DEFAULT_ALGORITHM: SchedulerAlgorithm = 'sm2';
+
+/**
+ * Human-readable algorithm names for settings
+ */
+export const ALGORITHM_LABELS: Record<SchedulerAlgorithm, string> = {
+  sm2: 'SM-2 (classic)',
+  fsrs: 'FSRS (adaptive)',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * isPassingQuality - SM-2 treats quality 3 and above as a successful recall
+ */
+export const isPassingQuality = (quality: ReviewQuality): boolean => quality >= 3;
+
+/**
+ * addDays - Shift a date by whole days
+ */
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// ============================================================================
+// SM-2
+// ============================================================================
+
+/**
+ * scheduleSM2 - Faithful SM-2
+ *
+ * - Quality < 3 restarts repetitions, sets the interval to 1 day and
+ *   leaves EF unchanged
+ * - Otherwise the interval goes 1 day, 6 days, then interval × EF, and
+ *   EF changes by 0.1 - (5 - q) × (0.08 + (5 - q) × 0.02), never below 1.3
+ */
+const scheduleSM2 = (card: Flashcard, quality: ReviewQuality, now: Date): Flashcard => {
+  let { repetitions, interval, easeFactor } = card;
+
+  if (isPassingQuality(quality)) {
+    if (repetitions === 0) interval = 1;
+    else if (repetitions === 1) interval = 6;
+    else interval = Math.round(interval * card.easeFactor);
+    repetitions += 1;
+    easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+
+  return {
+    ...card,
+    repetitions,
+    interval,
+    easeFactor: Math.round(easeFactor * 1000) / 1000,
+    lapses: (card.lapses ?? 0) + (isPassingQuality(quality) ? 0 : 1),
+    nextReviewDate: addDays(now, interval).toISOString(),
+    lastReviewDate: now.toISOString(),
+  };
+};
+
+// ============================================================================
+// FSRS
+// ============================================================================
+
+/**
+ * FSRS v4.5 default parameters
+ */
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_REQUEST_RETENTION = 0.9;
+const FSRS_MAX_INTERVAL = 36500;
+
+/**
+ * FSRS grade: 1 = again, 2 = hard, 3 = good, 4 = easy
+ */
+type FSRSGrade = 1 | 2 | 3 | 4;
+
+const toFSRSGrade = (quality: ReviewQuality): FSRSGrade => {
+  if (quality < 3) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+};
+
+const clampDifficulty = (d: number): number => Math.min(10, Math.max(1, d));
+
+const initialDifficulty = (grade: FSRSGrade): number =>
+  clampDifficulty(FSRS_WEIGHTS[4] - (grade - 3) * FSRS_WEIGHTS[5]);
+
+const retrievability = (elapsedDays: number, stability: number): number =>
+  Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+
+const nextInterval = (stability: number): number => {
+  const interval = (stability / FSRS_FACTOR) * (Math.pow(FSRS_REQUEST_RETENTION, 1 / FSRS_DECAY) - 1);
+  return Math.min(FSRS_MAX_INTERVAL, Math.max(1, Math.round(interval)));
+};
+
+const nextDifficulty = (difficulty: number, grade: FSRSGrade): number => {
+  const next = difficulty - FSRS_WEIGHTS[6] * (grade - 3);
+  // Mean reversion towards the difficulty of a "good" first answer
+  return clampDifficulty(FSRS_WEIGHTS[7] * initialDifficulty(3) + (1 - FSRS_WEIGHTS[7]) * next);
+};
+
+const nextRecallStability = (d: number, s: number, r: number, grade: FSRSGrade): number => {
+  const hardPenalty = grade === 2 ? FSRS_WEIGHTS[15] : 1;
+  const easyBonus = grade === 4 ? FSRS_WEIGHTS[16] : 1;
+  return (
+    s *
+    (1 +
+      Math.exp(FSRS_WEIGHTS[8]) *
+        (11 - d) *
+        Math.pow(s, -FSRS_WEIGHTS[9]) *
+        (Math.exp((1 - r) * FSRS_WEIGHTS[10]) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+};
+
+const nextForgetStability = (d: number, s: number, r: number): number =>
+  FSRS_WEIGHTS[11] *
+  Math.pow(d, -FSRS_WEIGHTS[12]) *
+  (Math.pow(s + 1, FSRS_WEIGHTS[13]) - 1) *
+  Math.exp((1 - r) * FSRS_WEIGHTS[14]);
+
+/**
+ * scheduleFSRS - FSRS memory model
+ *
+ * Tracks stability (days until recall probability drops to 90%) and
+ * difficulty (1-10) per card, and schedules the next review when
+ * predicted recall reaches the requested retention.
+ */
+const scheduleFSRS = (card: Flashcard, quality: ReviewQuality, now: Date): Flashcard => {
+  const grade = toFSRSGrade(quality);
+  let stability: number;
+  let difficulty: number;
+
+  if (card.stability === undefined || card.fsrsDifficulty === undefined || !card.lastReviewDate) {
+    // First review (or a card migrated from SM-2)
+    stability = FSRS_WEIGHTS[grade - 1];
+    difficulty = initialDifficulty(grade);
+  } else {
+    const elapsedDays = Math.max(0, (now.getTime() - new Date(card.lastReviewDate).getTime()) / DAY_MS);
+    const r = retrievability(elapsedDays, card.stability);
+    // New stability uses the difficulty before this review
+    stability =
+      grade === 1
+        ? nextForgetStability(card.fsrsDifficulty, card.stability, r)
+        : nextRecallStability(card.fsrsDifficulty, card.stability, r, grade);
+    difficulty = nextDifficulty(card.fsrsDifficulty, grade);
+  }
+
+  const interval = nextInterval(stability);
+
+  return {
+    ...card,
+    repetitions: grade === 1 ? 0 : card.repetitions + 1,
+    interval,
+    stability: Math.round(stability * 10000) / 10000,
+    fsrsDifficulty: Math.round(difficulty * 10000) / 10000,
+    lapses: (card.lapses ?? 0) + (grade === 1 ? 1 : 0),
+    nextReviewDate: addDays(now, interval).toISOString(),
+    lastReviewDate: now.toISOString(),
+  };
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * schedule - Apply one review to a card
+ *
+ * @param card - Card being reviewed
+ * @param quality - SM-2 quality (0-5); FSRS maps it to again/hard/good/easy
+ * @param now - Time of the review
+ * @param algorithm - Scheduling algorithm (defaults to SM-2)
+ * @returns A new card with updated scheduling fields
+ */
+export const schedule = (
+  card: Flashcard,
+  quality: ReviewQuality,
+  now: Date,
+  algorithm: SchedulerAlgorithm = DEFAULT_ALGORITHM
+): Flashcard =>
+  algorithm === 'fsrs' ? scheduleFSRS(card, quality, now) : scheduleSM2(card, quality, now);
+
+/**
+ * previewIntervals - Interval (days) each study button would give
+ *
+ * @param card - Card being reviewed
+ * @param now - Time of the review
+ * @param algorithm - Scheduling algorithm
+ * @returns Days until next review per button
+ */
+export const previewIntervals = (
+  card: Flashcard,
+  now: Date,
+  algorithm: SchedulerAlgorithm = DEFAULT_ALGORITHM
+): Record<ReviewButton, number> => ({
+  again: schedule(card, BUTTON_QUALITY.again, now, algorithm).interval,
+  hard: schedule(card, BUTTON_QUALITY.hard, now, algorithm).interval,
+  good: schedule(card, BUTTON_QUALITY.good, now, algorithm).interval,
+  easy: schedule(card, BUTTON_QUALITY.easy, now, algorithm).interval,
+});
@@ -0,0 +1,323 @@
+/**
+ * Sharing Module
+ *
+ * Publishes quizzes and decks to Supabase under a short share code:
+ * - The owner publishes a snapshot (questions or cards, no history) as
+ *   public (listed) or unlisted (code or link only), and can update or
+ *   unpublish it later
+ * - Anyone signed in opens it by code for a read-only preview and can
+ *   clone it into their own library
+ * - Shared quizzes can keep a leaderboard of everyone's attempts
+ *
+ * Unlisted items and leaderboards are read through database functions,
+ * so row level security never exposes them to a plain table query.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getSyncUserId } from '@/lib/flashcardSync';
+import { createQuizId } from '@/lib/quizStore';
+import {
+  FlashcardDeck,
+  Quiz,
+  SharedDeckContent,
+  SharedItem,
+  SharedItemSummary,
+  SharedLeaderboardEntry,
+  SharedQuizContent,
+  ShareVisibility,
+} from '@/types';
+
+/**
+ * Characters used in share codes (no 0/O or 1/I to misread)
+ * 32 characters, so each random byte maps to one without bias
+ */
+const SHARE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SHARE_CODE_LENGTH = 8;
+
+/**
+ * Attempts at a fresh code before giving up on collisions
+ */
+const MAX_CODE_ATTEMPTS = 3;
+
+/**
+ * Postgres error code for a unique constraint violation
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Row shape of the `shared_items` table (and get_shared_item)
+ */
+interface SharedItemRow {
+  code: string;
+  kind: SharedItem['kind'];
+  visibility: ShareVisibility;
+  title: string;
+  content?: SharedQuizContent | SharedDeckContent;
+  leaderboard_enabled: boolean;
+  owner_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape returned by shared_quiz_leaderboard
+ */
+interface LeaderboardRow {
+  user_id: string;
+  name: string;
+  best_percent: number;
+  attempts: number;
+  last_attempt_at: string;
+}
+
+/**
+ * ShareOptions - What the owner chooses when publishing
+ */
+export interface ShareOptions {
+  visibility: ShareVisibility;
+  leaderboardEnabled: boolean;
+}
+
+/**
+ * Columns of a shared item without its (possibly large) content
+ */
+const SUMMARY_COLUMNS = 'code, kind, visibility, title, leaderboard_enabled, created_at, updated_at';
+
+const rowToSummary = (row: SharedItemRow): SharedItemSummary => ({
+  code: row.code,
+  kind: row.kind,
+  visibility: row.visibility,
+  title: row.title,
+  leaderboardEnabled: row.leaderboard_enabled,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * requireUserId - Signed-in user id, or an error explaining sharing needs an account
+ */
+const requireUserId = async (): Promise<string> => {
+  const userId = await getSyncUserId();
+  if (!userId) throw new Error('Sign in to share and open shared quizzes and decks.');
+  return userId;
+};
+
+/**
+ * createShareCode - Random 8-character share code
+ */
+const createShareCode = (): string =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(SHARE_CODE_LENGTH)),
+    (byte) => SHARE_CODE_ALPHABET[byte % SHARE_CODE_ALPHABET.length]
+  ).join('');
+
+/**
+ * parseShareCode - Share code from a typed code or a pasted share link
+ *
+ * @param input - "ABCD2345", "abcd-2345" or ".../shared/ABCD2345"
+ * @returns The code in canonical form, or null if there isn't one
+ */
+export const parseShareCode = (input: string): string | null => {
+  const candidate = (input.trim().match(/\/shared\/([^/?#\s]+)/)?.[1] ?? input)
+    .toUpperCase()
+    .replace(/[\s-]/g, '');
+  return new RegExp(`^[${SHARE_CODE_ALPHABET}]{${SHARE_CODE_LENGTH}}$`).test(candidate) ? candidate : null;
+};
+
+/**
+ * shareLink - Link that opens the shared item's preview
+ */
+export const shareLink = (code: string): string => `${window.location.origin}/shared/${code}`;
+
+/**
+ * quizShareContent - Snapshot of a quiz for sharing (attempts stay private)
+ */
+export const quizShareContent = (quiz: Quiz): SharedQuizContent => ({
+  source: quiz.source,
+  questions: quiz.questions,
+});
+
+/**
+ * deckShareContent - Snapshot of a deck for sharing (review history stays private)
+ */
+export const deckShareContent = (deck: FlashcardDeck): SharedDeckContent => ({
+  description: deck.description,
+  algorithm: deck.algorithm,
+  cards: deck.cards.map(({ front, back, difficulty }) => ({ front, back, difficulty })),
+});
+
+/**
+ * cloneSharedQuiz - A copy of a shared quiz for the user's own library
+ * Attempts at the copy are posted to the original's leaderboard.
+ *
+ * @param item - Shared quiz
+ * @returns New quiz with fresh ids and no attempts
+ */
+export const cloneSharedQuiz = (item: SharedItem & { kind: 'quiz' }): Quiz => ({
+  id: createQuizId(),
+  title: item.title,
+  source: item.content.source,
+  questions: item.content.questions.map((q) => ({ ...q, id: `q-${crypto.randomUUID()}` })),
+  createdAt: new Date().toISOString(),
+  attempts: [],
+  shareCode: item.code,
+});
+
+/**
+ * fetchOwnShare - The user's existing share of a quiz or deck, if any
+ *
+ * @param kind - Quiz or deck
+ * @param sourceId - Id of the quiz or deck in the user's library
+ */
+export const fetchOwnShare = async (
+  kind: SharedItem['kind'],
+  sourceId: string
+): Promise<SharedItemSummary | null> => {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('shared_items')
+    .select(SUMMARY_COLUMNS)
+    .eq('owner_id', userId)
+    .eq('kind', kind)
+    .eq('source_id', sourceId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToSummary(data as SharedItemRow) : null;
+};
+
+/**
+ * publishShare - Publish a snapshot, or update the existing share of the same item
+ * The share code stays the same across updates.
+ *
+ * @param kind - Quiz or deck
+ * @param sourceId - Id of the quiz or deck in the user's library
+ * @param title - Title shown to others
+ * @param content - Snapshot to publish
+ * @param options - Visibility and leaderboard
+ * @returns The share
+ */
+export const publishShare = async (
+  kind: SharedItem['kind'],
+  sourceId: string,
+  title: string,
+  content: SharedQuizContent | SharedDeckContent,
+  options: ShareOptions
+): Promise<SharedItemSummary> => {
+  const userId = await requireUserId();
+  const fields = {
+    title,
+    content,
+    visibility: options.visibility,
+    leaderboard_enabled: kind === 'quiz' && options.leaderboardEnabled,
+  };
+
+  const existing = await fetchOwnShare(kind, sourceId);
+  if (existing) {
+    const { data, error } = await supabase
+      .from('shared_items')
+      .update(fields)
+      .eq('owner_id', userId)
+      .eq('code', existing.code)
+      .select(SUMMARY_COLUMNS)
+      .single();
+    if (error) throw error;
+    return rowToSummary(data as SharedItemRow);
+  }
+
+  // Codes are random, so a collision just means trying another one
+  for (let attempt = 1; ; attempt += 1) {
+    const { data, error } = await supabase
+      .from('shared_items')
+      .insert({ ...fields, code: createShareCode(), owner_id: userId, kind, source_id: sourceId })
+      .select(SUMMARY_COLUMNS)
+      .single();
+    if (!error) return rowToSummary(data as SharedItemRow);
+    if (error.code !== UNIQUE_VIOLATION || attempt >= MAX_CODE_ATTEMPTS) throw error;
+  }
+};
+
+/**
+ * unpublishShare - Stop sharing; the code stops working and its leaderboard is removed
+ *
+ * @param code - Share code to remove
+ */
+export const unpublishShare = async (code: string): Promise<void> => {
+  const userId = await requireUserId();
+  const { error } = await supabase.from('shared_items').delete().eq('owner_id', userId).eq('code', code);
+  if (error) throw error;
+};
+
+/**
+ * fetchSharedItem - A shared quiz or deck by code, public or unlisted
+ *
+ * @param code - Share code
+ * @returns The item with its snapshot, or null if the code doesn't exist
+ */
+export const fetchSharedItem = async (code: string): Promise<SharedItem | null> => {
+  await requireUserId();
+  const { data, error } = await supabase.rpc('get_shared_item', { p_code: code });
+  if (error) throw error;
+
+  const row = (data as SharedItemRow[])[0];
+  if (!row) return null;
+  return {
+    ...rowToSummary(row),
+    ownerName: row.owner_name ?? '',
+    content: row.content,
+  } as SharedItem;
+};
+
+/**
+ * fetchPublicShares - Most recently published public quizzes and decks
+ *
+ * @param limit - Most items to return
+ */
+export const fetchPublicShares = async (limit = 30): Promise<SharedItemSummary[]> => {
+  await requireUserId();
+  const { data, error } = await supabase
+    .from('shared_items')
+    .select(SUMMARY_COLUMNS)
+    .eq('visibility', 'public')
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as SharedItemRow[]).map(rowToSummary);
+};
+
+/**
+ * submitSharedAttempt - Post an attempt to a shared quiz's leaderboard
+ * Ignored by the database when the leaderboard is off or the attempt did
+ * not cover every shared question; the score is clamped there too.
+ *
+ * @param code - Share code of the quiz
+ * @param score - Marks earned (partial credit included)
+ * @param totalQuestions - Questions answered (must be all of them)
+ */
+export const submitSharedAttempt = async (code: string, score: number, totalQuestions: number): Promise<void> => {
+  await requireUserId();
+  const { error } = await supabase.rpc('submit_shared_quiz_attempt', {
+    p_code: code,
+    p_score: score,
+    p_total: totalQuestions,
+  });
+  if (error) throw error;
+};
+
+/**
+ * fetchSharedLeaderboard - Best result of each player on a shared quiz
+ *
+ * @param code - Share code of the quiz
+ * @returns Players, best first
+ */
+export const fetchSharedLeaderboard = async (code: string): Promise<SharedLeaderboardEntry[]> => {
+  await requireUserId();
+  const { data, error } = await supabase.rpc('shared_quiz_leaderboard', { p_code: code });
+  if (error) throw error;
+  return (data as LeaderboardRow[]).map((row) => ({
+    userId: row.user_id,
+    name: row.name,
+    bestPercent: row.best_percent,
+    attempts: Number(row.attempts),
+    lastAttemptAt: row.last_attempt_at,
+  }));
+};
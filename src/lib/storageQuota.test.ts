@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { guardStorageQuota, isQuotaExceededError, StorageQuotaError } from '@/lib/storageQuota';
+
+interface NotesState {
+  notes: string[];
+  addNote: (note: string) => void;
+}
+
+/**
+ * Storage that refuses to save more than `limit` characters, like a full localStorage
+ */
+const limitedStorage = (limit: number) => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (name: string) => items.get(name) ?? null,
+    setItem: (name: string, value: string) => {
+      if (value.length > limit) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(name, value);
+    },
+    removeItem: (name: string) => {
+      items.delete(name);
+    },
+  };
+};
+
+const createNotesStore = (limit: number) => {
+  const storage = limitedStorage(limit);
+  const store = create<NotesState>()(
+    persist(
+      guardStorageQuota((set) => ({
+        notes: [],
+        addNote: (note) => set((state) => ({ notes: [...state.notes, note] })),
+      })),
+      { name: 'notes', storage: createJSONStorage(() => storage) }
+    )
+  );
+  return { store, storage };
+};
+
+describe('isQuotaExceededError', () => {
+  it('recognises quota errors from different browsers', () => {
+    expect(isQuotaExceededError(new DOMException('Full', 'QuotaExceededError'))).toBe(true);
+    expect(isQuotaExceededError(new DOMException('Full', 'NS_ERROR_DOM_QUOTA_REACHED'))).toBe(true);
+    expect(isQuotaExceededError(new DOMException('Other', 'NotFoundError'))).toBe(false);
+    expect(isQuotaExceededError(new Error('QuotaExceededError'))).toBe(false);
+  });
+});
+
+describe('guardStorageQuota', () => {
+  it('saves changes that fit', () => {
+    const { store, storage } = createNotesStore(200);
+    store.getState().addNote('short');
+
+    expect(store.getState().notes).toEqual(['short']);
+    expect(storage.items.get('notes')).toContain('short');
+  });
+
+  it('undoes a change that does not fit and keeps the store usable', () => {
+    const { store, storage } = createNotesStore(200);
+    store.getState().addNote('short');
+
+    expect(() => store.getState().addNote('x'.repeat(500))).toThrow(StorageQuotaError);
+    expect(store.getState().notes).toEqual(['short']);
+    expect(storage.items.get('notes')).not.toContain('xxx');
+
+    store.getState().addNote('another');
+    expect(store.getState().notes).toEqual(['short', 'another']);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Storage Quota Module
+ *
+ * Persisted stores are saved to localStorage, which holds only a few MB per
+ * site. zustand's persist middleware saves synchronously inside `set`, so a
+ * change that does not fit throws from whichever action made it:
+ * - `guardStorageQuota` wraps a store so such a change is undone (the store
+ *   never holds more than it can save) and a StorageQuotaError is thrown
+ * - Callers adding large content (imports, images) catch it and tell the user
+ */
+
+import type { StateCreator, StoreApi, StoreMutatorIdentifier } from 'zustand';
+
+/**
+ * StorageQuotaError - A change was undone because browser storage is full
+ * The message is written for students and safe to show in the UI.
+ */
+export class StorageQuotaError extends Error {
+  constructor(
+    message = 'Browser storage is full, so this change could not be saved. Remove some images or delete unused decks and sessions, then try again.'
+  ) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * isQuotaExceededError - Whether an error is the browser refusing to store more
+ * Browsers disagree on the name and code, so check all of them.
+ */
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014);
+
+/**
+ * guardStorageQuota - Undo store changes that do not fit in storage
+ * Wrap the initializer passed to `persist`.
+ *
+ * @param config - Store initializer
+ * @returns The same initializer with a `set` that rolls back on quota errors
+ */
+export const guardStorageQuota =
+  <T, Mis extends [StoreMutatorIdentifier, unknown][]>(
+    config: StateCreator<T, Mis, []>
+  ): StateCreator<T, Mis, []> =>
+  (set, get, api) => {
+    const setState = set as StoreApi<T>['setState'];
+
+    const guardedSet = ((partial: T | Partial<T> | ((state: T) => T | Partial<T>), replace?: boolean) => {
+      const previous = get();
+      try {
+        setState(partial as T, replace as true);
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        try {
+          // The previous state was saved before, so it fits again
+          setState(previous, true);
+        } catch {
+          // The in-memory state is restored even if saving it fails
+        }
+        throw new StorageQuotaError();
+      }
+    }) as typeof set;
+
+    return config(guardedSet, get, api);
+  };
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+
+import { fetchAllPages, isNewer, mergeById, SYNC_PAGE_SIZE, unionById } from '@/lib/syncMerge';
+
+describe('isNewer', () => {
+  it('compares instants, not strings', () => {
+    // Same instant as written locally and as returned by Supabase
+    expect(isNewer('2024-05-01T10:00:00.123Z', '2024-05-01T10:00:00.123+00:00')).toBe(false);
+    expect(isNewer('2024-05-01T10:00:00.123+00:00', '2024-05-01T10:00:00.123Z')).toBe(false);
+    expect(isNewer('2024-05-01T10:00:00.000Z', '2024-05-01T10:00:00+00:00')).toBe(false);
+
+    expect(isNewer('2024-05-01T10:00:00.124Z', '2024-05-01T10:00:00.123+00:00')).toBe(true);
+    expect(isNewer('2024-05-01T10:00:00+00:00', '2024-05-01T09:59:59.999Z')).toBe(true);
+    expect(isNewer('2024-05-01T12:00:00+02:00', '2024-05-01T10:00:00.001Z')).toBe(false);
+  });
+
+  it('treats missing or invalid timestamps as oldest', () => {
+    expect(isNewer('2024-05-01T10:00:00Z', undefined)).toBe(true);
+    expect(isNewer('2024-05-01T10:00:00Z', null)).toBe(true);
+    expect(isNewer('2024-05-01T10:00:00Z', 'not a date')).toBe(true);
+    expect(isNewer(undefined, '2024-05-01T10:00:00Z')).toBe(false);
+    expect(isNewer('not a date', '2024-05-01T10:00:00Z')).toBe(false);
+    expect(isNewer(undefined, undefined)).toBe(false);
+  });
+});
+
+describe('mergeById', () => {
+  const lastSyncedAt = '2024-05-01T10:00:00.000Z';
+
+  it('does not push records that only differ in timestamp format', () => {
+    const local = [{ id: 'a', updatedAt: '2024-05-01T09:00:00.000Z' }];
+    const remote = [{ id: 'a', updatedAt: '2024-05-01T09:00:00+00:00' }];
+
+    const { merged, toPush } = mergeById(local, remote, [], lastSyncedAt);
+    expect(toPush).toEqual([]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps the newer copy of records on both sides', () => {
+    const local = [
+      { id: 'a', updatedAt: '2024-05-01T11:00:00.000Z' },
+      { id: 'b', updatedAt: '2024-05-01T09:00:00.000Z' },
+    ];
+    const remote = [
+      { id: 'a', updatedAt: '2024-05-01T09:00:00+00:00' },
+      { id: 'b', updatedAt: '2024-05-01T11:00:00+00:00' },
+    ];
+
+    const { merged, toPush } = mergeById(local, remote, [], lastSyncedAt);
+    expect(toPush).toEqual([local[0]]);
+    expect(merged).toEqual([local[0], remote[1]]);
+  });
+
+  it('drops local records deleted elsewhere unless edited since the last sync', () => {
+    const local = [
+      { id: 'deleted', updatedAt: '2024-05-01T09:00:00.000Z' },
+      { id: 'edited', updatedAt: '2024-05-01T11:00:00.000Z' },
+    ];
+
+    const { merged, toPush } = mergeById(local, [], [], lastSyncedAt);
+    expect(merged).toEqual([local[1]]);
+    expect(toPush).toEqual([local[1]]);
+  });
+
+  it('does not pull back records deleted locally', () => {
+    const remote = [{ id: 'a', updatedAt: '2024-05-01T09:00:00+00:00' }];
+    expect(mergeById([], remote, ['a'], lastSyncedAt).merged).toEqual([]);
+  });
+});
+
+describe('unionById', () => {
+  it('keeps records added on either side once', () => {
+    const local = [{ id: 'a1', score: 3 }, { id: 'a2', score: 5 }];
+    const remote = [{ id: 'a1', score: 3 }, { id: 'b1', score: 4 }];
+
+    expect(unionById(local, remote)).toEqual([
+      { id: 'a1', score: 3 },
+      { id: 'a2', score: 5 },
+      { id: 'b1', score: 4 },
+    ]);
+  });
+
+  it('prefers the first list for ids on both sides', () => {
+    expect(unionById([{ id: 'a', v: 1 }], [{ id: 'a', v: 2 }])).toEqual([{ id: 'a', v: 1 }]);
+  });
+});
+
+describe('fetchAllPages', () => {
+  const lastSyncedAt = '2024-05-01T10:00:00.000Z';
+  const rows = Array.from({ length: 2 * SYNC_PAGE_SIZE + 500 }, (_, i) => ({
+    id: `card-${String(i).padStart(4, '0')}`,
+    updatedAt: '2024-05-01T09:00:00+00:00',
+  }));
+
+  /**
+   * Like the Supabase API: a range is answered with at most SYNC_PAGE_SIZE rows
+   */
+  const fetchRange = async (from: number, to: number) => ({
+    data: rows.slice(from, Math.min(to + 1, from + SYNC_PAGE_SIZE)),
+    error: null,
+  });
+
+  it('fetches every page until a short one', async () => {
+    const calls: Array<[number, number]> = [];
+    const fetched = await fetchAllPages((from, to) => {
+      calls.push([from, to]);
+      return fetchRange(from, to);
+    });
+
+    expect(fetched).toEqual(rows);
+    expect(calls).toEqual([
+      [0, SYNC_PAGE_SIZE - 1],
+      [SYNC_PAGE_SIZE, 2 * SYNC_PAGE_SIZE - 1],
+      [2 * SYNC_PAGE_SIZE, 3 * SYNC_PAGE_SIZE - 1],
+    ]);
+  });
+
+  it('keeps local records beyond the first page of a sync', async () => {
+    const remote = await fetchAllPages(fetchRange);
+    const { merged, toPush } = mergeById(rows, remote, [], lastSyncedAt);
+
+    expect(merged).toHaveLength(rows.length);
+    expect(toPush).toEqual([]);
+  });
+
+  it('throws when a page fails', async () => {
+    const failure = new Error('network down');
+    await expect(
+      fetchAllPages(async (from, to) => (from === 0 ? fetchRange(from, to) : { data: null, error: failure }))
+    ).rejects.toBe(failure);
+  });
+});
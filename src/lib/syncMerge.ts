@@ -0,0 +1,106 @@
+/**
+ * Sync Merge Module
+ *
+ * Last-write-wins helpers shared by the local-first stores (flashcards,
+ * doubt sessions) when reconciling with Supabase. Records are compared
+ * by their client-written `updatedAt` timestamps; append-only lists inside
+ * a record are combined with `unionById` instead.
+ *
+ * Merging treats a local record missing from the remote list as deleted
+ * elsewhere, so remote lists must be complete: fetch them with `fetchAllPages`.
+ */
+
+// Supabase returns at most this many rows per request (the API's default max-rows)
+export const SYNC_PAGE_SIZE = 1000;
+
+/**
+ * toTime - Milliseconds since the epoch, or -Infinity for missing or invalid timestamps
+ */
+const toTime = (timestamp?: string | null): number => {
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+/**
+ * isNewer - Whether timestamp a is a later instant than b (missing or invalid ones sort first)
+ * Compared as instants, not strings: Supabase returns `+00:00` offsets
+ * (and drops zero milliseconds) where local timestamps end in `Z`.
+ */
+export const isNewer = (a?: string | null, b?: string | null): boolean => toTime(a) > toTime(b);
+
+/**
+ * mergeById - Last-write-wins merge of local and remote records
+ *
+ * @param local - Records in the local store
+ * @param remote - Records fetched from Supabase
+ * @param deletedIds - Ids deleted locally (never pulled back in)
+ * @param lastSyncedAt - When the previous sync finished
+ * @returns Merged records and the local records that must be pushed
+ */
+export const mergeById = <T extends { id: string; updatedAt?: string }>(
+  local: T[],
+  remote: T[],
+  deletedIds: string[],
+  lastSyncedAt: string | null
+): { merged: T[]; toPush: T[] } => {
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const localIds = new Set(local.map((l) => l.id));
+  const merged: T[] = [];
+  const toPush: T[] = [];
+
+  for (const item of local) {
+    const remoteItem = remoteById.get(item.id);
+    if (!remoteItem) {
+      // Unknown remotely: new local item, or deleted on another device
+      if (!lastSyncedAt || isNewer(item.updatedAt, lastSyncedAt)) {
+        merged.push(item);
+        toPush.push(item);
+      }
+    } else if (isNewer(remoteItem.updatedAt, item.updatedAt)) {
+      merged.push(remoteItem);
+    } else {
+      merged.push(item);
+      if (isNewer(item.updatedAt, remoteItem.updatedAt)) toPush.push(item);
+    }
+  }
+
+  for (const item of remote) {
+    if (!localIds.has(item.id) && !deletedIds.includes(item.id)) merged.push(item);
+  }
+
+  return { merged, toPush };
+};
+
+/**
+ * unionById - Records from both lists, each id once (the first list's copy wins)
+ * For append-only histories (quiz attempts) that two devices may both add to.
+ *
+ * @param first - Records kept as they are
+ * @param second - Records added when their id is not in `first`
+ * @returns Records of `first` followed by the new ones from `second`
+ */
+export const unionById = <T extends { id: string }>(first: T[], second: T[]): T[] => {
+  const ids = new Set(first.map((item) => item.id));
+  return [...first, ...second.filter((item) => !ids.has(item.id))];
+};
+
+/**
+ * fetchAllPages - Every row of a query, fetched a page at a time
+ * A single select is silently cut off at the API's row limit.
+ *
+ * @param fetchPage - Runs the query for rows `from` to `to` (inclusive, in a stable order)
+ * @returns All rows, in page order
+ * @throws The query's error if any page fails
+ */
+export const fetchAllPages = async <Row>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: Row[] | null; error: unknown }>
+): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SYNC_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    // A short page is the last one
+    if (!data || data.length < SYNC_PAGE_SIZE) return rows;
+  }
+};
@@ -2,25 +2,38 @@
  * Doubt Solver Page Component
  *
  * AI-powered Q&A system for learning support:
- * - Chat interface with AI tutor
- * - Image upload for problem solving (OCR)
+ * - Chat interface with AI tutor that remembers the conversation
+ * - Answers stream in as they are written, with Stop and Regenerate
+ * - Attach or paste a photo of a problem (sent to the model with the question)
  * - Step-by-step solution verification
  * - Confidence scoring for explanations
- * - Solution tracking and history
- * - XP rewards for solving doubts
+ * - Saved, searchable sessions synced to Supabase (see doubtStore.ts)
+ * - XP rewards for submitted and verified-correct steps
  */
 
 // React hooks
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 
 // UI components from shadcn
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+
+// Saved session sidebar and step verdicts
+import { DoubtSessionList } from "@/components/doubts/DoubtSessionList";
+import { StepChecklist } from "@/components/doubts/StepChecklist";
+import { RichContent } from "@/components/RichContent";
+import { AIStatusNotice } from "@/components/AIStatusNotice";
 
 // Hooks and state
 import { useToast } from "@/hooks/use-toast";
+import { useAIStatus } from "@/hooks/use-ai-status";
 import { useGameStore } from "@/lib/gameStore";
+import { useDoubtStore } from "@/lib/doubtStore";
+import { readImageAsDataUrl } from "@/lib/imageAttachments";
+import { StorageQuotaError } from "@/lib/storageQuota";
 
 // Gamification components
 import { Confetti } from "@/components/gamification/Confetti";
@@ -34,6 +47,10 @@ import {
   XCircle,
   Bot,
   User,
+  X,
+  History,
+  RotateCcw,
+  Square,
 } from "lucide-react";
 
 // Gemini API function
@@ -43,56 +60,132 @@ import { solveDoubt } from "@/lib/gemini";
 import { DoubtMessage } from "@/types";
 import { cn } from "@/lib/utils";
 
+/**
+ * Longest edge (px) of attached problem photos; larger than card images
+ * so small handwriting stays legible to the model, but small enough that
+ * saved sessions fit in localStorage
+ */
+const PROBLEM_IMAGE_DIMENSION = 1280;
+
+/**
+ * Delay before local session changes are pushed to Supabase
+ */
+const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * Greeting shown at the start of every conversation (never sent to the model)
+ */
+const WELCOME_MESSAGE: DoubtMessage = {
+  id: "welcome",
+  role: "assistant",
+  content:
+    "Welcome to the Doubt Solver! Ask me anything, or upload an image of a problem. You can also provide your own step-by-step solution for me to verify.",
+  timestamp: new Date().toISOString(),
+};
+
 /**
  * DoubtSolver Component
  *
  * Provides AI tutoring with:
  * - Natural conversation interface
  * - Step verification and feedback
- * - Image upload and OCR support
+ * - Problem photos via upload or paste
  * - Detailed explanations with hints
- * - Session history and tracking
- * - XP rewards for engagement
+ * - Saved sessions with search, rename and pin
+ * - XP rewards from step verdicts (see gamificationRules.ts)
  */
 export default function DoubtSolver() {
   // Hooks
   const { toast } = useToast();
-  const { addXP, incrementStat, updateMissionProgress } = useGameStore();
+  const { incrementStat, recordActivity } = useGameStore();
+  const {
+    sessions,
+    activeSessionId,
+    createSession,
+    setActiveSession,
+    addMessage,
+    removeMessage,
+    renameSession,
+    togglePinned,
+    deleteSession,
+    hasPendingChanges,
+    sync,
+  } = useDoubtStore();
+
+  // Messages of the open session (a new chat has none yet)
+  const activeSession = sessions.find((s) => s.id === activeSessionId);
+  const messages = useMemo(() => activeSession?.messages ?? [], [activeSession]);
+
+  // Only the latest answer can be regenerated
+  const lastMessage = messages[messages.length - 1];
+  const lastAnswerId = lastMessage?.role === "assistant" ? lastMessage.id : null;
+
+  // Whether an AI provider is configured
+  const aiStatus = useAIStatus();
 
   // State for chat
-  const [messages, setMessages] = useState<DoubtMessage[]>([
-    {
-      id: "1",
-      role: "assistant",
-      content:
-        "Welcome to the Doubt Solver! Ask me anything, or upload an image of a problem. You can also provide your own step-by-step solution for me to verify.",
-      timestamp: new Date().toISOString(),
-    },
-  ]);
+  const [showSessions, setShowSessions] = useState(false);
   const [input, setInput] = useState("");
   const [solution, setSolution] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Answer text received so far while the tutor is replying
+  const [streamingText, setStreamingText] = useState("");
+
+  // Problem photo waiting to be sent, and the one opened full size
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [viewingImage, setViewingImage] = useState<string | null>(null);
+
   // Ref for scrolling chat
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Aborts the answer being streamed
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Scroll to bottom of chat on new message
   useEffect(() => {
     if (chatContainerRef.current) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Stop any answer still streaming when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Pull remote sessions on mount and whenever the browser comes back online
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!hasPendingChanges()) return;
+    const timeout = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [sessions, hasPendingChanges, sync]);
 
   /**
    * Handle sending a message to the AI tutor
    */
   const handleSendMessage = async () => {
-    if (!input.trim() && !solution.trim()) {
+    if (!aiStatus.ready) {
+      toast({
+        title: "AI is not set up",
+        description: aiStatus.reason,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!input.trim() && !solution.trim() && !pendingImage) {
       toast({
         title: "Input required",
-        description: "Please enter a question or your solution.",
+        description: "Please enter a question, your solution or a photo of the problem.",
         variant: "destructive",
       });
       return;
@@ -102,72 +195,216 @@ export default function DoubtSolver() {
       id: `user-${Date.now()}`,
       role: "user",
       content: input,
+      solution: solution.trim() ? solution : undefined,
+      image: pendingImage ?? undefined,
       timestamp: new Date().toISOString(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
-    setIsLoading(true);
-    setError(null);
+    // The first question starts (and titles) a saved session
+    let sessionId: string;
+    try {
+      if (activeSession) {
+        sessionId = activeSession.id;
+        addMessage(sessionId, userMessage);
+      } else {
+        sessionId = createSession(userMessage).id;
+      }
+    } catch (err) {
+      if (!(err instanceof StorageQuotaError)) throw err;
+      // Keep the draft so the photo can be removed and the question sent again
+      toast({ title: "Question not saved", description: err.message, variant: "destructive" });
+      return;
+    }
+
     setInput("");
     setSolution("");
+    setPendingImage(null);
+
+    if (userMessage.image) {
+      incrementStat("imagesUploaded");
+    }
+
+    await requestAnswer(sessionId, userMessage, messages, true);
+  };
+
+  /**
+   * Ask the tutor again for the last answer in the session
+   * Rewards are only given if the replaced answer never earned them
+   */
+  const handleRegenerate = async () => {
+    const lastAnswer = messages[messages.length - 1];
+    const questionIndex = messages.length - 2;
+    const question = messages[questionIndex];
+    if (!activeSession || lastAnswer?.role !== "assistant" || question?.role !== "user") return;
+
+    removeMessage(activeSession.id, lastAnswer.id);
+    await requestAnswer(
+      activeSession.id,
+      question,
+      messages.slice(0, questionIndex),
+      !!(lastAnswer.stopped || lastAnswer.failed)
+    );
+  };
+
+  /**
+   * Stream the tutor's answer to a question into the session
+   *
+   * @param sessionId - Session the question belongs to
+   * @param userMessage - The question (with optional solution and photo)
+   * @param history - Earlier messages, giving follow-up questions their context
+   * @param award - Whether a completed answer earns XP and stats
+   */
+  const requestAnswer = async (
+    sessionId: string,
+    userMessage: DoubtMessage,
+    history: DoubtMessage[],
+    award: boolean
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setStreamingText("");
+    setError(null);
 
     try {
       // --- API CALL ---
-      const aiResponse = await solveDoubt(input, solution);
+      const answer = await solveDoubt(
+        userMessage.content,
+        userMessage.solution,
+        userMessage.image,
+        history,
+        { onText: setStreamingText, signal: controller.signal }
+      );
 
       const assistantMessage: DoubtMessage = {
         id: `assistant-${Date.now()}`,
         role: "assistant",
-        content: aiResponse,
+        content: answer.text,
+        steps: answer.steps,
+        stopped: answer.stopped,
+        failed: answer.failed,
         timestamp: new Date().toISOString(),
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      addMessage(sessionId, assistantMessage);
+
+      // Stopped and failed answers earn nothing; regenerating them can
+      if (answer.stopped || answer.failed || !award) return;
 
       // --- GAMIFICATION ---
-      const { xpGained } = addXP("correct_step", 20);
-      incrementStat("doubtsAsked");
-      if (solution.trim()) {
-        incrementStat("stepsSubmitted");
-      }
-      updateMissionProgress("doubt", 1);
+      // XP comes from the verified steps; a plain question only counts toward stats and missions
+      const reward = recordActivity({ type: "doubt_answered", steps: answer.steps });
 
-      toast({
-        title: "XP Gained!",
-        description: `You earned ${xpGained} XP for solving a doubt.`,
-      });
+      if (reward.xpGained > 0 && answer.steps) {
+        const correctCount = answer.steps.filter((s) => s.correct).length;
+        toast({
+          title: reward.celebrate ? "XP Gained!" : "Keep Going!",
+          description: reward.celebrate
+            ? `You earned ${reward.xpGained} XP for ${correctCount} of ${answer.steps.length} correct steps.`
+            : `You earned ${reward.xpGained} XP for submitting your steps. Check the hints and try again.`,
+        });
+      }
 
-      // Trigger confetti
-      setShowConfetti(true);
-      setTimeout(() => setShowConfetti(false), 4000);
+      // Only celebrate real wins
+      if (reward.celebrate) {
+        setShowConfetti(true);
+        setTimeout(() => setShowConfetti(false), 4000);
+      }
     } catch (err) {
+      if (err instanceof StorageQuotaError) {
+        setError(err.message);
+        toast({ title: "Answer not saved", description: err.message, variant: "destructive" });
+        return;
+      }
       const errorMessage =
         err instanceof Error ? err.message : "An unknown error occurred.";
-      setError(
-        `Failed to get response from AI. Please check your Gemini API key. Error: ${errorMessage}`
-      );
+      setError(`Failed to get response from AI. Error: ${errorMessage}`);
       toast({
         title: "Error",
         description:
-          "Could not connect to the AI. Please check your API key and try again.",
+          "Could not connect to the AI. Please check your AI settings and try again.",
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setStreamingText("");
     }
   };
 
   /**
-   * Handle image upload for OCR
-   * (This is a placeholder for now)
+   * Stop the answer being generated (the text so far is kept)
    */
-  const handleImageUpload = () => {
-    toast({
-      title: "Coming Soon!",
-      description: "Image upload and OCR support is under development.",
-    });
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
+  /**
+   * Attach a photo of the problem to the next message
+   * Images are downscaled before being kept in the chat
+   *
+   * @param file - Image picked, dropped or pasted by the user
+   */
+  const attachImage = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setPendingImage(await readImageAsDataUrl(file, PROBLEM_IMAGE_DIMENSION));
+    } catch (err) {
+      toast({
+        title: "Image not attached",
+        description: err instanceof Error ? err.message : "Could not read the image.",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  /**
+   * Attach an image pasted into either text box (e.g. a screenshot)
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const item = Array.from(e.clipboardData.items).find((i) => i.type.startsWith("image/"));
+    if (!item) return;
+
+    e.preventDefault();
+    attachImage(item.getAsFile() ?? undefined);
+  };
+
+  /**
+   * Start a fresh conversation (the tutor forgets earlier turns)
+   */
+  const startNewChat = () => {
+    setActiveSession(null);
+    setPendingImage(null);
+    setError(null);
+    setShowSessions(false);
+  };
+
+  /**
+   * Reopen a saved session
+   */
+  const openSession = (sessionId: string) => {
+    setActiveSession(sessionId);
+    setError(null);
+    setShowSessions(false);
+  };
+
+  const sessionList = (
+    <DoubtSessionList
+      sessions={sessions}
+      activeSessionId={activeSessionId}
+      disabled={isLoading}
+      onSelect={openSession}
+      onNew={startNewChat}
+      onRename={renameSession}
+      onTogglePin={togglePinned}
+      onDelete={deleteSession}
+    />
+  );
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -179,136 +416,246 @@ export default function DoubtSolver() {
     <div className="h-[calc(100vh-180px)] flex flex-col animate-fade-in">
       <Confetti show={showConfetti} onComplete={() => setShowConfetti(false)} />
 
-      <div className="mb-4">
-        <h1 className="text-3xl font-display font-bold">Doubt Solver</h1>
-        <p className="text-muted-foreground mt-1">
-          Get step-by-step help with AI-verified solutions
-        </p>
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Doubt Solver</h1>
+          <p className="text-muted-foreground mt-1">
+            Get step-by-step help with AI-verified solutions
+          </p>
+        </div>
+        {/* Sessions live in a drawer on small screens */}
+        <Sheet open={showSessions} onOpenChange={setShowSessions}>
+          <SheetTrigger asChild>
+            <Button variant="outline" className="lg:hidden">
+              <History className="w-4 h-4 mr-2" />
+              Sessions
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="left" className="flex flex-col">
+            <SheetHeader>
+              <SheetTitle>Sessions</SheetTitle>
+            </SheetHeader>
+            <div className="flex-1 min-h-0">{sessionList}</div>
+          </SheetContent>
+        </Sheet>
       </div>
 
-      <Card className="flex-1 flex flex-col">
-        <CardContent className="flex-1 flex flex-col p-4">
-          <div
-            ref={chatContainerRef}
-            className="flex-1 overflow-y-auto space-y-4 pr-4"
-          >
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={cn(
-                  "flex items-start gap-3 animate-fade-in",
-                  message.role === "user" ? "justify-end" : ""
-                )}
-              >
-                {message.role === "assistant" && (
-                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                    <Bot className="w-4 h-4 text-muted-foreground" />
-                  </div>
-                )}
+      <AIStatusNotice className="mb-4" />
+
+      <div className="flex-1 flex gap-4 min-h-0">
+        <Card className="hidden lg:flex w-72 flex-shrink-0 flex-col p-4">{sessionList}</Card>
+
+        <Card className="flex-1 flex flex-col min-w-0">
+          <CardContent className="flex-1 flex flex-col p-4">
+            <div
+              ref={chatContainerRef}
+              className="flex-1 overflow-y-auto space-y-4 pr-4"
+            >
+              {[WELCOME_MESSAGE, ...messages].map((message) => (
                 <div
+                  key={message.id}
                   className={cn(
-                    "max-w-[80%] rounded-2xl px-4 py-3",
-                    message.role === "user"
-                      ? "bg-primary text-primary-foreground"
-                      : "bg-muted"
+                    "flex items-start gap-3 animate-fade-in",
+                    message.role === "user" ? "justify-end" : ""
                   )}
                 >
-                  <p className="text-sm whitespace-pre-wrap">
-                    {message.content}
-                  </p>
-                </div>
-                {message.role === "user" && (
-                  <div className="w-8 h-8 rounded-full gradient-primary flex items-center justify-center flex-shrink-0">
-                    <User className="w-4 h-4 text-primary-foreground" />
+                  {message.role === "assistant" && (
+                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                      <Bot className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div
+                    className={cn(
+                      "max-w-[80%] rounded-2xl px-4 py-3",
+                      message.role === "user"
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted"
+                    )}
+                  >
+                    {message.image && (
+                      <button
+                        type="button"
+                        onClick={() => setViewingImage(message.image ?? null)}
+                        className={cn("block", (message.content || message.solution) && "mb-2")}
+                      >
+                        <img
+                          src={message.image}
+                          alt="Attached problem"
+                          className="max-h-48 rounded-lg border border-border/40"
+                        />
+                      </button>
+                    )}
+                    {/* Tutor replies are Markdown with math and code; student text is shown as typed */}
+                    {message.content &&
+                      (message.role === "assistant" ? (
+                        <RichContent content={message.content} />
+                      ) : (
+                        <p className="text-sm whitespace-pre-wrap">
+                          {message.content}
+                        </p>
+                      ))}
+                    {message.solution && (
+                      <div
+                        className={cn(
+                          "text-sm",
+                          message.content && "mt-2 pt-2 border-t border-primary-foreground/20"
+                        )}
+                      >
+                        <p className="text-xs font-medium opacity-80 mb-1">My solution</p>
+                        <p className="whitespace-pre-wrap">{message.solution}</p>
+                      </div>
+                    )}
+                    {message.steps && message.steps.length > 0 && (
+                      <StepChecklist steps={message.steps} />
+                    )}
+                    {message.stopped && (
+                      <p className="text-xs italic text-muted-foreground mt-1">
+                        Stopped before the answer finished.
+                      </p>
+                    )}
+                    {message.id === lastAnswerId && !isLoading && aiStatus.ready && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleRegenerate}
+                        className="mt-2 -ml-2 h-7 px-2 text-xs text-muted-foreground"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Regenerate
+                      </Button>
+                    )}
                   </div>
-                )}
-              </div>
-            ))}
-            {isLoading && (
-              <div className="flex items-start gap-3">
-                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-4 h-4 text-muted-foreground" />
+                  {message.role === "user" && (
+                    <div className="w-8 h-8 rounded-full gradient-primary flex items-center justify-center flex-shrink-0">
+                      <User className="w-4 h-4 text-primary-foreground" />
+                    </div>
+                  )}
                 </div>
-                <div className="bg-muted rounded-2xl px-4 py-3">
-                  <div className="flex gap-1">
-                    <span
-                      className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
-                      style={{ animationDelay: "0ms" }}
-                    />
-                    <span
-                      className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
-                      style={{ animationDelay: "150ms" }}
-                    />
-                    <span
-                      className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
-                      style={{ animationDelay: "300ms" }}
-                    />
+              ))}
+              {isLoading && (
+                <div className="flex items-start gap-3">
+                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                    <Bot className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                  <div className="max-w-[80%] bg-muted rounded-2xl px-4 py-3">
+                    {streamingText ? (
+                      <RichContent content={streamingText} />
+                    ) : (
+                      <div className="flex gap-1">
+                        <span
+                          className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
+                          style={{ animationDelay: "0ms" }}
+                        />
+                        <span
+                          className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
+                          style={{ animationDelay: "150ms" }}
+                        />
+                        <span
+                          className="w-2 h-2 rounded-full bg-muted-foreground/50 animate-bounce"
+                          style={{ animationDelay: "300ms" }}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-        </CardContent>
-        <div className="border-t p-4 bg-background">
-          <div className="grid gap-4">
-            <div className="flex-1 space-y-4">
-              <Textarea
-                placeholder="Type your question or doubt here..."
-                className="h-24 resize-none"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={handleKeyDown}
-                disabled={isLoading}
-              />
-              <Textarea
-                placeholder="Optional: Provide your step-by-step solution for verification..."
-                className="h-32 resize-none"
-                value={solution}
-                onChange={(e) => setSolution(e.target.value)}
-                onKeyDown={handleKeyDown}
-                disabled={isLoading}
-              />
+              )}
             </div>
-            {error && (
-              <div className="text-red-500 text-sm flex items-center gap-2">
-                <XCircle className="w-4 h-4" />
-                {error}
-              </div>
-            )}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Lightbulb className="w-4 h-4" />
-                <span>Shift + Enter for new line</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="outline"
-                  onClick={handleImageUpload}
+          </CardContent>
+          <div className="border-t p-4 bg-background">
+            <div className="grid gap-4">
+              <div className="flex-1 space-y-4">
+                {pendingImage && (
+                  <div className="relative inline-block">
+                    <img
+                      src={pendingImage}
+                      alt="Problem to send"
+                      className="h-20 rounded-lg border border-border"
+                    />
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      onClick={() => setPendingImage(null)}
+                      className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+                <Textarea
+                  placeholder="Type your question or doubt here, or paste a screenshot..."
+                  className="h-24 resize-none"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
                   disabled={isLoading}
-                >
-                  <Upload className="w-4 h-4 mr-2" />
-                  Upload Image
-                </Button>
-                <Button
-                  onClick={handleSendMessage}
-                  disabled={isLoading || (!input.trim() && !solution.trim())}
-                  className="gap-2"
-                >
+                />
+                <Textarea
+                  placeholder="Optional: Provide your step-by-step solution for verification..."
+                  className="h-32 resize-none"
+                  value={solution}
+                  onChange={(e) => setSolution(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
+                  disabled={isLoading}
+                />
+              </div>
+              {error && (
+                <div className="text-red-500 text-sm flex items-center gap-2">
+                  <XCircle className="w-4 h-4" />
+                  {error}
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Lightbulb className="w-4 h-4" />
+                  <span>Shift + Enter for new line</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => attachImage(e.target.files?.[0])}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading}
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    {pendingImage ? "Replace Image" : "Upload Image"}
+                  </Button>
                   {isLoading ? (
-                    <>
-                      <Bot className="w-4 h-4 animate-spin" /> Thinking...
-                    </>
+                    <Button variant="destructive" onClick={handleStop} className="gap-2">
+                      <Square className="w-4 h-4" /> Stop
+                    </Button>
                   ) : (
-                    <>
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={!aiStatus.ready || (!input.trim() && !solution.trim() && !pendingImage)}
+                      className="gap-2"
+                    >
                       <Send className="w-4 h-4" /> Ask Graspify
-                    </>
+                    </Button>
                   )}
-                </Button>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      </Card>
+        </Card>
+      </div>
+
+      {/* Full-size view of an attached image */}
+      <Dialog open={!!viewingImage} onOpenChange={(open) => !open && setViewingImage(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogTitle className="sr-only">Attached image</DialogTitle>
+          {viewingImage && (
+            <img src={viewingImage} alt="Attached problem" className="w-full rounded-lg" />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
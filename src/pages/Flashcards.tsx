@@ -2,11 +2,15 @@
  * Flashcards Page Component
  *
  * Spaced repetition flashcard system for effective learning:
- * - Create and manage flashcard decks
- * - Study cards with flip animations
- * - Rate card difficulty (hard/good/easy)
- * - SM-2 algorithm for optimal review scheduling
- * - Generate cards from source material
+ * - Create, rename, merge, split and delete flashcard decks
+ * - Study a single deck or all due cards with flip animations
+ * - Daily review queue built from nextReviewDate and per-deck limits
+ * - Answer with again/hard/good/easy
+ * - SM-2 or FSRS review scheduling, chosen per deck
+ * - Write and edit cards by hand with Markdown, math and images
+ * - Generate cards from source material (pasted or uploaded PDF/DOCX/image)
+ * - Import/export decks as Anki packages or CSV/TSV
+ * - Share decks by code or link
  * - Track review progress and earn XP
  */
 
@@ -16,47 +20,130 @@ import { useState, useEffect } from "react";
 // UI components from shadcn
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Shared components
+import { DocumentDropZone } from "@/components/DocumentDropZone";
+import { AIStatusNotice } from "@/components/AIStatusNotice";
+import { RichContent } from "@/components/RichContent";
+
+// Flashcard components
+import { DeckCard } from "@/components/flashcards/DeckCard";
+import { DeckCardList } from "@/components/flashcards/DeckCardList";
+import { DeckDialog } from "@/components/flashcards/DeckDialog";
+import { DeckSelect } from "@/components/flashcards/DeckSelect";
+import { ImportDeckDialog, ImportGroup } from "@/components/flashcards/ImportDeckDialog";
+import { ShareDialog } from "@/components/sharing/ShareDialog";
 
 // Hooks and state
 import { useToast } from "@/hooks/use-toast";
+import { useAIStatus } from "@/hooks/use-ai-status";
 import { useGameStore } from "@/lib/gameStore";
+import { useFlashcardStore, DEFAULT_DECK_NAME } from "@/lib/flashcardStore";
+import { buildReviewQueue, isNewCard, requeueLapsedCard } from "@/lib/reviewQueue";
+import { ExportFormat, downloadFile, exportDeckToDelimited } from "@/lib/deckTransfer";
+import { writeAnkiPackage } from "@/lib/ankiPackage";
+import { StorageQuotaError } from "@/lib/storageQuota";
+import { deckShareContent } from "@/lib/sharing";
+import {
+  BUTTON_QUALITY,
+  DEFAULT_ALGORITHM,
+  ReviewButton,
+  isPassingQuality,
+  previewIntervals,
+} from "@/lib/scheduler";
 
 // Icons from lucide-react
 import {
   Layers,
   Plus,
   Sparkles,
-  ChevronLeft,
-  ChevronRight,
+  SkipForward,
   RotateCcw,
   ThumbsUp,
   ThumbsDown,
   Meh,
-  Upload,
+  FolderPlus,
+  FileUp,
+  Clock,
+  CalendarCheck,
 } from "lucide-react";
 
 // Gemini API function
 import { generateFlashcards as generateFlashcardsAI } from "@/lib/gemini";
 
 // Type definitions
-import { Flashcard, FlashcardDeck } from "@/types";
+import { FlashcardDeck } from "@/types";
 import { cn } from "@/lib/utils";
 
 /**
- * Mock flashcard data
- * In production, these would be fetched from backend or generated by AI
+ * Delay before pushing local edits to Supabase (ms)
+ */
+const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * Study target meaning "every due card across all decks"
+ */
+const ALL_DUE = "all";
+
+/**
+ * Answer buttons shown under the card
+ */
+const ANSWER_BUTTONS: {
+  button: ReviewButton;
+  label: string;
+  icon: typeof RotateCcw;
+  className: string;
+}[] = [
+  { button: "again", label: "Again", icon: RotateCcw, className: "border-destructive/30 hover:bg-destructive/10 hover:text-destructive" },
+  { button: "hard", label: "Hard", icon: ThumbsDown, className: "border-warning/30 hover:bg-warning/10 hover:text-warning" },
+  { button: "good", label: "Good", icon: Meh, className: "border-primary/30 hover:bg-primary/10 hover:text-primary" },
+  { button: "easy", label: "Easy", icon: ThumbsUp, className: "border-success/30 hover:bg-success/10 hover:text-success" },
+];
+
+/**
+ * formatInterval - Short label for a review interval
+ *
+ * @param days - Interval in days
+ * @returns e.g. "1d", "3w", "2mo", "1.5y"
+ */
+const formatInterval = (days: number): string => {
+  if (days < 14) return `${days}d`;
+  if (days < 60) return `${Math.round(days / 7)}w`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+};
+
+/**
+ * Views the page can show
  */
-const mockFlashcards: Flashcard[] = [];
+type FlashcardView = "decks" | "study" | "create" | "manage";
 
 /**
  * Flashcards Component
  *
  * Provides spaced repetition learning with:
  * - Flip card animation
- * - Difficulty rating (hard/good/easy)
+ * - Answer buttons (again/hard/good/easy)
  * - Deck management
  * - Generation from source material
  * - Review scheduling
@@ -67,19 +154,109 @@ export default function Flashcards() {
   const { toast } = useToast();
   const { addXP, incrementStat, updateMissionProgress } = useGameStore();
 
-  // State for cards
-  const [cards, setCards] = useState<Flashcard[]>(mockFlashcards);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // Persisted decks and cards
+  const {
+    decks,
+    addCards,
+    updateCard,
+    deleteCards,
+    reviewCard,
+    createDeck,
+    updateDeck,
+    deleteDeck,
+    moveCards,
+    mergeDecks,
+    splitDeck,
+    ensureDefaultDeck,
+    recordReview,
+    getStudiedToday,
+    sync,
+    hasPendingChanges,
+  } = useFlashcardStore();
+  const allCards = decks.flatMap((d) => d.cards);
+  const allDueCount = buildReviewQueue(decks, getStudiedToday()).cardIds.length;
+
+  // State for switching between views
+  const [view, setView] = useState<FlashcardView>("decks");
+  const [activeDeckId, setActiveDeckId] = useState<string>(ALL_DUE);
+
+  // State for review: remaining card ids, front of the queue is shown
+  const [queue, setQueue] = useState<string[]>([]);
+  const [reviewedIds, setReviewedIds] = useState<string[]>([]);
+  const [nextDueAt, setNextDueAt] = useState<string | null>(null);
+  const [limitedCount, setLimitedCount] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
 
-  // State for UI
-  const [showCreate, setShowCreate] = useState(false);
+  // State for generation
   const [isGenerating, setIsGenerating] = useState(false);
+  const aiStatus = useAIStatus();
   const [sourceText, setSourceText] = useState("");
-  const [reviewedCount, setReviewedCount] = useState(0);
+  const [targetDeckId, setTargetDeckId] = useState<string>();
+
+  // State for deck dialogs
+  const [showNewDeck, setShowNewDeck] = useState(false);
+  const [editingDeck, setEditingDeck] = useState<FlashcardDeck | null>(null);
+  const [mergingDeck, setMergingDeck] = useState<FlashcardDeck | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string>();
+  const [deletingDeck, setDeletingDeck] = useState<FlashcardDeck | null>(null);
+  const [sharingDeck, setSharingDeck] = useState<FlashcardDeck | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  // Card at the front of the queue, looked up fresh so edits show up
+  const currentCard = allCards.find((c) => c.id === queue[0]);
+  const activeDeck = decks.find((d) => d.id === activeDeckId);
+
+  // Interval each answer button would give the current card
+  const currentAlgorithm =
+    decks.find((d) => d.id === currentCard?.deckId)?.algorithm ?? DEFAULT_ALGORITHM;
+  const intervals = currentCard
+    ? previewIntervals(currentCard, new Date(), currentAlgorithm)
+    : { again: 0, hard: 0, good: 0, easy: 0 };
+
+  // Pull remote cards on mount and whenever the browser comes back online
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!hasPendingChanges()) return;
+    const timeout = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [decks, hasPendingChanges, sync]);
+
+  /**
+   * Build the review queue for one deck or every deck
+   * Reads the store directly so it sees reviews made moments ago
+   *
+   * @param deckId - Deck id, or ALL_DUE for every deck
+   */
+  const buildQueueFor = (deckId: string) => {
+    const state = useFlashcardStore.getState();
+    const studyDecks = deckId === ALL_DUE ? state.decks : state.decks.filter((d) => d.id === deckId);
+    return buildReviewQueue(studyDecks, state.getStudiedToday());
+  };
 
-  // Current card being reviewed
-  const currentCard = cards[currentIndex];
+  /**
+   * Start a study session for one deck or all due cards
+   *
+   * @param deckId - Deck id, or ALL_DUE for every due card
+   */
+  const startStudy = (deckId: string) => {
+    const result = buildQueueFor(deckId);
+
+    setActiveDeckId(deckId);
+    setQueue(result.cardIds);
+    setNextDueAt(result.nextDueAt);
+    setLimitedCount(result.limitedCount);
+    setReviewedIds([]);
+    setIsFlipped(false);
+    setReviewedCount(0);
+    setView("study");
+  };
 
   /**
    * Handle card flip animation
@@ -89,60 +266,60 @@ export default function Flashcards() {
   };
 
   /**
-   * Handle difficulty rating
-   * Updates spaced repetition algorithm metrics
+   * Handle an answer button
+   * Reschedules the card with its deck's algorithm (SM-2 or FSRS)
    *
-   * @param rating - User's rating: 'hard', 'good', or 'easy'
+   * @param button - Which answer button was pressed
    */
-  const handleRating = (rating: "hard" | "good" | "easy") => {
-    incrementStat("flashcardsReviewed");
-    updateMissionProgress("flashcard");
-    const { xpGained } = addXP("review_flashcard");
-    setReviewedCount(reviewedCount + 1);
+  const handleRating = (button: ReviewButton) => {
+    if (!currentCard) return;
 
-    // Update card with SM-2 algorithm (simplified)
-    const updatedCards = [...cards];
-    const card = { ...updatedCards[currentIndex] };
-
-    if (rating === "hard") {
-      card.interval = 1;
-      card.easeFactor = Math.max(1.3, card.easeFactor - 0.2);
-    } else if (rating === "good") {
-      card.repetitions += 1;
-      card.interval =
-        card.repetitions === 1
-          ? 1
-          : card.repetitions === 2
-          ? 6
-          : Math.round(card.interval * card.easeFactor);
-    } else {
-      card.repetitions += 1;
-      card.interval = Math.round(card.interval * card.easeFactor * 1.3);
-      card.easeFactor += 0.1;
+    const quality = BUTTON_QUALITY[button];
+    const firstReview = !reviewedIds.includes(currentCard.id);
+    try {
+      reviewCard(currentCard.id, quality);
+      // Count each card once per session toward the deck's daily limits
+      if (firstReview) recordReview(currentCard.deckId, isNewCard(currentCard));
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      toast({ title: "Review not saved", description: error.message, variant: "destructive" });
+      return;
     }
 
-    const nextDate = new Date();
-    nextDate.setDate(nextDate.getDate() + card.interval);
-    card.nextReviewDate = nextDate.toISOString();
-    card.lastReviewDate = new Date().toISOString();
-
-    updatedCards[currentIndex] = card;
-    setCards(updatedCards);
-
-    // Move to next card
-    if (currentIndex < cards.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-      setIsFlipped(false);
-    } else {
+    // Rewards only once the review is saved
+    incrementStat("flashcardsReviewed");
+    updateMissionProgress("flashcard");
+    addXP("review_flashcard");
+    setReviewedCount(reviewedCount + 1);
+    if (firstReview) setReviewedIds([...reviewedIds, currentCard.id]);
+
+    // Lapsed cards come back later in this session
+    const remaining = queue.slice(1);
+    const nextQueue = isPassingQuality(quality)
+      ? remaining
+      : requeueLapsedCard(remaining, currentCard.id);
+    setQueue(nextQueue);
+    setIsFlipped(false);
+
+    if (nextQueue.length === 0) {
+      const result = buildQueueFor(activeDeckId);
+      setNextDueAt(result.nextDueAt);
+      setLimitedCount(result.limitedCount);
       toast({
         title: "Review Complete! 🎉",
-        description: `You reviewed ${cards.length} cards and earned XP!`,
+        description: `You reviewed ${reviewedCount + 1} cards and earned XP!`,
       });
-      setCurrentIndex(0);
-      setIsFlipped(false);
     }
   };
 
+  /**
+   * Skip the current card, moving it to the end of the queue
+   */
+  const skipCard = () => {
+    setQueue([...queue.slice(1), queue[0]]);
+    setIsFlipped(false);
+  };
+
   const generateFlashcards = async () => {
     if (!sourceText.trim()) {
       toast({
@@ -159,27 +336,17 @@ export default function Flashcards() {
       // Generate flashcards using Gemini API
       const generatedCards = await generateFlashcardsAI(sourceText);
 
-      // Convert to Flashcard type with required fields
-      const newCards: Flashcard[] = generatedCards.map((card, index) => ({
-        id: `gen-${Date.now()}-${index}`,
-        front: card.front,
-        back: card.back,
-        difficulty: card.difficulty,
-        deckId: "1",
-        interval: 1,
-        easeFactor: 2.5,
-        repetitions: 0,
-        nextReviewDate: new Date().toISOString(),
-      }));
-
-      setCards([...cards, ...newCards]);
+      // Save to the chosen deck; scheduling fields start as a new card
+      const deck = decks.find((d) => d.id === targetDeckId);
+      const newCards = addCards(deck ? deck.id : ensureDefaultDeck(), generatedCards);
+
       setIsGenerating(false);
-      setShowCreate(false);
+      setView("decks");
       setSourceText("");
 
       toast({
         title: "Flashcards Generated! ✨",
-        description: `Added ${newCards.length} new flashcards to your deck.`,
+        description: `Added ${newCards.length} new flashcards to ${deck?.name ?? DEFAULT_DECK_NAME}.`,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to generate flashcards";
@@ -192,6 +359,92 @@ export default function Flashcards() {
     }
   };
 
+  /**
+   * Merge the deck chosen in the merge dialog into the selected target
+   */
+  const handleMerge = () => {
+    if (!mergingDeck || !mergeTargetId) return;
+
+    const target = decks.find((d) => d.id === mergeTargetId);
+    mergeDecks([mergingDeck.id], mergeTargetId);
+
+    toast({
+      title: "Decks Merged",
+      description: `Moved ${mergingDeck.cards.length} cards into ${target?.name}.`,
+    });
+    setMergingDeck(null);
+    setMergeTargetId(undefined);
+  };
+
+  /**
+   * Add imported cards, creating decks that do not exist yet
+   *
+   * @param groups - Cards grouped by destination deck
+   */
+  const handleImport = (groups: ImportGroup[]) => {
+    const createdDeckIds: string[] = [];
+    const addedCardIds: string[] = [];
+
+    try {
+      groups.forEach((group) => {
+        let deckId = group.deckId;
+        if (!deckId) {
+          deckId = createDeck(group.deckName).id;
+          createdDeckIds.push(deckId);
+        }
+        addedCardIds.push(...addCards(deckId, group.cards).map((c) => c.id));
+      });
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+
+      // Refuse the whole import rather than keep part of it
+      deleteCards(addedCardIds);
+      createdDeckIds.forEach((id) => deleteDeck(id));
+      toast({
+        title: "Import Failed",
+        description: "The cards (and their images) are too large for your browser's storage. Try importing fewer cards or a package without media.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const total = addedCardIds.length;
+    toast({
+      title: "Import Complete 📥",
+      description: `Imported ${total} cards into ${groups.length === 1 ? groups[0].deckName : `${groups.length} decks`}.`,
+    });
+  };
+
+  /**
+   * Download a deck in the chosen format
+   *
+   * @param deck - Deck to export
+   * @param format - Anki package, CSV or TSV
+   */
+  const handleExport = async (deck: FlashcardDeck, format: ExportFormat) => {
+    const baseName = deck.name.replace(/[\\/:*?"<>|]+/g, "_");
+
+    try {
+      if (format === "apkg") {
+        downloadFile(`${baseName}.apkg`, await writeAnkiPackage(deck), "application/octet-stream");
+      } else {
+        const delimiter = format === "tsv" ? "\t" : ",";
+        downloadFile(
+          `${baseName}.${format}`,
+          exportDeckToDelimited(deck, delimiter),
+          format === "tsv" ? "text/tab-separated-values" : "text/csv"
+        );
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      toast({
+        title: "Export Failed",
+        description: `Could not export ${deck.name}: ${errorMessage}`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const difficultyColors = {
     easy: "bg-success/20 text-success",
     medium: "bg-warning/20 text-warning",
@@ -207,22 +460,29 @@ export default function Flashcards() {
             Master concepts with spaced repetition
           </p>
         </div>
-        <Button
-          onClick={() => setShowCreate(!showCreate)}
-          variant={showCreate ? "secondary" : "default"}
-        >
-          {showCreate ? (
-            "Back to Review"
-          ) : (
-            <>
+        {view === "decks" ? (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <FileUp className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => setShowNewDeck(true)}>
+              <FolderPlus className="w-4 h-4 mr-2" />
+              New Deck
+            </Button>
+            <Button onClick={() => setView("create")}>
               <Plus className="w-4 h-4 mr-2" />
               Create Cards
-            </>
-          )}
-        </Button>
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={() => setView("decks")} variant="secondary">
+            Back to Decks
+          </Button>
+        )}
       </div>
 
-      {showCreate ? (
+      {view === "create" ? (
         <Card className="max-w-2xl mx-auto">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -231,14 +491,23 @@ export default function Flashcards() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors cursor-pointer">
-              <Upload className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
-              <p className="font-medium mb-1">Upload PDF or Image</p>
-              <p className="text-sm text-muted-foreground">
-                Drag and drop or click to browse
-              </p>
+            <AIStatusNotice />
+
+            <div className="space-y-2">
+              <Label>Add to deck</Label>
+              <DeckSelect
+                decks={decks}
+                value={targetDeckId}
+                onChange={setTargetDeckId}
+                placeholder={`${DEFAULT_DECK_NAME} (default)`}
+              />
             </div>
 
+            <DocumentDropZone
+              onExtracted={(extracted) => setSourceText(extracted.text)}
+              disabled={isGenerating}
+            />
+
             <div className="flex items-center gap-4">
               <div className="flex-1 h-px bg-border" />
               <span className="text-sm text-muted-foreground">
@@ -256,7 +525,7 @@ export default function Flashcards() {
 
             <Button
               onClick={generateFlashcards}
-              disabled={!sourceText.trim() || isGenerating}
+              disabled={!aiStatus.ready || !sourceText.trim() || isGenerating}
               className="w-full gradient-primary text-primary-foreground"
             >
               {isGenerating ? (
@@ -273,7 +542,135 @@ export default function Flashcards() {
             </Button>
           </CardContent>
         </Card>
-      ) : cards.length === 0 ? (
+      ) : view === "manage" && activeDeck ? (
+        <DeckCardList
+          deck={activeDeck}
+          decks={decks}
+          onMove={(cardIds, deckId) => {
+            moveCards(cardIds, deckId);
+            toast({ title: "Cards Moved", description: `Moved ${cardIds.length} cards.` });
+          }}
+          onSplit={(cardIds, name, details) => {
+            splitDeck(activeDeck.id, cardIds, name, details);
+            toast({ title: "Deck Split", description: `Created ${name} with ${cardIds.length} cards.` });
+          }}
+          onAddCard={(card) => {
+            addCards(activeDeck.id, [card]);
+            toast({ title: "Card Added", description: `Added to ${activeDeck.name}.` });
+          }}
+          onEditCard={(cardId, card) => updateCard(cardId, card)}
+          onDeleteCards={(cardIds) => {
+            deleteCards(cardIds);
+            toast({ title: "Cards Deleted", description: `Deleted ${cardIds.length} cards.` });
+          }}
+          onBack={() => setView("decks")}
+        />
+      ) : view === "study" ? (
+        !currentCard ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="flex flex-col items-center justify-center h-64 text-center">
+              <CalendarCheck className="w-16 h-16 text-success mb-4" />
+              <h2 className="text-2xl font-bold mb-2">All Caught Up!</h2>
+              <p className="text-muted-foreground">
+                {nextDueAt
+                  ? `Come back at ${new Date(nextDueAt).toLocaleString("en-US", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })} for your next review.`
+                  : "There are no cards scheduled in this deck."}
+              </p>
+              {limitedCount > 0 && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {limitedCount} more due cards are waiting on today's deck limits.
+                </p>
+              )}
+              <Button onClick={() => setView("decks")} className="mt-6">
+                Back to Decks
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="max-w-2xl mx-auto space-y-6">
+            {/* Progress */}
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {activeDeck ? activeDeck.name : "All due cards"} · {queue.length} left
+              </span>
+              <span>{reviewedCount} reviewed this session</span>
+            </div>
+
+            {/* Flashcard */}
+            <div
+              className={cn(
+                "flip-card w-full h-[350px] cursor-pointer",
+                isFlipped && "flipped"
+              )}
+              onClick={handleFlip}
+            >
+              <div className="flip-card-inner relative w-full h-full">
+                {/* Front */}
+                <Card className="flip-card-front absolute inset-0 w-full h-full">
+                  <CardContent className="flex flex-col items-center justify-center h-full p-8 text-center overflow-y-auto">
+                    <Badge
+                      className={cn(
+                        "mb-4",
+                        difficultyColors[currentCard.difficulty]
+                      )}
+                    >
+                      {currentCard.difficulty}
+                    </Badge>
+                    <RichContent content={currentCard.front} className="prose-lg font-medium" />
+                    <p className="text-sm text-muted-foreground mt-4">
+                      Click to flip
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {/* Back */}
+                <Card className="flip-card-back absolute inset-0 w-full h-full bg-gradient-to-br from-primary/5 to-accent/5">
+                  <CardContent className="flex flex-col items-center justify-center h-full p-8 text-center overflow-y-auto">
+                    <RichContent content={currentCard.back} className="prose-base" />
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+
+            {/* Answer Buttons */}
+            <div className="grid grid-cols-4 gap-3">
+              {ANSWER_BUTTONS.map(({ button, label, icon: Icon, className }) => (
+                <Button
+                  key={button}
+                  onClick={() => handleRating(button)}
+                  variant="outline"
+                  className={cn("h-auto flex-col py-2", className)}
+                >
+                  <span className="flex items-center">
+                    <Icon className="w-4 h-4 mr-2" />
+                    {label}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatInterval(intervals[button])}
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            {/* Navigation */}
+            <div className="flex items-center justify-between">
+              <Button onClick={() => setView("decks")} variant="ghost">
+                End Session
+              </Button>
+              <Button onClick={skipCard} variant="ghost" disabled={queue.length < 2}>
+                Skip
+                <SkipForward className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )
+      ) : decks.length === 0 ? (
         <Card className="max-w-2xl mx-auto">
           <CardContent className="flex flex-col items-center justify-center h-64 text-center">
             <Layers className="w-16 h-16 text-muted-foreground mb-4" />
@@ -281,125 +678,154 @@ export default function Flashcards() {
             <p className="text-muted-foreground mb-6">
               Generate flashcards from your notes to get started!
             </p>
-            <Button onClick={() => setShowCreate(true)} className="gap-2">
+            <Button onClick={() => setView("create")} className="gap-2">
               <Plus className="w-4 h-4" />
               Create Your First Flashcards
             </Button>
           </CardContent>
         </Card>
       ) : (
-        <div className="max-w-2xl mx-auto space-y-6">
-          {/* Progress */}
-          <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>
-              Card {currentIndex + 1} of {cards.length}
-            </span>
-            <span>{reviewedCount} reviewed this session</span>
-          </div>
-
-          {/* Flashcard */}
-          <div
-            className={cn(
-              "flip-card w-full h-[350px] cursor-pointer",
-              isFlipped && "flipped"
-            )}
-            onClick={handleFlip}
-          >
-            <div className="flip-card-inner relative w-full h-full">
-              {/* Front */}
-              <Card className="flip-card-front absolute inset-0 w-full h-full">
-                <CardContent className="flex flex-col items-center justify-center h-full p-8 text-center">
-                  <Badge
-                    className={cn(
-                      "mb-4",
-                      difficultyColors[currentCard.difficulty]
-                    )}
-                  >
-                    {currentCard.difficulty}
-                  </Badge>
-                  <p className="text-xl font-medium">{currentCard.front}</p>
-                  <p className="text-sm text-muted-foreground mt-4">
-                    Click to flip
+        <div className="space-y-4">
+          {/* Study everything that is due */}
+          <Card className="bg-gradient-to-br from-primary/5 to-accent/5">
+            <CardContent className="p-5 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Clock className="w-8 h-8 text-primary" />
+                <div>
+                  <h3 className="font-semibold">All Due Cards</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {allDueCount} cards ready across {decks.length} decks
                   </p>
-                </CardContent>
-              </Card>
-
-              {/* Back */}
-              <Card className="flip-card-back absolute inset-0 w-full h-full bg-gradient-to-br from-primary/5 to-accent/5">
-                <CardContent className="flex flex-col items-center justify-center h-full p-8 text-center">
-                  <p className="text-lg whitespace-pre-line">
-                    {currentCard.back}
-                  </p>
-                </CardContent>
-              </Card>
-            </div>
+                </div>
+              </div>
+              <Button
+                onClick={() => startStudy(ALL_DUE)}
+                disabled={allDueCount === 0}
+                className="gradient-primary text-primary-foreground"
+              >
+                Study Now
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Deck grid */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {decks.map((deck) => (
+              <DeckCard
+                key={deck.id}
+                deck={deck}
+                onStudy={() => startStudy(deck.id)}
+                onEdit={() => setEditingDeck(deck)}
+                onManage={() => {
+                  setActiveDeckId(deck.id);
+                  setView("manage");
+                }}
+                onMerge={() => setMergingDeck(deck)}
+                onExport={(format) => handleExport(deck, format)}
+                onShare={() => setSharingDeck(deck)}
+                onDelete={() => setDeletingDeck(deck)}
+              />
+            ))}
           </div>
+        </div>
+      )}
 
-          {/* Rating Buttons */}
-          <div className="flex items-center justify-center gap-4">
-            <Button
-              onClick={() => handleRating("hard")}
-              variant="outline"
-              className="flex-1 border-destructive/30 hover:bg-destructive/10 hover:text-destructive"
-            >
-              <ThumbsDown className="w-4 h-4 mr-2" />
-              Hard
-            </Button>
-            <Button
-              onClick={() => handleRating("good")}
-              variant="outline"
-              className="flex-1 border-warning/30 hover:bg-warning/10 hover:text-warning"
-            >
-              <Meh className="w-4 h-4 mr-2" />
-              Good
+      {/* Import from Anki / CSV */}
+      <ImportDeckDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        decks={decks}
+        onImport={handleImport}
+      />
+
+      {/* New deck */}
+      <DeckDialog
+        open={showNewDeck}
+        onOpenChange={setShowNewDeck}
+        title="New Deck"
+        submitLabel="Create Deck"
+        showSettings
+        onSubmit={(name, details) => {
+          createDeck(name, details);
+          toast({ title: "Deck Created", description: `${name} is ready for cards.` });
+        }}
+      />
+
+      {/* Rename / describe deck */}
+      <DeckDialog
+        open={!!editingDeck}
+        onOpenChange={(open) => !open && setEditingDeck(null)}
+        title="Edit Deck"
+        submitLabel="Save"
+        initialName={editingDeck?.name}
+        initialDetails={editingDeck ?? undefined}
+        showSettings
+        onSubmit={(name, details) => {
+          if (editingDeck) updateDeck(editingDeck.id, { name, ...details });
+        }}
+      />
+
+      {/* Merge deck into another */}
+      <Dialog open={!!mergingDeck} onOpenChange={(open) => !open && setMergingDeck(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge "{mergingDeck?.name}" into...</DialogTitle>
+          </DialogHeader>
+          <DeckSelect
+            decks={decks}
+            value={mergeTargetId}
+            onChange={setMergeTargetId}
+            excludeIds={mergingDeck ? [mergingDeck.id] : []}
+          />
+          <p className="text-sm text-muted-foreground">
+            Cards keep their review history. The merged deck is deleted afterwards.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergingDeck(null)}>
+              Cancel
             </Button>
-            <Button
-              onClick={() => handleRating("easy")}
-              variant="outline"
-              className="flex-1 border-success/30 hover:bg-success/10 hover:text-success"
-            >
-              <ThumbsUp className="w-4 h-4 mr-2" />
-              Easy
+            <Button onClick={handleMerge} disabled={!mergeTargetId}>
+              Merge Decks
             </Button>
-          </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Share deck */}
+      {sharingDeck && (
+        <ShareDialog
+          open={!!sharingDeck}
+          onOpenChange={(open) => !open && setSharingDeck(null)}
+          kind="deck"
+          sourceId={sharingDeck.id}
+          title={sharingDeck.name}
+          getContent={() => deckShareContent(sharingDeck)}
+        />
+      )}
 
-          {/* Navigation */}
-          <div className="flex items-center justify-between">
-            <Button
-              onClick={() => {
-                setCurrentIndex(Math.max(0, currentIndex - 1));
-                setIsFlipped(false);
-              }}
-              variant="ghost"
-              disabled={currentIndex === 0}
-            >
-              <ChevronLeft className="w-4 h-4 mr-2" />
-              Previous
-            </Button>
-            <Button
+      {/* Delete deck confirmation */}
+      <AlertDialog open={!!deletingDeck} onOpenChange={(open) => !open && setDeletingDeck(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deletingDeck?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the deck and its {deletingDeck?.cards.length} cards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
               onClick={() => {
-                setCurrentIndex(0);
-                setIsFlipped(false);
+                if (deletingDeck) deleteDeck(deletingDeck.id);
+                setDeletingDeck(null);
               }}
-              variant="ghost"
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              <RotateCcw className="w-4 h-4 mr-2" />
-              Restart
-            </Button>
-            <Button
-              onClick={() => {
-                setCurrentIndex(Math.min(cards.length - 1, currentIndex + 1));
-                setIsFlipped(false);
-              }}
-              variant="ghost"
-              disabled={currentIndex === cards.length - 1}
-            >
-              Next
-              <ChevronRight className="w-4 h-4 ml-2" />
-            </Button>
-          </div>
-        </div>
-      )}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
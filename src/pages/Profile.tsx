@@ -6,6 +6,7 @@
  * - All achievements and badges
  * - Comprehensive learning statistics
  * - Profile customization options
+ * - AI provider settings
  */
 
 // React hooks
@@ -25,6 +26,9 @@ import { useGameStore } from "@/lib/gameStore";
 // Gamification component
 import { BadgeGrid } from "@/components/gamification/BadgeGrid";
 
+// AI provider settings
+import { AISettingsCard } from "@/components/settings/AISettingsCard";
+
 // Icons from lucide-react
 import {
   User,
@@ -242,6 +246,9 @@ export default function Profile() {
         </Card>
       </div>
 
+      {/* AI Settings */}
+      <AISettingsCard />
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
@@ -0,0 +1,425 @@
+/**
+ * Question Bank Page Component
+ *
+ * Allows users to:
+ * - Browse every generated and hand-written question
+ * - Filter by subject, topic, tag, difficulty and type, or search
+ * - Spot near-duplicate questions
+ * - Write, edit and delete questions
+ * - Assemble a custom quiz from the selected (or filtered) questions
+ */
+
+// React hooks
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+// UI components from shadcn
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// State management
+import {
+  BankFilters,
+  EMPTY_BANK_FILTERS,
+  bankFacets,
+  filterBankQuestions,
+  quizFromBank,
+  useQuestionBankStore,
+} from "@/lib/questionBankStore";
+import { useQuizStore } from "@/lib/quizStore";
+import { duplicateGroups } from "@/lib/questionDedup";
+import { QUESTION_TYPE_LABELS } from "@/lib/quizGrading";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+// Question editor and Markdown/math rendering
+import { BankQuestionDialog } from "@/components/quiz/BankQuestionDialog";
+import { RichContent } from "@/components/RichContent";
+
+// Icons from lucide-react
+import { Copy, Database, Pencil, Play, Plus, Search, Trash2 } from "lucide-react";
+
+// Type definitions
+import { BankQuestion, Difficulty, QuestionType } from "@/types";
+
+/**
+ * Delay before local bank changes are pushed to Supabase
+ */
+const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * Select value standing for "no filter"
+ */
+const ANY = "any";
+
+/**
+ * Props for the module-private FacetSelect
+ */
+interface FacetSelectProps {
+  label: string;
+  value: string | null;
+  options: { value: string; label: string }[];
+  onChange: (value: string | null) => void;
+}
+
+/**
+ * FacetSelect - One filter dropdown with an "Any" choice
+ */
+function FacetSelect({ label, value, options, onChange }: FacetSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value ?? ANY} onValueChange={(v) => onChange(v === ANY ? null : v)}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * QuestionBank Component
+ *
+ * Filters on the left feed both the question list and the quiz builder.
+ */
+export default function QuestionBank() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { questions, saveQuestion, deleteQuestions, hasPendingChanges, sync } = useQuestionBankStore();
+  const { saveQuiz } = useQuizStore();
+
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [quizTitle, setQuizTitle] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [deleting, setDeleting] = useState<string[]>([]);
+
+  // Pull remote questions on mount and whenever the browser comes back online
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!hasPendingChanges()) return;
+    const timeout = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [questions, hasPendingChanges, sync]);
+
+  const facets = useMemo(() => bankFacets(questions), [questions]);
+
+  // Ids of questions that have a near-duplicate somewhere in the bank
+  const duplicateIds = useMemo(
+    () => new Set(duplicateGroups(questions).flatMap((group) => group.map((q) => q.id))),
+    [questions]
+  );
+
+  const visible = useMemo(() => {
+    const matching = filterBankQuestions(questions, filters);
+    return duplicatesOnly ? matching.filter((q) => duplicateIds.has(q.id)) : matching;
+  }, [questions, filters, duplicatesOnly, duplicateIds]);
+
+  // The quiz uses the selection, or every shown question when nothing is selected
+  const selected = visible.filter((q) => selectedIds.includes(q.id));
+  const quizQuestions = selected.length > 0 ? selected : visible;
+
+  const updateFilter = <K extends keyof BankFilters>(key: K, value: BankFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const allShownSelected = visible.length > 0 && selected.length === visible.length;
+
+  /**
+   * Save the assembled quiz to the library and start it
+   */
+  const buildQuiz = () => {
+    if (quizQuestions.length === 0) return;
+    const title =
+      quizTitle.trim() || filters.topic || filters.subject || filters.tag || "Custom quiz";
+    const quiz = quizFromBank(quizQuestions, title);
+    saveQuiz(quiz);
+    navigate(`/quiz/${quiz.id}`);
+  };
+
+  const openEditor = (question: BankQuestion | null) => {
+    setEditing(question);
+    setEditorOpen(true);
+  };
+
+  const confirmDelete = () => {
+    deleteQuestions(deleting);
+    setSelectedIds((prev) => prev.filter((id) => !deleting.includes(id)));
+    toast({
+      title: "Questions deleted",
+      description: `${deleting.length} ${deleting.length === 1 ? "question was" : "questions were"} removed from your bank.`,
+    });
+    setDeleting([]);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Question Bank</h1>
+          <p className="text-muted-foreground mt-1">
+            Every question you generate or write, ready to mix into custom quizzes
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} className="gradient-primary text-primary-foreground">
+          <Plus className="w-4 h-4 mr-2" />
+          New Question
+        </Button>
+      </div>
+
+      {questions.length === 0 ? (
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="py-12 text-center">
+            <Database className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-xl font-semibold mb-2">Your question bank is empty</h2>
+            <p className="text-muted-foreground">
+              Questions from the quizzes you generate are added here automatically, or write your own.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          {/* Filters and quiz builder */}
+          <div className="space-y-4">
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <div className="relative">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search questions..."
+                    value={filters.query}
+                    onChange={(e) => updateFilter("query", e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <FacetSelect
+                  label="Subject"
+                  value={filters.subject}
+                  options={facets.subjects.map((s) => ({ value: s, label: s }))}
+                  onChange={(v) => updateFilter("subject", v)}
+                />
+                <FacetSelect
+                  label="Topic"
+                  value={filters.topic}
+                  options={facets.topics.map((t) => ({ value: t, label: t }))}
+                  onChange={(v) => updateFilter("topic", v)}
+                />
+                <FacetSelect
+                  label="Tag"
+                  value={filters.tag}
+                  options={facets.tags.map((t) => ({ value: t, label: t }))}
+                  onChange={(v) => updateFilter("tag", v)}
+                />
+                <FacetSelect
+                  label="Difficulty"
+                  value={filters.difficulty}
+                  options={["easy", "medium", "hard"].map((d) => ({ value: d, label: d }))}
+                  onChange={(v) => updateFilter("difficulty", v as Difficulty | null)}
+                />
+                <FacetSelect
+                  label="Type"
+                  value={filters.type}
+                  options={(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((t) => ({
+                    value: t,
+                    label: QUESTION_TYPE_LABELS[t],
+                  }))}
+                  onChange={(v) => updateFilter("type", v as QuestionType | null)}
+                />
+                <div className="flex items-center justify-between gap-2 pt-1">
+                  <Label htmlFor="duplicatesOnly" className="text-sm">
+                    Possible duplicates only ({duplicateIds.size})
+                  </Label>
+                  <Switch id="duplicatesOnly" checked={duplicatesOnly} onCheckedChange={setDuplicatesOnly} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setFilters(EMPTY_BANK_FILTERS);
+                    setDuplicatesOnly(false);
+                  }}
+                >
+                  Clear filters
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <Label htmlFor="customQuizTitle">Quiz title</Label>
+                <Input
+                  id="customQuizTitle"
+                  placeholder={filters.topic || filters.subject || filters.tag || "Custom quiz"}
+                  value={quizTitle}
+                  onChange={(e) => setQuizTitle(e.target.value)}
+                />
+                <Button
+                  onClick={buildQuiz}
+                  disabled={quizQuestions.length === 0}
+                  className="w-full gradient-primary text-primary-foreground"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  Quiz me on {quizQuestions.length} {quizQuestions.length === 1 ? "question" : "questions"}
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {selected.length > 0
+                    ? "Uses the selected questions."
+                    : "Uses every question shown; select some to narrow it down."}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Question list */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox
+                  checked={allShownSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? visible.map((q) => q.id) : [])}
+                  aria-label="Select all shown questions"
+                />
+                {visible.length} of {questions.length} questions
+                {selected.length > 0 && ` · ${selected.length} selected`}
+              </div>
+              {selected.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => setDeleting(selected.map((q) => q.id))}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete selected
+                </Button>
+              )}
+            </div>
+
+            {visible.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No questions match these filters.</p>
+            )}
+
+            {visible.map((question) => (
+              <div
+                key={question.id}
+                className={cn(
+                  "flex gap-3 rounded-xl border p-4",
+                  selectedIds.includes(question.id) ? "border-primary bg-primary/5" : "border-border"
+                )}
+              >
+                <Checkbox
+                  checked={selectedIds.includes(question.id)}
+                  onCheckedChange={() => toggleSelected(question.id)}
+                  aria-label="Select question"
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <RichContent content={question.question} className="font-medium" />
+                  <p className="text-sm text-muted-foreground truncate">Answer: {question.correctAnswer}</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                    <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                    {question.subject && <Badge variant="outline">{question.subject}</Badge>}
+                    {question.topic && <Badge variant="outline">{question.topic}</Badge>}
+                    {question.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-muted-foreground">
+                        #{tag}
+                      </Badge>
+                    ))}
+                    {duplicateIds.has(question.id) && (
+                      <Badge variant="outline" className="border-warning text-warning">
+                        <Copy className="w-3 h-3 mr-1" />
+                        Possible duplicate
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(question)} aria-label="Edit question">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting([question.id])}
+                    aria-label="Delete question"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <BankQuestionDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        question={editing}
+        bank={questions}
+        onSubmit={saveQuestion}
+      />
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting.length > 0} onOpenChange={(open) => !open && setDeleting([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {deleting.length === 1 ? "this question" : `${deleting.length} questions`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Saved quizzes keep their copies; the bank no longer offers them for new quizzes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
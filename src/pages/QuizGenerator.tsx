@@ -2,18 +2,26 @@
  * Quiz Generator Page Component
  *
  * Allows users to:
- * - Generate quizzes from source material
+ * - Generate quizzes from source material (pasted or uploaded PDF/DOCX/image)
+ * - Choose question count, difficulty mix, focus topics and question types
  * - Take quizzes with immediate feedback
+ * - Take adaptive quizzes whose difficulty follows performance, with topic mastery
+ * - Save every quiz to the library and retake saved ones (/quiz/:quizId)
+ * - Keep generated questions in the question bank (near-duplicates skipped)
+ * - Get AI partial credit and rubric feedback on written answers
+ * - Review missed questions as flashcards and retry only the missed ones
+ * - Post attempts at shared quizzes to their leaderboard
  * - Earn XP and track progress
  * - View detailed explanations for each question
  * - Unlock quiz-related badges
  */
 
 // React hooks
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 
 // UI components from shadcn
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -22,28 +30,75 @@ import { Progress } from "@/components/ui/progress";
 
 // Hooks and state
 import { useToast } from "@/hooks/use-toast";
+import { useAIStatus } from "@/hooks/use-ai-status";
 import { useGameStore } from "@/lib/gameStore";
+import { createQuizId, quizTitleFromSource, sourcePreview, useQuizStore } from "@/lib/quizStore";
+import { useFlashcardStore } from "@/lib/flashcardStore";
+import { useQuestionBankStore } from "@/lib/questionBankStore";
 
 // Gamification components
 import { Confetti } from "@/components/gamification/Confetti";
 
+// Document upload and Markdown/math rendering
+import { DocumentDropZone } from "@/components/DocumentDropZone";
+import { AIStatusNotice } from "@/components/AIStatusNotice";
+import { RichContent } from "@/components/RichContent";
+
+// Quiz setup and answer renderers
+import { QuizOptionsFields } from "@/components/quiz/QuizOptionsFields";
+import { QuestionInput } from "@/components/quiz/QuestionInput";
+import { QuizModeFields } from "@/components/quiz/QuizModeFields";
+import { ExamRunner, ExamSubmission } from "@/components/quiz/ExamRunner";
+import { AttemptAnswers } from "@/components/quiz/QuizAttemptHistory";
+import { TopicMasteryList } from "@/components/quiz/TopicMasteryList";
+
 // Icons from lucide-react
 import {
   FileQuestion,
-  Upload,
   Sparkles,
-  CheckCircle2,
-  XCircle,
   ChevronRight,
   RotateCcw,
   Trophy,
+  Loader2,
+  Play,
+  Repeat,
 } from "lucide-react";
 
 // Type definitions
-import { Question, Quiz } from "@/types";
+import { ExamSettings, Flashcard, Question, Quiz, QuizAnswer, QuizAttempt, QuizMode } from "@/types";
+
+// AI integration and grading
+import {
+  DEFAULT_QUIZ_OPTIONS,
+  QuizGenerationOptions,
+  generateQuizQuestions,
+  gradeFreeTextAnswer,
+} from "@/lib/gemini";
+import {
+  PASSING_CREDIT,
+  QuizResponse,
+  formatResponse,
+  gradeResponse,
+  isResponseComplete,
+  needsAIGrading,
+  totalCredit,
+} from "@/lib/quizGrading";
+import { DEFAULT_EXAM_SETTINGS, QuestionTimes, toSeconds } from "@/lib/quizExam";
+import {
+  adaptiveLength,
+  answerHistory,
+  estimateAbility,
+  pickNextQuestion,
+  topicMastery,
+} from "@/lib/adaptiveQuiz";
+import { mistakeFlashcard, missedQuestions, missedQuestionsQuiz } from "@/lib/quizMistakes";
+import { submitSharedAttempt } from "@/lib/sharing";
+import { StorageQuotaError } from "@/lib/storageQuota";
 
-// AI integration
-import { generateQuizQuestions } from "@/lib/gemini";
+/**
+ * Delay before local quiz changes are pushed to Supabase
+ */
+const SYNC_DEBOUNCE_MS = 2000;
 
 /**
  * Mock quiz questions
@@ -111,24 +166,91 @@ const mockQuestions: Question[] = [
 export default function QuizGenerator() {
   // Hooks
   const { toast } = useToast();
-  const { addXP, incrementStat, updateMissionProgress, unlockBadge } =
-    useGameStore();
+  const { recordActivity, unlockBadge } = useGameStore();
+  const { quizzes, saveQuiz, recordAttempt, hasPendingChanges, sync } = useQuizStore();
+  const { addMistakeCards } = useFlashcardStore();
+  const { addQuestions: addToBank } = useQuestionBankStore();
+  const navigate = useNavigate();
+
+  // Saved quiz to retake, from the route
+  const { quizId } = useParams<{ quizId: string }>();
 
   // State for quiz generation
   const [sourceText, setSourceText] = useState("");
+  const [quizOptions, setQuizOptions] = useState<QuizGenerationOptions>(DEFAULT_QUIZ_OPTIONS);
   const [isGenerating, setIsGenerating] = useState(false);
+  const aiStatus = useAIStatus();
 
   // State for current quiz
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  // Questions in the order they are served (adaptive quizzes add one at a time)
+  const [servedIds, setServedIds] = useState<string[]>([]);
+  const [response, setResponse] = useState<QuizResponse | null>(null);
   const [showResult, setShowResult] = useState(false);
-  const [answers, setAnswers] = useState<
-    { questionId: string; answer: string; correct: boolean }[]
-  >([]);
+  const [isGrading, setIsGrading] = useState(false);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [questionTimes, setQuestionTimes] = useState<QuestionTimes>({});
+
+  // How quizzes are taken (chosen before starting)
+  const [mode, setMode] = useState<QuizMode>("practice");
+  const [examSettings, setExamSettings] = useState<ExamSettings>(DEFAULT_EXAM_SETTINGS);
+
+  // When the practice question on screen was shown (ms)
+  const questionShownAtRef = useRef(Date.now());
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
 
+  // Pull remote quizzes on mount and whenever the browser comes back online
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  // Push new quizzes and attempts shortly after they happen
+  useEffect(() => {
+    if (!hasPendingChanges()) return;
+    const timeout = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [quizzes, hasPendingChanges, sync]);
+
+  /**
+   * Show a quiz from its first question
+   * Generated quizzes start right away; saved ones wait on the start screen
+   */
+  const openQuiz = (next: Quiz, start: boolean) => {
+    setQuiz(next);
+    setCurrentQuestionIndex(0);
+    // Adaptive quizzes open with the question nearest an average student
+    const first = mode === "adaptive" ? pickNextQuestion(next.questions, [], 0) : null;
+    setServedIds(!start ? [] : first ? [first.id] : next.questions.map((q) => q.id));
+    setResponse(null);
+    setShowResult(false);
+    setAnswers([]);
+    setQuestionTimes({});
+    setQuizCompleted(false);
+    setStartedAt(start ? new Date().toISOString() : null);
+    questionShownAtRef.current = Date.now();
+  };
+
+  // Open the saved quiz named in the route (it may arrive with the first sync)
+  const savedQuiz = quizId ? quizzes.find((q) => q.id === quizId) : undefined;
+  useEffect(() => {
+    if (savedQuiz && quiz?.id !== savedQuiz.id) openQuiz(savedQuiz, false);
+    // Only a different quiz reopens; new attempts on the open one must not
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedQuiz]);
+
+  const currentQuestion = quiz?.questions.find((q) => q.id === servedIds[currentQuestionIndex]);
+  // Adaptive quizzes serve part of the pool
+  const questionCount = quiz
+    ? mode === "adaptive"
+      ? adaptiveLength(quiz.questions.length)
+      : quiz.questions.length
+    : 0;
+
   /**
    * Generate a new quiz from source material
    * Uses Gemini AI to generate realistic quiz questions
@@ -146,33 +268,41 @@ export default function QuizGenerator() {
     setIsGenerating(true);
 
     try {
-      // Call Gemini API to generate questions
-      const questions = await generateQuizQuestions(sourceText);
+      // Ask the AI for questions matching the chosen options
+      const questions = await generateQuizQuestions(sourceText, quizOptions);
 
-      // Create new quiz with AI-generated questions
+      // Create new quiz with AI-generated questions and keep it in the library
       const newQuiz: Quiz = {
-        id: `quiz-${Date.now()}`,
-        title: "Generated Quiz",
-        source: sourceText.substring(0, 50) + "...",
+        id: createQuizId(),
+        title: quizTitleFromSource(sourceText, quizOptions.topics),
+        source: sourcePreview(sourceText),
         questions: questions,
         createdAt: new Date().toISOString(),
         attempts: [],
       };
 
-      setQuiz(newQuiz);
-      setCurrentQuestionIndex(0);
-      setAnswers([]);
-      setQuizCompleted(false);
+      saveQuiz(newQuiz);
+      openQuiz(newQuiz, true);
+
+      // Keep the questions for custom quizzes, tagged with the focus topics
+      const tags = (quizOptions.topics ?? []).map((t) => t.trim()).filter(Boolean);
+      const { duplicates } = addToBank(
+        questions.map((q) => ({ ...q, tags, origin: "generated", source: newQuiz.source }))
+      );
 
       toast({
         title: "Quiz generated! 📝",
-        description: `${newQuiz.questions.length} questions ready for you.`,
+        description:
+          `${newQuiz.questions.length} questions ready for you.` +
+          (duplicates > 0
+            ? ` ${duplicates} already in your question bank ${duplicates === 1 ? "was" : "were"} not added again.`
+            : ""),
       });
     } catch (error) {
       console.error("Error generating quiz:", error);
       toast({
         title: "Error generating quiz",
-        description: "Failed to generate quiz. Please check your input and try again.",
+        description: error instanceof Error ? error.message : "Failed to generate quiz. Please check your input and try again.",
         variant: "destructive",
       });
     } finally {
@@ -180,75 +310,206 @@ export default function QuizGenerator() {
     }
   };
 
-  const submitAnswer = () => {
-    if (!selectedAnswer || !quiz) return;
+  /**
+   * Grade one response
+   * Each question type has its own grader (exact option, loose text, numeric tolerance);
+   * written answers in the student's own words are marked by the AI for partial credit.
+   */
+  const gradeAnswer = async (question: Question, questionResponse: QuizResponse | null): Promise<QuizAnswer> => {
+    if (!isResponseComplete(question, questionResponse)) {
+      return { questionId: question.id, answer: "", correct: false };
+    }
+
+    const result: QuizAnswer = {
+      questionId: question.id,
+      answer: formatResponse(questionResponse),
+      correct: gradeResponse(question, questionResponse),
+    };
+    if (!needsAIGrading(question, questionResponse) || !aiStatus.ready) return result;
+
+    try {
+      const grade = await gradeFreeTextAnswer(question, result.answer);
+      return {
+        ...result,
+        correct: grade.credit >= PASSING_CREDIT,
+        credit: grade.credit,
+        feedback: grade.feedback,
+        missingPoints: grade.missingPoints,
+      };
+    } catch (error) {
+      console.error("Error grading answer:", error);
+      toast({
+        title: "Couldn't grade your answer",
+        description: "It was compared with the model answer instead.",
+        variant: "destructive",
+      });
+      return result;
+    }
+  };
+
+  const submitAnswer = async () => {
+    if (!quiz || showResult || isGrading) return;
 
-    const currentQuestion = quiz.questions[currentQuestionIndex];
-    const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
+    if (!currentQuestion || !isResponseComplete(currentQuestion, response)) return;
 
-    setAnswers([
-      ...answers,
-      {
-        questionId: currentQuestion.id,
-        answer: selectedAnswer,
-        correct: isCorrect,
-      },
-    ]);
+    const elapsed = Date.now() - questionShownAtRef.current;
+    setQuestionTimes((prev) => ({ ...prev, [currentQuestion.id]: elapsed }));
 
-    setShowResult(true);
+    setIsGrading(true);
+    try {
+      const result = await gradeAnswer(currentQuestion, response);
+      setAnswers((prev) => [...prev, result]);
+      setShowResult(true);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  /**
+   * Grade a submitted exam and finish the attempt
+   * Written answers are graded one at a time to stay within AI rate limits.
+   */
+  const submitExam = async (submission: ExamSubmission) => {
+    if (!quiz) return;
+
+    setIsGrading(true);
+    try {
+      const graded: QuizAnswer[] = [];
+      for (const question of quiz.questions) {
+        graded.push(await gradeAnswer(question, submission.responses[question.id] ?? null));
+      }
+      completeQuiz(graded, {
+        mode: "exam",
+        questionSeconds: toSeconds(submission.times),
+        timedOut: submission.timedOut || undefined,
+      });
+      if (submission.timedOut) {
+        toast({ title: "Time's up!", description: "Your exam was submitted automatically." });
+      }
+    } finally {
+      setIsGrading(false);
+    }
   };
 
   const nextQuestion = () => {
     if (!quiz) return;
 
-    if (currentQuestionIndex < quiz.questions.length - 1) {
+    // Adaptive quizzes pick the next question from the answers so far
+    const next =
+      mode === "adaptive" && currentQuestionIndex < questionCount - 1
+        ? pickNextQuestion(quiz.questions, servedIds, estimateAbility(answerHistory(quiz.questions, answers)))
+        : null;
+    if (next) setServedIds([...servedIds, next.id]);
+
+    if (currentQuestionIndex < questionCount - 1 && (mode !== "adaptive" || next)) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
-      setSelectedAnswer(null);
+      setResponse(null);
       setShowResult(false);
+      questionShownAtRef.current = Date.now();
     } else {
-      completeQuiz();
+      // The last answer is already recorded by submitAnswer
+      completeQuiz(answers, {
+        mode,
+        questionSeconds: toSeconds(questionTimes),
+        mastery: mode === "adaptive" ? topicMastery(quiz.questions, answers) : undefined,
+      });
     }
   };
 
-  const completeQuiz = () => {
+  /**
+   * Record the finished attempt, award XP and show the results
+   *
+   * @param finalAnswers - Every graded answer, in question order
+   * @param details - How the quiz was taken (mode, time per question, timeout, topic mastery)
+   */
+  const completeQuiz = (
+    finalAnswers: QuizAnswer[],
+    details: Pick<QuizAttempt, "mode" | "questionSeconds" | "timedOut" | "mastery">
+  ) => {
     if (!quiz) return;
 
-    const correctCount =
-      answers.filter((a) => a.correct).length +
-      (selectedAnswer === quiz.questions[currentQuestionIndex].correctAnswer
-        ? 1
-        : 0);
-    const totalQuestions = quiz.questions.length;
-    const score = Math.round((correctCount / totalQuestions) * 100);
-    const isPerfect = score === 100;
+    // Partial credit counts towards the score
+    const credit = totalCredit(finalAnswers);
+    const totalQuestions = finalAnswers.length;
+    const score = Math.round((credit / totalQuestions) * 100);
 
+    setAnswers(finalAnswers);
     setQuizCompleted(true);
-    incrementStat("quizzesCompleted");
-    updateMissionProgress("quiz");
 
-    let totalXP = 0;
-    const { xpGained } = addXP("complete_quiz");
-    totalXP += xpGained;
+    // XP, stats and the quiz mission come from the gamification rules
+    const reward = recordActivity({ type: "quiz_completed", answers: finalAnswers, totalQuestions });
+    const isPerfect = reward.celebrate;
 
     if (isPerfect) {
-      const { xpGained: bonusXP } = addXP("perfect_quiz");
-      totalXP += bonusXP;
       unlockBadge("perfect_score");
       setShowConfetti(true);
     }
 
+    const attempt: QuizAttempt = {
+      id: `attempt-${Date.now()}`,
+      score: credit,
+      totalQuestions,
+      answers: finalAnswers,
+      xpEarned: reward.xpGained,
+      startedAt: startedAt ?? undefined,
+      completedAt: new Date().toISOString(),
+      ...details,
+    };
+    recordAttempt(quiz.id, attempt);
+    setQuiz({ ...quiz, attempts: [...quiz.attempts, attempt] });
+
+    // Shared quizzes rank attempts on their leaderboard (ignored when it is off)
+    // Only runs through every question count, so adaptive runs are left out
+    if (quiz.shareCode && details.mode !== "adaptive" && totalQuestions === quiz.questions.length) {
+      submitSharedAttempt(quiz.shareCode, credit, totalQuestions).catch((error) =>
+        console.error("Error posting to the shared quiz leaderboard:", error)
+      );
+    }
+
+    // Missed questions go to the Mistakes deck for spaced repetition
+    let mistakes: Flashcard[] = [];
+    let mistakesError: StorageQuotaError | null = null;
+    try {
+      mistakes = addMistakeCards(missedQuestions(quiz, attempt).map(mistakeFlashcard));
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      mistakesError = error;
+    }
+
     toast({
       title: isPerfect ? "Perfect Score! 🎉" : "Quiz Completed!",
-      description: `You scored ${score}% and earned ${totalXP} XP!`,
+      description:
+        `You scored ${score}% and earned ${reward.xpGained} XP!` +
+        (mistakes.length > 0
+          ? ` ${mistakes.length} missed ${mistakes.length === 1 ? "question is" : "questions are"} queued for review in your Mistakes deck.`
+          : ""),
     });
+
+    if (mistakesError) {
+      toast({
+        title: "Mistakes deck not updated",
+        description: `Your missed questions could not be added for review. ${mistakesError.message}`,
+        variant: "destructive",
+      });
+    }
   };
 
   const restartQuiz = () => {
-    setCurrentQuestionIndex(0);
-    setSelectedAnswer(null);
-    setShowResult(false);
-    setAnswers([]);
-    setQuizCompleted(false);
+    if (quiz) openQuiz(quiz, false);
+  };
+
+  /**
+   * Start a new quiz made of the questions missed in the last attempt
+   * It is saved to the library like any other quiz.
+   */
+  const retryMissed = () => {
+    const attempt = quiz?.attempts[quiz.attempts.length - 1];
+    const retry = quiz && attempt ? missedQuestionsQuiz(quiz, attempt) : null;
+    if (!retry) return;
+
+    saveQuiz(retry);
+    openQuiz(retry, true);
+    navigate(`/quiz/${retry.id}`);
   };
 
   const difficultyColors = {
@@ -257,10 +518,9 @@ export default function QuizGenerator() {
     hard: "bg-destructive/20 text-destructive",
   };
 
-  const currentQuestion = quiz?.questions[currentQuestionIndex];
+  const lastAttempt = quiz?.attempts[quiz.attempts.length - 1];
   const progress = quiz
-    ? ((currentQuestionIndex + (showResult ? 1 : 0)) / quiz.questions.length) *
-      100
+    ? ((currentQuestionIndex + (showResult ? 1 : 0)) / questionCount) * 100
     : 0;
 
   return (
@@ -283,13 +543,12 @@ export default function QuizGenerator() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors cursor-pointer">
-              <Upload className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
-              <p className="font-medium mb-1">Upload PDF or Image</p>
-              <p className="text-sm text-muted-foreground">
-                Drag and drop or click to browse
-              </p>
-            </div>
+            <AIStatusNotice />
+
+            <DocumentDropZone
+              onExtracted={(extracted) => setSourceText(extracted.text)}
+              disabled={isGenerating}
+            />
 
             <div className="flex items-center gap-4">
               <div className="flex-1 h-px bg-border" />
@@ -310,9 +569,19 @@ export default function QuizGenerator() {
               />
             </div>
 
+            <QuizOptionsFields value={quizOptions} onChange={setQuizOptions} disabled={isGenerating} />
+
+            <QuizModeFields
+              mode={mode}
+              onModeChange={setMode}
+              exam={examSettings}
+              onExamChange={setExamSettings}
+              disabled={isGenerating}
+            />
+
             <Button
               onClick={generateQuiz}
-              disabled={!sourceText.trim() || isGenerating}
+              disabled={!aiStatus.ready || !sourceText.trim() || isGenerating}
               className="w-full gradient-primary text-primary-foreground"
             >
               {isGenerating ? (
@@ -330,50 +599,117 @@ export default function QuizGenerator() {
           </CardContent>
         </Card>
       ) : quizCompleted ? (
-        <Card className="max-w-2xl mx-auto">
-          <CardContent className="py-12 text-center">
-            <div className="w-20 h-20 rounded-full gradient-primary mx-auto mb-6 flex items-center justify-center">
-              <Trophy className="w-10 h-10 text-primary-foreground" />
-            </div>
-            <h2 className="text-2xl font-bold mb-2">Quiz Complete!</h2>
-            <p className="text-muted-foreground mb-6">
-              You answered {answers.filter((a) => a.correct).length} out of{" "}
-              {quiz.questions.length} questions correctly
-            </p>
-
-            <div className="flex justify-center gap-4 mb-8">
-              <div className="text-center">
-                <p className="text-4xl font-bold text-gradient">
-                  {Math.round(
-                    (answers.filter((a) => a.correct).length /
-                      quiz.questions.length) *
-                      100
-                  )}
-                  %
-                </p>
-                <p className="text-sm text-muted-foreground">Score</p>
+        <div className="max-w-2xl mx-auto space-y-4">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <div className="w-20 h-20 rounded-full gradient-primary mx-auto mb-6 flex items-center justify-center">
+                <Trophy className="w-10 h-10 text-primary-foreground" />
               </div>
-            </div>
+              <h2 className="text-2xl font-bold mb-2">Quiz Complete!</h2>
+              <p className="text-muted-foreground mb-6">
+                You earned {Number(totalCredit(answers).toFixed(1))} out of{" "}
+                {answers.length} marks
+              </p>
 
-            <div className="flex gap-3 justify-center">
-              <Button onClick={restartQuiz} variant="outline">
-                <RotateCcw className="w-4 h-4 mr-2" />
-                Retry Quiz
-              </Button>
-              <Button
-                onClick={() => setQuiz(null)}
-                className="gradient-primary text-primary-foreground"
-              >
-                New Quiz
-              </Button>
-            </div>
+              <div className="flex justify-center gap-4 mb-8">
+                <div className="text-center">
+                  <p className="text-4xl font-bold text-gradient">
+                    {Math.round((totalCredit(answers) / Math.max(1, answers.length)) * 100)}
+                    %
+                  </p>
+                  <p className="text-sm text-muted-foreground">Score</p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3 justify-center">
+                <Button onClick={restartQuiz} variant="outline">
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Retry Quiz
+                </Button>
+                {lastAttempt && lastAttempt.answers.some((a) => !a.correct) && (
+                  <Button onClick={retryMissed} variant="outline">
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Retry Missed Questions
+                  </Button>
+                )}
+                <Button
+                  onClick={() => {
+                    setQuiz(null);
+                    navigate("/quiz");
+                  }}
+                  className="gradient-primary text-primary-foreground"
+                >
+                  New Quiz
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {lastAttempt?.mastery && lastAttempt.mastery.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Topic Mastery</CardTitle>
+                <CardDescription>Estimated from your answers, weakest topic first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TopicMasteryList mastery={lastAttempt.mastery} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Exams give no feedback along the way, so review every answer here */}
+          {lastAttempt?.mode === "exam" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AttemptAnswers quiz={quiz} attempt={lastAttempt} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      ) : !startedAt ? (
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileQuestion className="w-5 h-5 text-primary" />
+              {quiz.title}
+            </CardTitle>
+            <CardDescription>
+              {quiz.questions.length} questions · {quiz.attempts.length}{" "}
+              {quiz.attempts.length === 1 ? "previous attempt" : "previous attempts"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <QuizModeFields
+              mode={mode}
+              onModeChange={setMode}
+              exam={examSettings}
+              onExamChange={setExamSettings}
+            />
+            <Button onClick={() => openQuiz(quiz, true)} className="w-full gradient-primary text-primary-foreground">
+              <Play className="w-4 h-4 mr-2" />
+              {mode === "exam" ? "Start Exam" : "Start Quiz"}
+            </Button>
           </CardContent>
         </Card>
+      ) : mode === "exam" ? (
+        isGrading ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="py-12 text-center">
+              <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin text-primary" />
+              <p className="text-muted-foreground">Grading your exam...</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ExamRunner key={startedAt} quiz={quiz} settings={examSettings} onSubmit={submitExam} />
+        )
       ) : currentQuestion ? (
         <div className="max-w-2xl mx-auto space-y-4">
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">
-              Question {currentQuestionIndex + 1} of {quiz.questions.length}
+              Question {currentQuestionIndex + 1} of {questionCount}
             </span>
             <Badge className={difficultyColors[currentQuestion.difficulty]}>
               {currentQuestion.difficulty}
@@ -384,52 +720,28 @@ export default function QuizGenerator() {
 
           <Card>
             <CardContent className="pt-6">
-              <h2 className="text-xl font-medium mb-6">
-                {currentQuestion.question}
-              </h2>
-
-              <div className="space-y-3">
-                {currentQuestion.options?.map((option) => {
-                  const isSelected = selectedAnswer === option;
-                  const isCorrect = option === currentQuestion.correctAnswer;
-                  const showCorrect = showResult && isCorrect;
-                  const showIncorrect = showResult && isSelected && !isCorrect;
-
-                  return (
-                    <button
-                      key={option}
-                      onClick={() => !showResult && setSelectedAnswer(option)}
-                      disabled={showResult}
-                      className={`w-full p-4 rounded-xl border-2 text-left transition-all ${
-                        showCorrect
-                          ? "border-success bg-success/10"
-                          : showIncorrect
-                          ? "border-destructive bg-destructive/10"
-                          : isSelected
-                          ? "border-primary bg-primary/10"
-                          : "border-border hover:border-primary/50"
-                      }`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <span>{option}</span>
-                        {showCorrect && (
-                          <CheckCircle2 className="w-5 h-5 text-success" />
-                        )}
-                        {showIncorrect && (
-                          <XCircle className="w-5 h-5 text-destructive" />
-                        )}
-                      </div>
-                    </button>
-                  );
-                })}
-              </div>
+              <RichContent
+                content={currentQuestion.question}
+                className="prose-lg font-medium mb-6"
+              />
+
+              <QuestionInput
+                question={currentQuestion}
+                response={response}
+                onChange={setResponse}
+                showResult={showResult}
+                result={showResult ? answers[answers.length - 1] : undefined}
+                disabled={isGrading}
+                onSubmit={submitAnswer}
+              />
 
               {showResult && (
                 <div className="mt-6 p-4 rounded-xl bg-muted/50 border border-border">
                   <h4 className="font-medium mb-1">Explanation</h4>
-                  <p className="text-sm text-muted-foreground">
-                    {currentQuestion.explanation}
-                  </p>
+                  <RichContent
+                    content={currentQuestion.explanation}
+                    className="text-muted-foreground"
+                  />
                 </div>
               )}
 
@@ -437,17 +749,24 @@ export default function QuizGenerator() {
                 {!showResult ? (
                   <Button
                     onClick={submitAnswer}
-                    disabled={!selectedAnswer}
+                    disabled={isGrading || !isResponseComplete(currentQuestion, response)}
                     className="gradient-primary text-primary-foreground"
                   >
-                    Submit Answer
+                    {isGrading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Grading...
+                      </>
+                    ) : (
+                      "Submit Answer"
+                    )}
                   </Button>
                 ) : (
                   <Button
                     onClick={nextQuestion}
                     className="gradient-primary text-primary-foreground"
                   >
-                    {currentQuestionIndex < quiz.questions.length - 1 ? (
+                    {currentQuestionIndex < questionCount - 1 ? (
                       <>
                         Next Question
                         <ChevronRight className="w-4 h-4 ml-2" />
@@ -0,0 +1,256 @@
+/**
+ * Quiz Library Page Component
+ *
+ * Allows users to:
+ * - Browse saved quizzes with their source and creation date
+ * - Search quizzes by title or source
+ * - Review each attempt's score, time taken and answers
+ * - Follow the score trend of a quiz across attempts
+ * - Retake or delete a quiz, or retry only the questions last missed
+ * - Share a quiz by code or link, optionally with a leaderboard
+ */
+
+// React hooks
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+
+// UI components from shadcn
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// State management
+import { attemptPercent, sortQuizzes, useQuizStore } from "@/lib/quizStore";
+import { missedQuestionsQuiz } from "@/lib/quizMistakes";
+import { quizShareContent } from "@/lib/sharing";
+import { cn } from "@/lib/utils";
+
+// Attempt history and sharing
+import { QuizAttemptHistory } from "@/components/quiz/QuizAttemptHistory";
+import { ShareDialog } from "@/components/sharing/ShareDialog";
+
+// Icons from lucide-react
+import { FileQuestion, Library, Play, Repeat, Search, Share2, Sparkles, Trash2 } from "lucide-react";
+
+// Type definitions
+import { Quiz } from "@/types";
+
+/**
+ * Delay before local quiz changes are pushed to Supabase
+ */
+const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * QuizLibrary Component
+ *
+ * Lists saved quizzes next to the attempt history of the selected one.
+ */
+export default function QuizLibrary() {
+  const navigate = useNavigate();
+  const { quizzes, saveQuiz, deleteQuiz, hasPendingChanges, sync } = useQuizStore();
+
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Quiz | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  // Pull remote quizzes on mount and whenever the browser comes back online
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!hasPendingChanges()) return;
+    const timeout = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [quizzes, hasPendingChanges, sync]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return sortQuizzes(quizzes).filter(
+      (q) => !needle || q.title.toLowerCase().includes(needle) || q.source.toLowerCase().includes(needle)
+    );
+  }, [quizzes, query]);
+
+  // Show the most recent quiz until one is picked
+  const selected = quizzes.find((q) => q.id === selectedId) ?? visible[0] ?? null;
+
+  // Questions missed in the selected quiz's latest attempt, as a new quiz
+  const latestAttempt = selected?.attempts[selected.attempts.length - 1];
+  const hasMissed = !!latestAttempt?.answers.some((a) => !a.correct);
+
+  const retryMissed = () => {
+    const retry = selected && latestAttempt ? missedQuestionsQuiz(selected, latestAttempt) : null;
+    if (!retry) return;
+    saveQuiz(retry);
+    navigate(`/quiz/${retry.id}`);
+  };
+
+  const confirmDelete = () => {
+    if (!deleting) return;
+    deleteQuiz(deleting.id);
+    if (selectedId === deleting.id) setSelectedId(null);
+    setDeleting(null);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Quiz Library</h1>
+          <p className="text-muted-foreground mt-1">Retake saved quizzes and track how your scores improve</p>
+        </div>
+        <Button asChild className="gradient-primary text-primary-foreground">
+          <Link to="/quiz">
+            <Sparkles className="w-4 h-4 mr-2" />
+            New Quiz
+          </Link>
+        </Button>
+      </div>
+
+      {quizzes.length === 0 ? (
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="py-12 text-center">
+            <Library className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-xl font-semibold mb-2">No saved quizzes yet</h2>
+            <p className="text-muted-foreground">Quizzes you generate are saved here automatically.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[340px_1fr]">
+          {/* Quiz list */}
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search quizzes..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            {visible.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No quizzes match your search.</p>
+            )}
+
+            {visible.map((quiz) => {
+              const lastAttempt = quiz.attempts[quiz.attempts.length - 1];
+              return (
+                <button
+                  key={quiz.id}
+                  type="button"
+                  onClick={() => setSelectedId(quiz.id)}
+                  className={cn(
+                    "w-full rounded-xl border p-4 text-left transition-colors",
+                    quiz.id === selected?.id ? "border-primary bg-primary/5" : "border-border hover:bg-muted"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium truncate">{quiz.title}</p>
+                    {lastAttempt && <Badge variant="secondary">{attemptPercent(lastAttempt)}%</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {new Date(quiz.createdAt).toLocaleDateString()} · {quiz.questions.length} questions ·{" "}
+                    {quiz.attempts.length} {quiz.attempts.length === 1 ? "attempt" : "attempts"}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Selected quiz */}
+          {selected && (
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="flex items-center gap-2">
+                      <FileQuestion className="w-5 h-5 text-primary flex-shrink-0" />
+                      {selected.title}
+                    </CardTitle>
+                    <CardDescription className="mt-1">
+                      Created {new Date(selected.createdAt).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => navigate(`/quiz/${selected.id}`)}>
+                      <Play className="w-4 h-4 mr-2" />
+                      {selected.attempts.length > 0 ? "Retake" : "Take quiz"}
+                    </Button>
+                    {hasMissed && (
+                      <Button variant="outline" onClick={retryMissed}>
+                        <Repeat className="w-4 h-4 mr-2" />
+                        Retry missed
+                      </Button>
+                    )}
+                    <Button variant="outline" size="icon" onClick={() => setSharing(true)} aria-label="Share quiz">
+                      <Share2 className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => setDeleting(selected)} aria-label="Delete quiz">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {selected.source && (
+                  <p className="text-sm text-muted-foreground rounded-lg bg-muted/50 p-3 mt-2">{selected.source}</p>
+                )}
+              </CardHeader>
+              <CardContent>
+                <QuizAttemptHistory quiz={selected} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <ShareDialog
+          open={sharing}
+          onOpenChange={setSharing}
+          kind="quiz"
+          sourceId={selected.id}
+          title={selected.title}
+          getContent={() => quizShareContent(selected)}
+          // Attempts at the quiz go to its leaderboard while it is shared
+          onShareChange={(code) => saveQuiz({ ...selected, shareCode: code ?? undefined })}
+        />
+      )}
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The quiz and its attempt history are removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+/**
+ * Shared Page Component
+ *
+ * Allows users to:
+ * - Open a shared quiz or deck by code or link
+ * - Browse quizzes and decks others have made public
+ * - Preview a shared item read-only (quiz answers stay hidden)
+ * - Clone it into their own library
+ * - See a shared quiz's leaderboard
+ */
+
+// React hooks
+import { FormEvent, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+
+// UI components from shadcn
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+
+// State management and sharing helpers
+import { useQuizStore } from "@/lib/quizStore";
+import { useFlashcardStore } from "@/lib/flashcardStore";
+import { useGameStore } from "@/lib/gameStore";
+import {
+  cloneSharedQuiz,
+  fetchPublicShares,
+  fetchSharedItem,
+  fetchSharedLeaderboard,
+  parseShareCode,
+} from "@/lib/sharing";
+import { QUESTION_TYPE_LABELS } from "@/lib/quizGrading";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+// Markdown/math rendering
+import { RichContent } from "@/components/RichContent";
+
+// Icons from lucide-react
+import { ArrowLeft, Copy, Crown, FileQuestion, Layers, Loader2, Medal, Share2, Trophy } from "lucide-react";
+
+// Type definitions
+import { SharedItem, SharedItemSummary, SharedLeaderboardEntry } from "@/types";
+
+/**
+ * errorMessage - Readable message from a failed request
+ */
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Something went wrong. Please try again.";
+
+/**
+ * SharedLeaderboard - Best result of each player on a shared quiz
+ */
+function SharedLeaderboard({ code }: { code: string }) {
+  const { user } = useGameStore();
+  const [entries, setEntries] = useState<SharedLeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSharedLeaderboard(code)
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Trophy className="w-5 h-5 text-warning" />
+          Leaderboard
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !entries ? (
+          <div className="py-4 flex justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No attempts yet. Clone the quiz and be the first!</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div
+              key={entry.userId}
+              className={cn(
+                "flex items-center gap-3 rounded-lg p-2",
+                entry.userId === user.id ? "bg-primary/10" : "bg-muted/50"
+              )}
+            >
+              <div className="w-6 flex justify-center">
+                {index === 0 ? (
+                  <Crown className="w-4 h-4 text-warning" />
+                ) : index < 3 ? (
+                  <Medal className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <span className="text-sm text-muted-foreground">{index + 1}</span>
+                )}
+              </div>
+              <span className="flex-1 text-sm font-medium truncate">
+                {entry.name || "Anonymous"}
+                {entry.userId === user.id && " (you)"}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {entry.attempts} attempt{entry.attempts === 1 ? "" : "s"}
+              </span>
+              <span className="text-sm font-semibold w-12 text-right">{entry.bestPercent}%</span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * SharedItemView - Read-only preview of one shared quiz or deck
+ */
+function SharedItemView({ code }: { code: string }) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { quizzes, saveQuiz } = useQuizStore();
+  const { createDeck, addCards } = useFlashcardStore();
+  const [item, setItem] = useState<SharedItem | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchSharedItem(code)
+      .then((result) => {
+        if (!cancelled) setItem(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // A copy cloned earlier keeps the code, so its attempts reach the leaderboard
+  const ownCopy = quizzes.find((q) => q.shareCode === code);
+
+  const handleClone = () => {
+    if (!item) return;
+    if (item.kind === "quiz") {
+      const quiz = cloneSharedQuiz(item);
+      saveQuiz(quiz);
+      toast({ title: "Quiz cloned! 📚", description: `"${quiz.title}" is now in your Quiz Library.` });
+      navigate(`/quiz/${quiz.id}`);
+    } else {
+      const deck = createDeck(item.title, {
+        description: item.content.description,
+        algorithm: item.content.algorithm,
+      });
+      addCards(deck.id, item.content.cards);
+      toast({ title: "Deck cloned! 🃏", description: `${item.content.cards.length} cards added to "${deck.name}".` });
+      navigate("/flashcards");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="py-16 flex justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !item) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardContent className="py-12 text-center">
+          <Share2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-xl font-semibold mb-2">{error ? "Could not open this share" : "Share not found"}</h2>
+          <p className="text-muted-foreground">
+            {error ?? `No quiz or deck is shared under ${code}. It may have been unpublished.`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const count = item.kind === "quiz" ? item.content.questions.length : item.content.cards.length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-2 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{item.kind === "quiz" ? "Quiz" : "Deck"}</Badge>
+              <Badge variant="outline" className="font-mono tracking-widest">{item.code}</Badge>
+            </div>
+            <h2 className="text-2xl font-display font-bold break-words">{item.title}</h2>
+            <p className="text-sm text-muted-foreground">
+              Shared by {item.ownerName || "another learner"} · {count} {item.kind === "quiz" ? "question" : "card"}
+              {count === 1 ? "" : "s"} · Updated {new Date(item.updatedAt).toLocaleDateString()}
+            </p>
+            {item.kind === "deck" && item.content.description && (
+              <p className="text-sm">{item.content.description}</p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {ownCopy && (
+              <Button variant="outline" onClick={() => navigate(`/quiz/${ownCopy.id}`)}>
+                Open my copy
+              </Button>
+            )}
+            <Button onClick={handleClone} className="gradient-primary text-primary-foreground">
+              <Copy className="w-4 h-4 mr-2" />
+              Clone into my library
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className={cn("grid gap-6", item.kind === "quiz" && item.leaderboardEnabled && "lg:grid-cols-[1fr_320px]")}>
+        <div className="space-y-3">
+          {item.kind === "quiz"
+            ? item.content.questions.map((question, index) => (
+                <Card key={question.id}>
+                  <CardContent className="pt-6 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-semibold text-muted-foreground">Q{index + 1}</span>
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                      <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                      {question.topic && <Badge variant="secondary">{question.topic}</Badge>}
+                    </div>
+                    <RichContent content={question.question} />
+                  </CardContent>
+                </Card>
+              ))
+            : item.content.cards.map((card, index) => (
+                <Card key={index}>
+                  <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <p className="text-xs font-semibold text-muted-foreground mb-1">Front</p>
+                      <RichContent content={card.front} />
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold text-muted-foreground mb-1">Back</p>
+                      <RichContent content={card.back} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+        </div>
+
+        {item.kind === "quiz" && item.leaderboardEnabled && (
+          <div>
+            <SharedLeaderboard code={item.code} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * PublicShares - Recently published public quizzes and decks
+ */
+function PublicShares() {
+  const [shares, setShares] = useState<SharedItemSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPublicShares()
+      .then((result) => {
+        if (!cancelled) setShares(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>;
+
+  if (!shares) {
+    return (
+      <div className="py-8 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (shares.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing has been shared publicly yet.</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {shares.map((share) => (
+        <Link
+          key={share.code}
+          to={`/shared/${share.code}`}
+          className="flex items-center gap-3 rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+        >
+          {share.kind === "quiz" ? (
+            <FileQuestion className="w-5 h-5 text-primary flex-shrink-0" />
+          ) : (
+            <Layers className="w-5 h-5 text-primary flex-shrink-0" />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="font-medium truncate">{share.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {share.kind === "quiz" ? "Quiz" : "Deck"} · {new Date(share.updatedAt).toLocaleDateString()}
+            </p>
+          </div>
+          {share.leaderboardEnabled && <Trophy className="w-4 h-4 text-warning flex-shrink-0" />}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shared Component
+ *
+ * Without a code in the URL it shows the code entry and public listing.
+ */
+export default function Shared() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const shareCode = code ? parseShareCode(code) : null;
+
+  const handleOpen = (e: FormEvent) => {
+    e.preventDefault();
+    const parsed = parseShareCode(input);
+    if (!parsed) {
+      setInputError("Enter an 8-character share code or paste a share link.");
+      return;
+    }
+    setInputError(null);
+    setInput("");
+    navigate(`/shared/${parsed}`);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Shared</h1>
+          <p className="text-muted-foreground mt-1">Open quizzes and decks others have shared, and make them your own</p>
+        </div>
+        {code && (
+          <Button variant="outline" onClick={() => navigate("/shared")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All shared
+          </Button>
+        )}
+      </div>
+
+      {code ? (
+        shareCode ? (
+          <SharedItemView code={shareCode} />
+        ) : (
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="py-12 text-center">
+              <Share2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <h2 className="text-xl font-semibold mb-2">Invalid share code</h2>
+              <p className="text-muted-foreground">Share codes are 8 letters and digits, like ABCD2345.</p>
+            </CardContent>
+          </Card>
+        )
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Open by code or link</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleOpen} className="flex gap-2">
+                <Input
+                  placeholder="ABCD2345 or a share link"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                />
+                <Button type="submit" disabled={!input.trim()}>
+                  Open
+                </Button>
+              </form>
+              {inputError && <p className="text-sm text-destructive mt-2">{inputError}</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Public quizzes and decks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PublicShares />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -20,9 +20,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { AIStatusNotice } from "@/components/AIStatusNotice";
 
 // Hooks and state
 import { useToast } from "@/hooks/use-toast";
+import { useAIStatus } from "@/hooks/use-ai-status";
 import { useGameStore } from "@/lib/gameStore";
 
 // Icons from lucide-react
@@ -73,6 +75,7 @@ export default function StudyPlanner() {
   const [examDate, setExamDate] = useState("");
   const [dailyHours, setDailyHours] = useState("2");
   const [isGenerating, setIsGenerating] = useState(false);
+  const aiStatus = useAIStatus();
   const [generatedPlan, setGeneratedPlan] = useState<StudyPlan | null>(null);
 
   /**
@@ -171,7 +174,7 @@ export default function StudyPlanner() {
       console.error("Error generating study plan:", error);
       toast({
         title: "Error generating plan",
-        description: "Failed to generate study plan. Please check your input and try again.",
+        description: error instanceof Error ? error.message : "Failed to generate study plan. Please check your input and try again.",
         variant: "destructive",
       });
     } finally {
@@ -203,6 +206,8 @@ export default function StudyPlanner() {
         </p>
       </div>
 
+      <AIStatusNotice />
+
       <div className="grid grid-cols-2 gap-6">
         {/* Input Form */}
         <Card>
@@ -297,7 +302,7 @@ export default function StudyPlanner() {
 
             <Button
               onClick={generatePlan}
-              disabled={isGenerating}
+              disabled={!aiStatus.ready || isGenerating}
               className="w-full gradient-primary text-primary-foreground"
             >
               {isGenerating ? (
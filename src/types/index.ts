@@ -56,6 +56,20 @@ export interface Mission {
   completed: boolean;      // Whether mission is finished
 }
 
+/**
+ * PlayerStats Interface
+ * Activity counters shown on the dashboard and used for badge unlocks
+ */
+export interface PlayerStats {
+  quizzesCompleted: number;
+  flashcardsReviewed: number;
+  doubtsAsked: number;
+  stepsSubmitted: number;
+  correctSteps: number;
+  studyPlansCreated: number;
+  imagesUploaded: number;
+}
+
 /**
  * LeaderboardEntry Interface
  * Represents a player's position on the leaderboard
@@ -136,20 +150,107 @@ export interface Quiz {
   questions: Question[];   // Array of questions in quiz
   createdAt: string;       // When quiz was created
   attempts: QuizAttempt[]; // History of attempts
+  updatedAt?: string;      // Last local modification, used for sync (ISO 8601)
+  shareCode?: string;      // Share code it was published under or cloned from (attempts go to its leaderboard)
 }
 
+/**
+ * QuestionType
+ * - mcq: pick one option
+ * - multi_select: pick every correct option
+ * - true_false: True or False
+ * - short: short written answer
+ * - fill_blank: complete the blank (____) in the question
+ * - numeric: number, accepted within a tolerance
+ * - free_response: a few sentences, graded against key points
+ */
+export type QuestionType =
+  | 'mcq'
+  | 'multi_select'
+  | 'true_false'
+  | 'short'
+  | 'fill_blank'
+  | 'numeric'
+  | 'free_response';
+
+/**
+ * Difficulty
+ * Difficulty rating shared by questions
+ */
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
 /**
  * Question Interface
  * Represents a single quiz question
  */
 export interface Question {
   id: string;              // Unique question identifier
-  type: 'mcq' | 'short';   // Multiple choice or short answer
+  type: QuestionType;      // How the question is answered and graded
   question: string;        // Question text
-  options?: string[];      // Possible answers (for MCQ)
-  correctAnswer: string;   // The correct answer
+  options?: string[];      // Possible answers (mcq, multi_select, true_false)
+  correctAnswer: string;   // The correct answer (multi_select: all correct options, comma-separated)
+  correctAnswers?: string[]; // Every correct option (multi_select)
+  acceptedAnswers?: string[]; // Other accepted wordings (short, fill_blank)
+  keyPoints?: string[];    // Points a full answer covers, the grading rubric (short, free_response)
+  tolerance?: number;      // Largest accepted difference from the answer (numeric)
+  unit?: string;           // Unit the answer is given in, e.g. "m/s" (numeric)
   explanation: string;     // Explanation of why answer is correct
-  difficulty: 'easy' | 'medium' | 'hard'; // Difficulty rating
+  difficulty: Difficulty;  // Difficulty rating
+  topic?: string;          // Short topic name the question tests, for mastery estimates
+}
+
+/**
+ * BankQuestion Interface
+ * A question kept in the question bank, tagged for building custom quizzes
+ */
+export interface BankQuestion extends Question {
+  subject?: string;        // Broad subject, e.g. "Biology"
+  tags: string[];          // Free-form labels for filtering
+  origin: 'generated' | 'manual'; // Generated by the AI or written by the user
+  source?: string;         // Preview of the material it was generated from
+  createdAt: string;       // When it was added to the bank (ISO 8601)
+  updatedAt?: string;      // Last local modification, used for sync (ISO 8601)
+}
+
+/**
+ * QuizMode
+ * - practice: feedback after every answer, no time limit
+ * - exam: free navigation, feedback only after submitting, optional time limit
+ * - adaptive: each question's difficulty follows the student's performance
+ */
+export type QuizMode = 'practice' | 'exam' | 'adaptive';
+
+/**
+ * TopicMastery Interface
+ * Estimated mastery of one topic at the end of an adaptive attempt
+ */
+export interface TopicMastery {
+  topic: string;
+  mastery: number;         // Estimated chance of answering a medium question correctly (0-1)
+  answered: number;        // Questions on this topic in the attempt
+}
+
+/**
+ * ExamSettings Interface
+ * Time limit for exam mode; the unused limit is kept for when the student switches back
+ */
+export interface ExamSettings {
+  timeLimit: 'none' | 'overall' | 'per_question';
+  overallMinutes: number;      // Limit for the whole exam
+  perQuestionSeconds: number;  // Limit for each question
+}
+
+/**
+ * QuizAnswer Interface
+ * A graded answer to one question
+ */
+export interface QuizAnswer {
+  questionId: string;      // Question answered
+  answer: string;          // Response as text
+  correct: boolean;        // Counted as correct (AI-graded: enough credit)
+  credit?: number;         // Partial credit 0-1 from AI grading; otherwise correct counts as 1
+  feedback?: string;       // Rubric-based explanation of the grade (AI-graded)
+  missingPoints?: string[]; // Key points the answer left out (AI-graded)
 }
 
 /**
@@ -158,11 +259,16 @@ export interface Question {
  */
 export interface QuizAttempt {
   id: string;              // Unique attempt identifier
-  score: number;           // Number of questions answered correctly
+  score: number;           // Credit earned (correct answers, plus partial credit)
   totalQuestions: number;  // Total questions in quiz
-  answers: { questionId: string; answer: string; correct: boolean }[]; // User's answers
+  answers: QuizAnswer[];   // User's graded answers
   xpEarned: number;        // XP awarded for this attempt
+  startedAt?: string;      // When the first question was shown (ISO 8601)
   completedAt: string;     // When attempt was completed (ISO 8601)
+  mode?: QuizMode;         // How the quiz was taken (practice when missing)
+  questionSeconds?: Record<string, number>; // Time spent on each question, by question id
+  timedOut?: boolean;      // Exam was submitted automatically when time ran out
+  mastery?: TopicMastery[]; // Mastery per topic (adaptive attempts)
 }
 
 // ============================================================================
@@ -186,8 +292,22 @@ export interface Flashcard {
   repetitions: number;     // Number of times reviewed
   nextReviewDate: string;  // When next review is due (ISO 8601)
   lastReviewDate?: string; // When last reviewed (ISO 8601)
+  lapses?: number;         // Times the card was forgotten after learning
+
+  // FSRS memory state (only set when reviewed with FSRS)
+  stability?: number;      // Days until recall probability falls to 90%
+  fsrsDifficulty?: number; // Intrinsic difficulty (1 - 10)
+
+  createdAt?: string;      // When card was created (ISO 8601)
+  updatedAt?: string;      // Last local modification, used for sync (ISO 8601)
 }
 
+/**
+ * SchedulerAlgorithm
+ * Spaced repetition algorithm a deck uses to schedule reviews
+ */
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
 /**
  * FlashcardDeck Interface
  * Represents a collection of flashcards
@@ -197,7 +317,76 @@ export interface FlashcardDeck {
   name: string;            // Deck name/title
   description?: string;    // Optional description
   cards: Flashcard[];      // Array of cards in deck
+  newCardsPerDay?: number; // Daily limit of new cards introduced
+  reviewsPerDay?: number;  // Daily limit of reviews shown
+  algorithm?: SchedulerAlgorithm; // Review scheduling algorithm (default SM-2)
   createdAt: string;       // When deck was created
+  updatedAt?: string;      // Last local modification, used for sync (ISO 8601)
+}
+
+// ============================================================================
+// SHARING TYPES
+// ============================================================================
+
+/**
+ * ShareVisibility
+ * - public: listed for every signed-in user
+ * - unlisted: reachable only with the share code or link
+ */
+export type ShareVisibility = 'public' | 'unlisted';
+
+/**
+ * SharedQuizContent Interface
+ * Snapshot of a quiz when it was published (no attempts)
+ */
+export interface SharedQuizContent {
+  source: string;
+  questions: Question[];
+}
+
+/**
+ * SharedDeckContent Interface
+ * Snapshot of a deck when it was published (no review history)
+ */
+export interface SharedDeckContent {
+  description?: string;
+  algorithm?: SchedulerAlgorithm;
+  cards: Pick<Flashcard, 'front' | 'back' | 'difficulty'>[];
+}
+
+/**
+ * SharedItemSummary Interface
+ * A published quiz or deck, without its content
+ */
+export interface SharedItemSummary {
+  code: string;            // Share code (8 characters)
+  kind: 'quiz' | 'deck';
+  visibility: ShareVisibility;
+  title: string;
+  leaderboardEnabled: boolean; // Attempts are ranked (quizzes only)
+  createdAt: string;
+  updatedAt: string;       // When the snapshot was last published
+}
+
+/**
+ * SharedItem
+ * A published quiz or deck with its snapshot, as seen by anyone with the code
+ */
+export type SharedItem = SharedItemSummary & { ownerName: string } & (
+  | { kind: 'quiz'; content: SharedQuizContent }
+  | { kind: 'deck'; content: SharedDeckContent }
+);
+
+/**
+ * SharedLeaderboardEntry Interface
+ * One player's best result on a shared quiz
+ */
+export interface SharedLeaderboardEntry {
+  userId: string;
+  name: string;
+  bestPercent: number;     // Best score as a whole percentage
+  attempts: number;        // Attempts posted
+  lastAttemptAt: string;   // Most recent attempt (ISO 8601)
 }
 
 // ============================================================================
@@ -212,7 +401,9 @@ export interface DoubtSession {
   id: string;              // Unique session identifier
   title: string;           // Session topic/title
   messages: DoubtMessage[]; // Chat message history
+  pinned?: boolean;        // Kept at the top of the session list
   createdAt: string;       // When session started
+  updatedAt?: string;      // Last local modification, used for sync (ISO 8601)
 }
 
 /**
@@ -223,8 +414,11 @@ export interface DoubtMessage {
   id: string;              // Unique message identifier
   role: 'user' | 'assistant'; // Who sent this message
   content: string;         // Message text
-  image?: string;          // Optional image URL (for OCR/problem images)
-  step?: StepCheck;        // Optional step verification data
+  solution?: string;       // Student's own solution sent for step-by-step verification
+  image?: string;          // Optional problem photo (data URL sent to the model)
+  steps?: StepCheck[];     // Per-step verdicts when a solution was verified
+  stopped?: boolean;       // Answer was stopped before it finished
+  failed?: boolean;        // Answer is an error notice because the AI call failed
   timestamp: string;       // When message was sent (ISO 8601)
 }
 
@@ -254,6 +448,7 @@ export type XPEventType =
   | 'submit_step'        // User submitted any solution step
   | 'complete_quiz'      // User completed a quiz attempt
   | 'perfect_quiz'       // User got perfect score on quiz
+  | 'correct_answer'     // User earned a question's worth of credit in a quiz
   | 'review_flashcard'   // User reviewed a flashcard
   | 'complete_mission'   // User completed a daily mission
   | 'streak_bonus';      // Streak bonus (deprecated, use multiplier instead)
@@ -0,0 +1,259 @@
+/**
+ * AI Proxy Edge Function
+ *
+ * Forwards Gemini requests from signed-in users so the API key never
+ * reaches the browser:
+ * - Verifies the caller's Supabase JWT
+ * - Per-user rate limit (requests per minute), daily token quota and
+ *   prompt size limit
+ * - Records tokens and estimated cost of every request in `ai_usage`
+ *
+ * The body is `{ model, stream, request }` where `request` is a Gemini
+ * generateContent body (contents, systemInstruction, generationConfig);
+ * only sampling and JSON-output settings of generationConfig are forwarded.
+ * Replies are Gemini's own JSON, or its server-sent events when streaming.
+ *
+ * Secrets: GEMINI_API_KEY (required), AI_REQUESTS_PER_MINUTE and
+ * AI_DAILY_TOKEN_QUOTA (optional). SUPABASE_URL and
+ * SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+ *
+ * Deploy with: supabase functions deploy ai-proxy
+ */
+
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Models the proxy will call, with list prices in USD per million tokens
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+};
+
+// Longest reply a single request may ask for
+const MAX_OUTPUT_TOKENS = 8192;
+
+// generationConfig fields passed on to Gemini; others (e.g. candidateCount) would multiply the cost
+const ALLOWED_GENERATION_FIELDS = ["temperature", "topP", "topK", "responseMimeType", "responseSchema"];
+
+// Largest prompt accepted: text (about 4 characters per token) and base64 image data
+const MAX_PROMPT_TEXT_CHARS = 100_000;
+const MAX_PROMPT_INLINE_DATA_CHARS = 4 * 1024 * 1024;
+
+const REQUESTS_PER_MINUTE = Number(Deno.env.get("AI_REQUESTS_PER_MINUTE") ?? 10);
+const DAILY_TOKEN_QUOTA = Number(Deno.env.get("AI_DAILY_TOKEN_QUOTA") ?? 200_000);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Gemini's token counts for a request
+ */
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+/**
+ * Body sent by the app's hosted provider
+ */
+interface ProxyRequest {
+  model: string;
+  stream?: boolean;
+  request: {
+    contents: unknown[];
+    systemInstruction?: unknown;
+    generationConfig?: { maxOutputTokens?: number } & Record<string, unknown>;
+  };
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+
+/**
+ * estimateCost - List-price cost of a request in USD
+ * Thinking tokens are billed as output.
+ */
+const estimateCost = (model: string, usage: UsageMetadata): number => {
+  const price = MODEL_PRICES[model];
+  const output = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  return ((usage.promptTokenCount ?? 0) * price.input + output * price.output) / 1_000_000;
+};
+
+/**
+ * measurePrompt - Characters of text and of inline (base64) data in a request
+ * Every string counts as text except the `data` of inline images.
+ */
+const measurePrompt = (value: unknown, size = { text: 0, inlineData: 0 }) => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => measurePrompt(item, size));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "data" && typeof item === "string") size.inlineData += item.length;
+      else measurePrompt(item, size);
+    }
+  } else if (typeof value === "string") {
+    size.text += value.length;
+  }
+  return size;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed." }, 405);
+
+  const geminiKey = Deno.env.get("GEMINI_API_KEY");
+  if (!geminiKey) return json({ error: "The AI service is not configured on the server." }, 503);
+
+  // Service-role client: verifies tokens and writes usage rows (bypasses RLS)
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+
+  // --- AUTH ---
+  const token = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) return json({ error: "Please sign in to use AI features." }, 401);
+
+  let body: ProxyRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "The request body must be JSON." }, 400);
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return json({ error: "The request body must be a JSON object." }, 400);
+  }
+
+  const { model, stream = false, request } = body;
+  if (!MODEL_PRICES[model]) return json({ error: `The model "${model}" is not available on this server.` }, 400);
+  if (!Array.isArray(request?.contents)) return json({ error: "The request has no contents." }, 400);
+
+  // A single huge prompt could use up the whole daily quota at once
+  const promptSize = measurePrompt([request.contents, request.systemInstruction]);
+  if (promptSize.text > MAX_PROMPT_TEXT_CHARS || promptSize.inlineData > MAX_PROMPT_INLINE_DATA_CHARS) {
+    return json({ error: "The request is too large. Shorten the text or attach fewer images." }, 413);
+  }
+
+  // --- RATE LIMIT AND QUOTA ---
+  // Checked and recorded in one database call so concurrent requests count towards the limit
+  const { data: begun, error: usageError } = await admin
+    .rpc("ai_usage_begin", {
+      p_user_id: user.id,
+      p_model: model,
+      p_streamed: stream,
+      p_requests_per_minute: REQUESTS_PER_MINUTE,
+      p_daily_token_quota: DAILY_TOKEN_QUOTA,
+    })
+    .single();
+  if (usageError) {
+    console.error("Error recording AI usage:", usageError);
+    return json({ error: "Could not check your AI usage. Please try again." }, 500);
+  }
+
+  const { usage_id: usageId, refused } = begun as { usage_id: string | null; refused: string | null };
+  if (refused === "rate_limit") {
+    return json({ error: "You're sending requests too quickly. Please wait a minute and try again." }, 429, {
+      "Retry-After": "60",
+    });
+  }
+  if (refused === "daily_quota") {
+    return json({ error: "You've used today's AI allowance. It resets at midnight UTC." }, 429);
+  }
+
+  const recordUsage = async (status: string, usage: UsageMetadata = {}) => {
+    const { error } = await admin
+      .from("ai_usage")
+      .update({
+        status,
+        prompt_tokens: usage.promptTokenCount ?? 0,
+        output_tokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        total_tokens: usage.totalTokenCount ?? 0,
+        cost_usd: estimateCost(model, usage),
+      })
+      .eq("id", usageId);
+    if (error) console.error("Error updating AI usage:", error);
+  };
+
+  // --- FORWARD TO GEMINI ---
+  const requested: Record<string, unknown> =
+    request.generationConfig && typeof request.generationConfig === "object" ? request.generationConfig : {};
+  const generationConfig: Record<string, unknown> = {
+    maxOutputTokens: Math.min(Number(requested.maxOutputTokens) || 2048, MAX_OUTPUT_TOKENS),
+  };
+  for (const field of ALLOWED_GENERATION_FIELDS) {
+    if (requested[field] !== undefined) generationConfig[field] = requested[field];
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(
+      `${GEMINI_API_URL}/${model}:${stream ? "streamGenerateContent?alt=sse" : "generateContent"}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-goog-api-key": geminiKey },
+        body: JSON.stringify({
+          contents: request.contents,
+          systemInstruction: request.systemInstruction,
+          generationConfig,
+        }),
+        signal: req.signal,
+      }
+    );
+  } catch (error) {
+    await recordUsage(req.signal.aborted ? "cancelled" : "error");
+    console.error("Error calling Gemini:", error);
+    return json({ error: "The AI service could not be reached." }, 502);
+  }
+
+  if (!upstream.ok) {
+    const detail = await upstream.text().catch(() => "");
+    await recordUsage("error");
+    console.error(`Gemini returned ${upstream.status}:`, detail.slice(0, 500));
+    return json({ error: `The AI service returned an error (${upstream.status}).` }, 502);
+  }
+
+  if (!stream) {
+    const data = await upstream.json();
+    await recordUsage("ok", data.usageMetadata);
+    return json(data);
+  }
+
+  // Pass events straight through, keeping the latest token counts for the usage row
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let usage: UsageMetadata = {};
+
+  const meter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        try {
+          const event = JSON.parse(line.slice(5));
+          if (event.usageMetadata) usage = event.usageMetadata;
+        } catch {
+          // Not a complete JSON event; nothing to meter
+        }
+      }
+    },
+    flush: () => recordUsage("ok", usage),
+    cancel: () => recordUsage("cancelled", usage),
+  });
+
+  return new Response(upstream.body!.pipeThrough(meter), {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+});
@@ -57,11 +57,160 @@ CREATE TABLE IF NOT EXISTS user_missions (
   UNIQUE(user_id, mission_id, mission_date)
 );
 
+-- Flashcard Decks Table
+-- Stores each user's flashcard decks (ids are generated client-side)
+-- updated_at is written by the client and drives last-write-wins sync,
+-- so these tables intentionally have no update_updated_at trigger
+CREATE TABLE IF NOT EXISTS flashcard_decks (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  new_cards_per_day INTEGER,
+  reviews_per_day INTEGER,
+  algorithm TEXT CHECK (algorithm IN ('sm2', 'fsrs')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+
+-- Flashcards Table
+-- Stores cards with their SM-2 / FSRS spaced repetition data
+CREATE TABLE IF NOT EXISTS flashcards (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  deck_id TEXT NOT NULL,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  difficulty TEXT DEFAULT 'medium' NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  interval INTEGER DEFAULT 0 NOT NULL,
+  ease_factor REAL DEFAULT 2.5 NOT NULL,
+  repetitions INTEGER DEFAULT 0 NOT NULL,
+  next_review_date TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  last_review_date TIMESTAMPTZ,
+  lapses INTEGER DEFAULT 0 NOT NULL,
+  stability REAL,
+  fsrs_difficulty REAL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, deck_id) REFERENCES flashcard_decks(user_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS flashcards_due_idx ON flashcards (user_id, next_review_date);
+
+-- Doubt Sessions Table
+-- Stores saved Doubt Solver conversations (ids are generated client-side)
+-- messages holds the chat as a JSON array; updated_at drives
+-- last-write-wins sync like the flashcard tables
+CREATE TABLE IF NOT EXISTS doubt_sessions (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  pinned BOOLEAN DEFAULT false NOT NULL,
+  messages JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+
+-- Quizzes Table
+-- Stores the quiz library (ids are generated client-side)
+-- questions and attempts are JSON arrays; updated_at drives
+-- last-write-wins sync like the flashcard tables
+CREATE TABLE IF NOT EXISTS quizzes (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  source TEXT DEFAULT '' NOT NULL,
+  questions JSONB DEFAULT '[]'::jsonb NOT NULL,
+  attempts JSONB DEFAULT '[]'::jsonb NOT NULL,
+  share_code TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+
+-- Question Bank Table
+-- Every generated or hand-written question, tagged for building custom
+-- quizzes (ids are generated client-side); the question itself is JSON
+CREATE TABLE IF NOT EXISTS question_bank (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  subject TEXT,
+  tags TEXT[] DEFAULT '{}' NOT NULL,
+  origin TEXT DEFAULT 'generated' NOT NULL,
+  source TEXT,
+  question JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+
+-- Shared Items Table
+-- Published snapshots of quizzes and decks, looked up by share code.
+-- Public items can be listed by anyone signed in; unlisted ones are only
+-- reachable through get_shared_item with their code
+CREATE TABLE IF NOT EXISTS shared_items (
+  code TEXT PRIMARY KEY,
+  owner_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('quiz', 'deck')),
+  source_id TEXT NOT NULL,
+  visibility TEXT DEFAULT 'unlisted' NOT NULL CHECK (visibility IN ('public', 'unlisted')),
+  title TEXT NOT NULL,
+  content JSONB NOT NULL,
+  leaderboard_enabled BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(owner_id, kind, source_id)
+);
+
+-- Shared Quiz Attempts Table
+-- Scores on the leaderboard of a shared quiz
+-- Written only through submit_shared_quiz_attempt
+CREATE TABLE IF NOT EXISTS shared_quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT REFERENCES shared_items(code) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  score NUMERIC NOT NULL,
+  total_questions INTEGER NOT NULL,
+  completed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS shared_quiz_attempts_code_idx ON shared_quiz_attempts (code);
+
+-- AI Usage Table
+-- One row per request through the ai-proxy Edge Function; drives the
+-- per-user rate limit and daily token quota and records estimated cost.
+-- Written only by the Edge Function (service role)
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  model TEXT NOT NULL,
+  streamed BOOLEAN DEFAULT false NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'ok', 'error', 'cancelled')),
+  prompt_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  total_tokens INTEGER DEFAULT 0 NOT NULL,
+  cost_usd NUMERIC(12, 6) DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_created_idx ON ai_usage (user_id, created_at);
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_stats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_missions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcard_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE doubt_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies for user_profiles
 -- Users can only read/update their own profile
@@ -112,6 +261,224 @@ CREATE POLICY "Users can insert their own missions"
   ON user_missions FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
+-- RLS Policies for flashcard_decks
+CREATE POLICY "Users can view their own flashcard decks"
+  ON flashcard_decks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own flashcard decks"
+  ON flashcard_decks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own flashcard decks"
+  ON flashcard_decks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcard decks"
+  ON flashcard_decks FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for flashcards
+CREATE POLICY "Users can view their own flashcards"
+  ON flashcards FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own flashcards"
+  ON flashcards FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own flashcards"
+  ON flashcards FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcards"
+  ON flashcards FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for doubt_sessions
+CREATE POLICY "Users can view their own doubt sessions"
+  ON doubt_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own doubt sessions"
+  ON doubt_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own doubt sessions"
+  ON doubt_sessions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own doubt sessions"
+  ON doubt_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for quizzes
+CREATE POLICY "Users can view their own quizzes"
+  ON quizzes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own quizzes"
+  ON quizzes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quizzes"
+  ON quizzes FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quizzes"
+  ON quizzes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for question_bank
+CREATE POLICY "Users can view their own bank questions"
+  ON question_bank FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bank questions"
+  ON question_bank FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bank questions"
+  ON question_bank FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bank questions"
+  ON question_bank FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for shared_items
+CREATE POLICY "Users can view public and their own shared items"
+  ON shared_items FOR SELECT
+  USING (visibility = 'public' OR auth.uid() = owner_id);
+
+CREATE POLICY "Users can insert their own shared items"
+  ON shared_items FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own shared items"
+  ON shared_items FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own shared items"
+  ON shared_items FOR DELETE
+  USING (auth.uid() = owner_id);
+
+-- RLS Policies for shared_quiz_attempts
+-- Users see their own posted attempts; others' only through the leaderboard function
+CREATE POLICY "Users can view their own shared quiz attempts"
+  ON shared_quiz_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for ai_usage
+-- Read-only for users; rows are written by the ai-proxy Edge Function
+CREATE POLICY "Users can view their own AI usage"
+  ON ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Requests in the last minute and tokens used today (UTC) for one user
+-- Called by the ai-proxy Edge Function before forwarding a request
+CREATE OR REPLACE FUNCTION public.ai_usage_summary(p_user_id UUID)
+RETURNS TABLE (requests_last_minute BIGINT, tokens_today BIGINT) AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 minute'),
+    COALESCE(SUM(total_tokens) FILTER (WHERE created_at >= date_trunc('day', NOW(), 'UTC')), 0)
+  FROM ai_usage
+  WHERE user_id = p_user_id
+    AND created_at > NOW() - INTERVAL '1 day';
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.ai_usage_summary(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Check the rate limit and daily quota and record the request in one step
+-- Calls for the same user are serialised with an advisory lock, so
+-- concurrent requests can't all pass the check before any is recorded.
+-- Returns the new ai_usage row id, or why the request was refused
+CREATE OR REPLACE FUNCTION public.ai_usage_begin(
+  p_user_id UUID,
+  p_model TEXT,
+  p_streamed BOOLEAN,
+  p_requests_per_minute INTEGER,
+  p_daily_token_quota BIGINT
+)
+RETURNS TABLE (usage_id UUID, refused TEXT) AS $$
+DECLARE
+  v_requests BIGINT;
+  v_tokens BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT));
+
+  SELECT s.requests_last_minute, s.tokens_today INTO v_requests, v_tokens
+  FROM public.ai_usage_summary(p_user_id) s;
+
+  IF v_requests >= p_requests_per_minute THEN
+    RETURN QUERY SELECT NULL::UUID, 'rate_limit'::TEXT;
+  ELSIF v_tokens >= p_daily_token_quota THEN
+    RETURN QUERY SELECT NULL::UUID, 'daily_quota'::TEXT;
+  ELSE
+    RETURN QUERY
+      INSERT INTO public.ai_usage (user_id, model, streamed)
+      VALUES (p_user_id, p_model, p_streamed)
+      RETURNING ai_usage.id, NULL::TEXT;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.ai_usage_begin(UUID, TEXT, BOOLEAN, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- A shared item by code, public or unlisted, with its owner's name
+CREATE OR REPLACE FUNCTION public.get_shared_item(p_code TEXT)
+RETURNS TABLE (
+  code TEXT, kind TEXT, visibility TEXT, title TEXT, content JSONB,
+  leaderboard_enabled BOOLEAN, owner_name TEXT, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+) AS $$
+  SELECT s.code, s.kind, s.visibility, s.title, s.content,
+         s.leaderboard_enabled, p.name, s.created_at, s.updated_at
+  FROM shared_items s
+  JOIN user_profiles p ON p.id = s.owner_id
+  WHERE s.code = UPPER(p_code);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Best score per player on a shared quiz (empty while its leaderboard is off)
+CREATE OR REPLACE FUNCTION public.shared_quiz_leaderboard(p_code TEXT)
+RETURNS TABLE (user_id UUID, name TEXT, best_percent INTEGER, attempts BIGINT, last_attempt_at TIMESTAMPTZ) AS $$
+  SELECT a.user_id, p.name,
+         MAX(ROUND(a.score * 100 / a.total_questions))::INTEGER,
+         COUNT(*),
+         MAX(a.completed_at)
+  FROM shared_quiz_attempts a
+  JOIN shared_items s ON s.code = a.code AND s.leaderboard_enabled
+  JOIN user_profiles p ON p.id = a.user_id
+  WHERE a.code = UPPER(p_code)
+  GROUP BY a.user_id, p.name
+  ORDER BY 3 DESC, 5 ASC
+  LIMIT 50;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Post the caller's attempt to a shared quiz's leaderboard
+-- Ignored when the quiz doesn't exist, its leaderboard is off, or the
+-- attempt didn't cover every question of the shared quiz. The total comes
+-- from the shared snapshot and the score is clamped to 0..total
+CREATE OR REPLACE FUNCTION public.submit_shared_quiz_attempt(p_code TEXT, p_score NUMERIC, p_total INTEGER)
+RETURNS VOID AS $$
+  INSERT INTO shared_quiz_attempts (code, user_id, score, total_questions)
+  SELECT s.code, auth.uid(), LEAST(GREATEST(COALESCE(p_score, 0), 0), q.total), q.total
+  FROM shared_items s
+  CROSS JOIN LATERAL (SELECT jsonb_array_length(s.content->'questions') AS total) q
+  WHERE s.code = UPPER(p_code)
+    AND s.kind = 'quiz'
+    AND s.leaderboard_enabled
+    AND auth.uid() IS NOT NULL
+    AND q.total > 0
+    AND p_total = q.total;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_item(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.shared_quiz_leaderboard(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.submit_shared_quiz_attempt(TEXT, NUMERIC, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_shared_item(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.shared_quiz_leaderboard(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_shared_quiz_attempt(TEXT, NUMERIC, INTEGER) TO authenticated;
+
 -- Function to automatically create user profile on signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -161,3 +528,7 @@ CREATE TRIGGER update_user_missions_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_shared_items_updated_at
+  BEFORE UPDATE ON shared_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();